@@ -0,0 +1,27 @@
+/**
+ *
+ *
+ * gives posts created before post statuses existed a `status` and `expiresAt`, so
+ * expired ones are archived and the archive job can find the rest. needs firebase
+ * admin credentials (or FIRESTORE_EMULATOR_HOST). safe to re-run
+ *
+ * usage:
+ *   npm run backfill-post-status
+ *
+ */
+
+import { backfillPostLifecycle } from '../src/services/postRetention';
+
+const main = async () => {
+  const { adminDb } = await import('../src/services/firebaseAdmin');
+  const { scanned, updated } = await backfillPostLifecycle(adminDb);
+  console.log(`Set a status on ${updated} of ${scanned} posts`);
+};
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error('\x1b[31m%s\x1b[0m', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,87 @@
+/**
+ *
+ *
+ * replays genre enrichment against recorded spotify responses and checks the genres
+ * and parent genres against the fixture's expected results. exits 1 on any mismatch
+ *
+ * usage:
+ *   npm run enrich-genres -- [--fixture scripts/fixtures/spotify_genre_enrichment.json] [trackId ...]
+ *
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createRecordedFetcher, enrichTrackGenres } from '../src/services/genreEnrichment';
+import { getParentGenres } from '../src/services/genreTaxonomy';
+
+const DEFAULT_FIXTURE = path.join(__dirname, 'fixtures', 'spotify_genre_enrichment.json');
+
+interface GenreFixture {
+  responses: { [endpoint: string]: any };                                   // recorded spotify responses by endpoint
+  tracks?: { [trackId: string]: { genres: string[]; parentGenres: string[] } }; // expected enrichment per track
+  parentGenres?: { [genre: string]: string[] };                             // expected parents of single genres
+}
+
+const sameList = (a: string[], b: string[]) => a.length === b.length && a.every((value, index) => value === b[index]);
+
+const main = async () => {
+  const args = process.argv.slice(2);
+  let fixturePath = DEFAULT_FIXTURE;
+  const trackIds: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--fixture') fixturePath = path.resolve(args[++i]);
+    else trackIds.push(args[i]);
+  }
+
+  const fixture: GenreFixture = JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+  const { responses } = fixture;
+  const fetcher = createRecordedFetcher(responses);
+  const failures: string[] = [];
+
+  const check = (label: string, actual: string[], expected: string[] | undefined) => {
+    if (!expected) return;
+    if (sameList(actual, expected)) return;
+    failures.push(`${label}: expected ${expected.join(', ') || 'none'}, got ${actual.join(', ') || 'none'}`);
+    console.log('\x1b[31m%s\x1b[0m', `  FAIL ${label}: expected ${expected.join(', ') || 'none'}`);
+  };
+
+  // every recorded track when none are named
+  const ids = trackIds.length > 0
+    ? trackIds
+    : Object.keys(responses).filter(endpoint => endpoint.startsWith('/tracks/')).map(endpoint => endpoint.slice('/tracks/'.length));
+
+  for (const trackId of ids) {
+    const enrichment = await enrichTrackGenres(trackId, fetcher);
+    const name = responses[`/tracks/${trackId}`]?.name || trackId;
+
+    console.log(`${name} (${enrichment.album || 'unknown album'})`);
+    console.log(`  spotify: ${enrichment.rawGenres.join(', ') || 'none'}`);
+    console.log(`  genres:  ${enrichment.genres.join(', ') || 'none'}`);
+    check(`${name} genres`, enrichment.genres, fixture.tracks?.[trackId]?.genres);
+    console.log(`  parents: ${enrichment.parentGenres.join(', ') || 'none'}`);
+    check(`${name} parents`, enrichment.parentGenres, fixture.tracks?.[trackId]?.parentGenres);
+  }
+
+  // genres the keyword taxonomy is easy to get wrong, checked on their own
+  if (trackIds.length === 0) {
+    Object.entries(fixture.parentGenres || {}).forEach(([genre, expected]) => {
+      const parents = getParentGenres(genre);
+      console.log(`${genre} -> ${parents.join(', ') || 'none'}`);
+      check(`parents of "${genre}"`, parents, expected);
+    });
+  }
+
+  if (failures.length > 0) {
+    throw new Error(`${failures.length} genre check(s) failed:\n${failures.join('\n')}`);
+  }
+  console.log('\x1b[32m%s\x1b[0m', 'All genre checks passed');
+};
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error('\x1b[31m%s\x1b[0m', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
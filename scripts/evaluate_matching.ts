@@ -0,0 +1,179 @@
+/**
+ *
+ *
+ * offline evaluation of discover ranking profiles. replays the decks each profile would
+ * have served, then checks the fixture's expectations and fails when one doesn't hold
+ *
+ * usage:
+ *   npm run evaluate -- [--fixture scripts/fixtures/matching_sample.json] [--emulator]
+ *                       [--profiles default,audio-heavy] [--k 5] [--seed 1] [--json] [--verbose]
+ *
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { RANKING_PROFILES } from '../src/services/matchScoring';
+import {
+  EvaluationDataset,
+  EvaluationResult,
+  ExpectationResult,
+  checkExpectations,
+  compareRankings
+} from '../src/services/matchingEvaluation';
+
+const DEFAULT_FIXTURE = path.join(__dirname, 'fixtures', 'matching_sample.json');
+
+interface CliOptions {
+  fixture: string;
+  emulator: boolean;
+  profiles: string[];
+  k: number;
+  seed: number;
+  json: boolean;
+  verbose: boolean;
+}
+
+const parseArgs = (argv: string[]): CliOptions => {
+  const options: CliOptions = {
+    fixture: DEFAULT_FIXTURE,
+    emulator: false,
+    profiles: Object.keys(RANKING_PROFILES),
+    k: 5,
+    seed: 1,
+    json: false,
+    verbose: false
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--fixture') options.fixture = path.resolve(argv[++i]);
+    else if (arg === '--emulator') options.emulator = true;
+    else if (arg === '--profiles') options.profiles = argv[++i].split(',').map(name => name.trim()).filter(Boolean);
+    else if (arg === '--k') options.k = parseInt(argv[++i], 10);
+    else if (arg === '--seed') options.seed = parseInt(argv[++i], 10);
+    else if (arg === '--json') options.json = true;
+    else if (arg === '--verbose') options.verbose = true;
+    else throw new Error(`Unknown argument: ${arg}`);
+  }
+
+  const unknown = options.profiles.filter(name => !RANKING_PROFILES[name]);
+  if (unknown.length > 0) {
+    throw new Error(`Unknown ranking profile(s): ${unknown.join(', ')}. Known: ${Object.keys(RANKING_PROFILES).join(', ')}`);
+  }
+  if (!(options.k > 0)) throw new Error('--k must be a positive number');
+  if (!Number.isFinite(options.seed)) throw new Error('--seed must be a number');
+
+  return options;
+};
+
+const loadFixture = (fixturePath: string): EvaluationDataset => {
+  const data = JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+  return {
+    users: data.users || [],
+    posts: data.posts || [],
+    swipes: data.swipes || [],
+    expectations: data.expectations || []
+  };
+};
+
+/**
+ * reads users, posts and swipes from the firestore emulator (FIRESTORE_EMULATOR_HOST)
+ */
+const loadFromEmulator = async (): Promise<EvaluationDataset> => {
+  if (!process.env.FIRESTORE_EMULATOR_HOST) {
+    throw new Error('--emulator needs FIRESTORE_EMULATOR_HOST, e.g. FIRESTORE_EMULATOR_HOST=localhost:8080');
+  }
+
+  const { adminDb } = await import('../src/services/firebaseAdmin');
+  const [usersSnapshot, postsSnapshot, swipesSnapshot] = await Promise.all([
+    adminDb.collection('users').get(),
+    adminDb.collection('posts').get(),
+    adminDb.collection('swipes').get()
+  ]);
+
+  const toDate = (value: any) => value?.toDate?.() || value;
+
+  return {
+    users: usersSnapshot.docs.map(userDoc => ({ ...userDoc.data(), uid: userDoc.id })),
+    posts: postsSnapshot.docs.map(postDoc => {
+      const data = postDoc.data();
+      return { ...data, id: postDoc.id, userId: data.userId, createdAt: toDate(data.createdAt) };
+    }),
+    swipes: swipesSnapshot.docs.map(swipeDoc => {
+      const data = swipeDoc.data();
+      return {
+        swiperId: data.swiperId,
+        postId: data.postId,
+        direction: data.direction,
+        timestamp: toDate(data.timestamp),
+        matchId: data.matchId
+      };
+    })
+  };
+};
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`.padStart(9);
+
+const printTable = (results: EvaluationResult[], k: number) => {
+  console.log('');
+  console.log(`${'profile'.padEnd(16)}${'sessions'.padStart(9)}${`P@${k}`.padStart(9)}${`NDCG@${k}`.padStart(9)}${`match@${k}`.padStart(9)}`);
+  results.forEach(result => {
+    console.log(
+      `${result.profile.padEnd(16)}${String(result.sessions).padStart(9)}` +
+      `${formatPercent(result.precisionAtK)}${formatPercent(result.ndcgAtK)}${formatPercent(result.matchConversionAtK)}`
+    );
+  });
+  console.log('');
+};
+
+const printExpectations = (expectations: ExpectationResult[]) => {
+  expectations.forEach(({ expectation, betterScore, thanScore, passed }) => {
+    const line = `${expectation.userId}: ${expectation.better} ${formatPercent(betterScore).trim()} > ` +
+      `${expectation.than} ${formatPercent(thanScore).trim()} on ${expectation.metric}`;
+    console.log(passed ? '\x1b[32m%s\x1b[0m' : '\x1b[31m%s\x1b[0m', `${passed ? 'PASS' : 'FAIL'} ${line}`);
+  });
+  console.log('');
+};
+
+const main = async () => {
+  const options = parseArgs(process.argv.slice(2));
+  const dataset = options.emulator ? await loadFromEmulator() : loadFixture(options.fixture);
+
+  if (!options.json) {
+    console.log('\x1b[36m%s\x1b[0m', '===== Discover Ranking Evaluation =====');
+    console.log(`Source: ${options.emulator ? `emulator (${process.env.FIRESTORE_EMULATOR_HOST})` : options.fixture}`);
+    console.log(`${dataset.users.length} users, ${dataset.posts.length} posts, ${dataset.swipes.length} swipes`);
+  }
+
+  // the ranking pipeline logs every step; keep the report readable unless asked
+  const log = console.log;
+  if (!options.verbose) console.log = () => {};
+  let results: EvaluationResult[];
+  let expectations: ExpectationResult[];
+  try {
+    results = compareRankings(dataset, options.profiles, { k: options.k, seed: options.seed });
+    expectations = checkExpectations(dataset, { k: options.k, seed: options.seed });
+  } finally {
+    console.log = log;
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify({ results, expectations }, null, 2));
+  } else {
+    printTable(results, options.k);
+    printExpectations(expectations);
+  }
+
+  const failed = expectations.filter(expectation => !expectation.passed);
+  if (failed.length > 0) {
+    throw new Error(`${failed.length} of ${expectations.length} ranking expectations failed`);
+  }
+};
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error('\x1b[31m%s\x1b[0m', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,33 @@
+/**
+ *
+ *
+ * prints right-swipe and match rates per arm of a discover ranking experiment.
+ * needs firebase admin credentials (or FIRESTORE_EMULATOR_HOST)
+ *
+ * usage:
+ *   npm run experiment-report
+ *   npm run experiment-report -- discover-ranking-v1
+ *
+ */
+
+import { getExperimentReport } from '../src/services/experimentReport';
+import { DISCOVER_RANKING_EXPERIMENT, EXPERIMENTS } from '../src/services/experiments';
+
+const main = async () => {
+  const experimentId = process.argv[2] || DISCOVER_RANKING_EXPERIMENT;
+  if (!EXPERIMENTS[experimentId]) {
+    throw new Error(`Unknown experiment "${experimentId}". Known: ${Object.keys(EXPERIMENTS).join(', ')}`);
+  }
+
+  const { adminDb } = await import('../src/services/firebaseAdmin');
+  // getExperimentReport prints the per-arm summary
+  await getExperimentReport(adminDb, experimentId);
+};
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error('\x1b[31m%s\x1b[0m', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,48 @@
+/**
+ *
+ *
+ * replays a listening history import against recorded spotify responses and
+ * prints the taste profile it would seed
+ *
+ * usage:
+ *   npm run import-history -- [--fixture scripts/fixtures/spotify_listening_history.json] [--now 2026-10-19]
+ *
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createRecordedFetcher } from '../src/services/genreEnrichment';
+import { buildListeningEvents, fetchListeningHistory, seedTasteProfile } from '../src/services/listeningHistory';
+
+const DEFAULT_FIXTURE = path.join(__dirname, 'fixtures', 'spotify_listening_history.json');
+
+const main = async () => {
+  const args = process.argv.slice(2);
+  let fixture = DEFAULT_FIXTURE;
+  let now = new Date();
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--fixture') fixture = path.resolve(args[++i]);
+    else if (args[i] === '--now') now = new Date(args[++i]);
+    else throw new Error(`Unknown argument ${args[i]}`);
+  }
+
+  const fetcher = createRecordedFetcher(JSON.parse(fs.readFileSync(fixture, 'utf8')));
+
+  const history = await fetchListeningHistory(fetcher);
+  const events = await buildListeningEvents(history, fetcher, { now });
+  const profile = seedTasteProfile(events, now);
+
+  console.log(`${history.topArtists.length} top artists, ${history.topTracks.length} top tracks, ${history.recentlyPlayed.length} recent plays`);
+  console.log(`  events: ${events.length}`);
+  console.log(`  genres: ${profile.genres.join(', ') || 'none'}`);
+  console.log(`  liked weight: ${profile.likedWeight.toFixed(2)} (a replay has no track store or preview analysis to take audio features from)`);
+};
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error('\x1b[31m%s\x1b[0m', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,81 @@
+/**
+ *
+ *
+ * matches one fixture catalog's tracks against another's by ISRC, then by title, artist and duration,
+ * and checks each result against the fixture's expected match. exits 1 on any mismatch
+ *
+ * usage:
+ *   npm run match-tracks -- [--fixture scripts/fixtures/track_identity_catalogs.json] [--from spotify] [--to deezer]
+ *
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { IdentityTrack, matchInCatalog } from '../src/services/trackIdentity';
+
+const DEFAULT_FIXTURE = path.join(__dirname, 'fixtures', 'track_identity_catalogs.json');
+
+interface ExpectedMatch {
+  id: string;        // track id in the target catalog
+  matchedBy: string; // 'isrc' or 'fuzzy'
+}
+
+interface CatalogFixture {
+  catalogs: { [provider: string]: IdentityTrack[] };
+  // "from:to" -> source track id -> its expected match, null when it must not match
+  expected?: { [pair: string]: { [trackId: string]: ExpectedMatch | null } };
+}
+
+const main = () => {
+  const args = process.argv.slice(2);
+  let fixturePath = DEFAULT_FIXTURE;
+  let from = 'spotify';
+  let to = 'deezer';
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--fixture') fixturePath = path.resolve(args[++i]);
+    else if (args[i] === '--from') from = args[++i];
+    else if (args[i] === '--to') to = args[++i];
+    else throw new Error(`Unknown argument: ${args[i]}`);
+  }
+
+  const { catalogs, expected = {} }: CatalogFixture = JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+  if (!catalogs[from] || !catalogs[to]) {
+    throw new Error(`Fixture needs "${from}" and "${to}" catalogs. Found: ${Object.keys(catalogs).join(', ')}`);
+  }
+
+  const expectedMatches = expected[`${from}:${to}`] || {};
+  const failures: string[] = [];
+
+  catalogs[from].forEach(track => {
+    const result = matchInCatalog(track, catalogs[to]);
+    const label = `${track.title} - ${track.artist}`;
+    if (result) {
+      console.log(`${label}\n  -> ${to}:${result.match.ref?.id} "${result.match.title}" (${result.matchedBy}, ${result.score.toFixed(2)})`);
+    } else {
+      console.log(`${label}\n  -> no match`);
+    }
+
+    const trackId = track.ref?.id;
+    if (!trackId || !(trackId in expectedMatches)) return;
+    const want = expectedMatches[trackId];
+    const got = result ? { id: result.match.ref?.id, matchedBy: result.matchedBy } : null;
+    if (want?.id === got?.id && want?.matchedBy === got?.matchedBy) return;
+
+    const describe = (match: { id?: string; matchedBy: string } | null) => (match ? `${to}:${match.id} (${match.matchedBy})` : 'no match');
+    failures.push(`${label}: expected ${describe(want)}, got ${describe(got)}`);
+    console.log('\x1b[31m%s\x1b[0m', `  FAIL expected ${describe(want)}`);
+  });
+
+  if (failures.length > 0) {
+    throw new Error(`${failures.length} match check(s) failed:\n${failures.join('\n')}`);
+  }
+  console.log('\x1b[32m%s\x1b[0m', `All ${Object.keys(expectedMatches).length} ${from} -> ${to} match checks passed`);
+};
+
+try {
+  main();
+} catch (error) {
+  console.error('\x1b[31m%s\x1b[0m', error instanceof Error ? error.message : error);
+  process.exit(1);
+}
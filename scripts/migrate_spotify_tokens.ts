@@ -0,0 +1,27 @@
+/**
+ *
+ *
+ * moves spotify tokens stored in plain text on user documents into the encrypted
+ * `spotifyTokens` collection. needs firebase admin credentials (or FIRESTORE_EMULATOR_HOST)
+ * and SPOTIFY_TOKEN_ENCRYPTION_KEY
+ *
+ * usage:
+ *   npm run migrate-spotify-tokens
+ *
+ */
+
+import { migratePlainTextSpotifyTokens } from '../src/services/spotifyTokens';
+
+const main = async () => {
+  const { adminDb } = await import('../src/services/firebaseAdmin');
+  const migrated = await migratePlainTextSpotifyTokens(adminDb);
+  console.log(`Migrated Spotify tokens for ${migrated} user${migrated === 1 ? '' : 's'}`);
+};
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error('\x1b[31m%s\x1b[0m', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,169 @@
+/**
+ *
+ *
+ * checks the daily reset windows against a fixed clock: daylight saving changes, a half-hour
+ * offset zone and a schedule change part way through a window. exits 1 on any mismatch.
+ * with arguments, prints the windows a schedule produces, one per day from a start date
+ *
+ * usage:
+ *   npm run reset-windows
+ *   npm run reset-windows -- [--zone America/Los_Angeles] [--hour 9] [--from 2026-10-30] [--days 4]
+ *
+ */
+
+import {
+  DEFAULT_RESET_SCHEDULE,
+  RESET_SCHEDULE_CHANGE_COOLDOWN_MS,
+  ResetSchedule,
+  ResetScheduleCooldownError,
+  assertCanChangeResetSchedule,
+  getLastReset,
+  getNextReset,
+  getWindowKey,
+  isInCurrentWindow,
+  isValidResetHour,
+  isValidTimeZone
+} from '../src/services/resetSchedule';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface ExpectedWindow {
+  note: string;
+  schedule: ResetSchedule;
+  at: string;       // the fixed clock
+  key: string;      // window open at `at`
+  opensAt: string;
+  closesAt: string;
+}
+
+const LOS_ANGELES = (resetHour: number): ResetSchedule => ({ timeZone: 'America/Los_Angeles', resetHour });
+
+const EXPECTED_WINDOWS: ExpectedWindow[] = [
+  { note: 'spring forward shortens the window', schedule: LOS_ANGELES(9), at: '2026-03-08T12:00:00Z', key: '2026-03-07', opensAt: '2026-03-07T17:00:00.000Z', closesAt: '2026-03-08T16:00:00.000Z' },
+  { note: 'fall back lengthens the window', schedule: LOS_ANGELES(9), at: '2026-11-01T12:00:00Z', key: '2026-10-31', opensAt: '2026-10-31T16:00:00.000Z', closesAt: '2026-11-01T17:00:00.000Z' },
+  { note: 'a skipped reset hour closes when the clocks jump', schedule: LOS_ANGELES(2), at: '2026-03-08T09:00:00Z', key: '2026-03-07', opensAt: '2026-03-07T10:00:00.000Z', closesAt: '2026-03-08T10:00:00.000Z' },
+  { note: 'the window after a skipped reset hour', schedule: LOS_ANGELES(2), at: '2026-03-08T12:00:00Z', key: '2026-03-08', opensAt: '2026-03-08T10:00:00.000Z', closesAt: '2026-03-09T09:00:00.000Z' },
+  { note: 'a repeated reset hour closes at its first occurrence', schedule: LOS_ANGELES(1), at: '2026-11-01T07:00:00Z', key: '2026-10-31', opensAt: '2026-10-31T08:00:00.000Z', closesAt: '2026-11-01T08:00:00.000Z' },
+  { note: 'the window after a repeated reset hour', schedule: LOS_ANGELES(1), at: '2026-11-01T12:00:00Z', key: '2026-11-01', opensAt: '2026-11-01T08:00:00.000Z', closesAt: '2026-11-02T09:00:00.000Z' },
+  { note: 'half-hour offset', schedule: { timeZone: 'Asia/Kolkata', resetHour: 9 }, at: '2026-03-08T12:00:00Z', key: '2026-03-08', opensAt: '2026-03-08T03:30:00.000Z', closesAt: '2026-03-09T03:30:00.000Z' },
+  { note: 'half-hour offset springing forward', schedule: { timeZone: 'Australia/Adelaide', resetHour: 9 }, at: '2026-10-03T12:00:00Z', key: '2026-10-03', opensAt: '2026-10-02T23:30:00.000Z', closesAt: '2026-10-03T22:30:00.000Z' },
+  { note: 'half-hour offset falling back', schedule: { timeZone: 'Australia/Adelaide', resetHour: 9 }, at: '2026-04-04T12:00:00Z', key: '2026-04-04', opensAt: '2026-04-03T22:30:00.000Z', closesAt: '2026-04-04T23:30:00.000Z' }
+];
+
+interface ExpectedScheduleChange {
+  note: string;
+  schedule: ResetSchedule;   // the schedule switched to at CHANGED_AT
+  key: string;               // window open right after the switch
+  postCounts: boolean;       // whether the post made earlier under the old schedule still uses up the window
+}
+
+// posted at 10:00 PDT in the 9 AM Pacific window, then switched schedule at 13:00 PDT
+const POSTED_AT = new Date('2026-03-10T17:00:00Z');
+const CHANGED_AT = new Date('2026-03-10T20:00:00Z');
+
+const EXPECTED_SCHEDULE_CHANGES: ExpectedScheduleChange[] = [
+  { note: 'switching to a window that opened before the post', schedule: { timeZone: 'Europe/London', resetHour: 21 }, key: '2026-03-09', postCounts: true },
+  { note: 'switching to a window that opened since the post', schedule: { timeZone: 'Europe/London', resetHour: 19 }, key: '2026-03-10', postCounts: false }
+];
+
+const printWindows = (schedule: ResetSchedule, from: Date, days: number) => {
+  console.log(`Windows for ${schedule.resetHour}:00 ${schedule.timeZone}`);
+
+  // walk from window to window, starting with the one open at --from
+  let now = from;
+  for (let day = 0; day < days; day++) {
+    const opensAt = getLastReset(schedule, now);
+    const closesAt = getNextReset(schedule, now);
+    const hours = (closesAt.getTime() - opensAt.getTime()) / HOUR_MS;
+    console.log(`  ${getWindowKey(schedule, now)}: ${opensAt.toISOString()} -> ${closesAt.toISOString()} (${hours}h)`);
+    now = closesAt;
+  }
+};
+
+const runChecks = () => {
+  const failures: string[] = [];
+
+  const check = (label: string, actual: string, expected: string) => {
+    if (actual === expected) return;
+    failures.push(`${label}: expected ${expected}, got ${actual}`);
+    console.log('\x1b[31m%s\x1b[0m', `  FAIL expected ${expected}, got ${actual}`);
+  };
+
+  EXPECTED_WINDOWS.forEach(({ note, schedule, at, key, opensAt, closesAt }) => {
+    const now = new Date(at);
+    const label = `${schedule.resetHour}:00 ${schedule.timeZone} at ${at} (${note})`;
+    const window = {
+      key: getWindowKey(schedule, now),
+      opensAt: getLastReset(schedule, now).toISOString(),
+      closesAt: getNextReset(schedule, now).toISOString()
+    };
+    const hours = (new Date(window.closesAt).getTime() - new Date(window.opensAt).getTime()) / HOUR_MS;
+    console.log(`${label}\n  ${window.key}: ${window.opensAt} -> ${window.closesAt} (${hours}h)`);
+    check(`${label} key`, window.key, key);
+    check(`${label} opens`, window.opensAt, opensAt);
+    check(`${label} closes`, window.closesAt, closesAt);
+  });
+
+  check('post in the default window', String(isInCurrentWindow(POSTED_AT, DEFAULT_RESET_SCHEDULE, CHANGED_AT)), 'true');
+  EXPECTED_SCHEDULE_CHANGES.forEach(({ note, schedule, key, postCounts }) => {
+    const label = `switch to ${schedule.resetHour}:00 ${schedule.timeZone} at ${CHANGED_AT.toISOString()} (${note})`;
+    const counts = isInCurrentWindow(POSTED_AT, schedule, CHANGED_AT);
+    console.log(`${label}\n  ${getWindowKey(schedule, CHANGED_AT)}: earlier post ${counts ? 'counts' : 'does not count'}`);
+    check(`${label} key`, getWindowKey(schedule, CHANGED_AT), key);
+    check(`${label} earlier post counts`, String(counts), String(postCounts));
+  });
+
+  // a switch that opens a new window early can't be repeated until the cooldown is over
+  const canChangeAt = (now: Date) => {
+    try {
+      assertCanChangeResetSchedule({ resetScheduleUpdatedAt: CHANGED_AT }, now);
+      return true;
+    } catch (error) {
+      if (error instanceof ResetScheduleCooldownError) return false;
+      throw error;
+    }
+  };
+  const cooldownEndsAt = new Date(CHANGED_AT.getTime() + RESET_SCHEDULE_CHANGE_COOLDOWN_MS);
+  console.log(`switch again: blocked until ${cooldownEndsAt.toISOString()}`);
+  check('switch again just before the cooldown ends', String(canChangeAt(new Date(cooldownEndsAt.getTime() - 1))), 'false');
+  check('switch again once the cooldown ends', String(canChangeAt(cooldownEndsAt)), 'true');
+
+  if (failures.length > 0) {
+    throw new Error(`${failures.length} reset window check(s) failed:\n${failures.join('\n')}`);
+  }
+  console.log('\x1b[32m%s\x1b[0m', 'All reset window checks passed');
+};
+
+const main = () => {
+  const args = process.argv.slice(2);
+  if (args.length === 0) {
+    runChecks();
+    return;
+  }
+
+  const schedule: ResetSchedule = { ...DEFAULT_RESET_SCHEDULE };
+  let from = new Date();
+  let days = 4;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--zone') schedule.timeZone = args[++i];
+    else if (args[i] === '--hour') schedule.resetHour = parseInt(args[++i], 10);
+    else if (args[i] === '--from') from = new Date(args[++i]);
+    else if (args[i] === '--days') days = parseInt(args[++i], 10);
+    else throw new Error(`Unknown argument ${args[i]}`);
+  }
+
+  if (!isValidTimeZone(schedule.timeZone)) throw new Error(`Unknown timezone ${schedule.timeZone}`);
+  if (!isValidResetHour(schedule.resetHour)) throw new Error('--hour must be 0-23');
+  if (isNaN(from.getTime())) throw new Error('--from is not a date');
+
+  printWindows(schedule, from, days);
+};
+
+try {
+  main();
+  process.exit(0);
+} catch (error) {
+  console.error('\x1b[31m%s\x1b[0m', error instanceof Error ? error.message : error);
+  process.exit(1);
+}
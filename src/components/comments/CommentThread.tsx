@@ -0,0 +1,338 @@
+// comments under a post: threads with one level of replies, author edits and deletes, and reactions
+import React, { useEffect, useState } from 'react';
+import { FaUser } from 'react-icons/fa';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  COMMENT_REACTIONS,
+  Comment,
+  CommentReaction,
+  ThreadedComment,
+  addComment,
+  deleteComment,
+  editComment,
+  getPostComments,
+  toggleCommentReaction
+} from '@/services/comments';
+
+interface CommentThreadProps {
+  postId: string;
+  onCountChange?: (delta: number) => void; // so the page can keep the post's comment count in step
+}
+
+const updateComment = (
+  threads: ThreadedComment[],
+  commentId: string,
+  update: (comment: Comment) => Comment
+): ThreadedComment[] => {
+  return threads.map(thread => ({
+    ...(thread.id === commentId ? { ...update(thread), replies: thread.replies } : thread),
+    replies: thread.replies.map(reply => (reply.id === commentId ? update(reply) : reply))
+  }));
+};
+
+const Avatar: React.FC<{ photoURL?: string | null; name: string }> = ({ photoURL, name }) => (
+  <div className="w-8 h-8 rounded-full overflow-hidden bg-gray-700 flex-shrink-0">
+    {photoURL ? (
+      <img src={photoURL} alt={name} className="w-full h-full object-cover" />
+    ) : (
+      <div className="h-full w-full bg-primary-100 dark:bg-primary-900 flex items-center justify-center">
+        <FaUser className="h-3 w-3 text-primary-600 dark:text-primary-400" />
+      </div>
+    )}
+  </div>
+);
+
+const CommentThread: React.FC<CommentThreadProps> = ({ postId, onCountChange }) => {
+  const { user, userData } = useAuth();
+  const [threads, setThreads] = useState<ThreadedComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState(false);
+  const [newComment, setNewComment] = useState('');
+  const [replyingTo, setReplyingTo] = useState<Comment | null>(null);
+  const [editing, setEditing] = useState<{ id: string; content: string } | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchComments = async () => {
+    setLoading(true);
+    try {
+      setThreads(await getPostComments(postId));
+      setLoadError(false);
+    } catch (error) {
+      console.error('Error fetching comments:', error);
+      setLoadError(true);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchComments();
+  }, [postId]);
+
+  const handleAddComment = async () => {
+    if (!user || !newComment.trim() || submitting) return;
+
+    setSubmitting(true);
+    try {
+      const comment = await addComment(postId, user.uid, newComment.trim(), replyingTo?.id);
+
+      setThreads(prev => comment.parentId
+        ? prev.map(thread => (
+          thread.id === comment.parentId ? { ...thread, replies: [...thread.replies, comment] } : thread
+        ))
+        : [...prev, { ...comment, replies: [] }]
+      );
+      onCountChange?.(1);
+
+      setNewComment('');
+      setReplyingTo(null);
+    } catch (error) {
+      console.error('Error adding comment:', error);
+      alert('Failed to add comment. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSaveEdit = async () => {
+    if (!user || !editing || !editing.content.trim()) return;
+
+    const { id, content } = editing;
+    try {
+      await editComment(id, user.uid, content.trim());
+      setThreads(prev => updateComment(prev, id, comment => ({
+        ...comment,
+        content: content.trim(),
+        editedAt: new Date()
+      })));
+      setEditing(null);
+    } catch (error) {
+      console.error('Error editing comment:', error);
+      alert('Failed to edit comment. Please try again.');
+    }
+  };
+
+  const handleDelete = async (comment: Comment) => {
+    if (!user || !confirm('Delete this comment?')) return;
+
+    try {
+      const removed = await deleteComment(comment.id, user.uid);
+      onCountChange?.(-1);
+
+      if (!removed) {
+        // it has replies, so it stays as a placeholder
+        setThreads(prev => updateComment(prev, comment.id, deleted => ({
+          ...deleted,
+          content: '',
+          deleted: true,
+          reactions: {}
+        })));
+        return;
+      }
+
+      setThreads(prev => prev
+        .filter(thread => thread.id !== comment.id)
+        .map(thread => ({ ...thread, replies: thread.replies.filter(reply => reply.id !== comment.id) }))
+        // a deleted parent goes with its last reply
+        .filter(thread => !thread.deleted || thread.replies.length > 0)
+      );
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      alert('Failed to delete comment. Please try again.');
+    }
+  };
+
+  const handleReaction = async (comment: Comment, reaction: CommentReaction) => {
+    if (!user) return;
+
+    const reacted = (comment.reactions[reaction] || []).includes(user.uid);
+    // show it straight away, then put it back if the write fails
+    const applyReaction = (add: boolean) => setThreads(prev => updateComment(prev, comment.id, current => {
+      const userIds = (current.reactions[reaction] || []).filter(id => id !== user.uid);
+      return { ...current, reactions: { ...current.reactions, [reaction]: add ? [...userIds, user.uid] : userIds } };
+    }));
+
+    applyReaction(!reacted);
+    try {
+      await toggleCommentReaction(comment.id, user.uid, reaction);
+    } catch (error) {
+      console.error('Error reacting to comment:', error);
+      applyReaction(reacted);
+    }
+  };
+
+  const renderComment = (comment: Comment, thread: ThreadedComment) => {
+    const isAuthor = user?.uid === comment.userId;
+    const isEditing = editing?.id === comment.id;
+
+    return (
+      <div key={comment.id} className="flex gap-3">
+        <Avatar photoURL={comment.deleted ? null : comment.userPhotoURL} name={comment.userDisplayName} />
+        <div className="flex-1 min-w-0">
+          <div className="bg-gray-100 dark:bg-dark-300 rounded-lg p-3">
+            {comment.deleted ? (
+              <p className="text-gray-500 dark:text-gray-400 text-sm italic">Comment deleted</p>
+            ) : (
+              <>
+                <p className="text-gray-900 dark:text-white font-semibold text-sm">
+                  {comment.userDisplayName}
+                </p>
+                {isEditing ? (
+                  <div className="flex gap-2 mt-1">
+                    <input
+                      type="text"
+                      value={editing.content}
+                      onChange={(e) => setEditing({ id: comment.id, content: e.target.value })}
+                      onKeyPress={(e) => {
+                        if (e.key === 'Enter') {
+                          handleSaveEdit();
+                        }
+                      }}
+                      className="flex-1 bg-white dark:bg-dark-200 text-gray-900 dark:text-white rounded px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                    <button
+                      onClick={handleSaveEdit}
+                      disabled={!editing.content.trim()}
+                      className="text-xs text-primary-600 dark:text-primary-400 disabled:opacity-50"
+                    >
+                      Save
+                    </button>
+                    <button
+                      onClick={() => setEditing(null)}
+                      className="text-xs text-gray-500 dark:text-gray-400"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <p className="text-gray-700 dark:text-gray-300 text-sm break-words">
+                    {comment.content}
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 mt-1 text-xs text-gray-500 dark:text-gray-400">
+            <span>
+              {new Date(comment.createdAt).toLocaleDateString()}
+              {comment.editedAt && !comment.deleted && <span> · edited</span>}
+            </span>
+            {!comment.deleted && (
+              <>
+                {(Object.keys(COMMENT_REACTIONS) as CommentReaction[]).map(reaction => {
+                  const count = comment.reactions[reaction]?.length || 0;
+                  const reacted = !!user && (comment.reactions[reaction] || []).includes(user.uid);
+                  return (
+                    <button
+                      key={reaction}
+                      onClick={() => handleReaction(comment, reaction)}
+                      className={`flex items-center gap-1 rounded-full px-1.5 ${
+                        reacted ? 'bg-primary-100 dark:bg-primary-900' : count > 0 ? '' : 'opacity-50 hover:opacity-100'
+                      }`}
+                    >
+                      <span>{COMMENT_REACTIONS[reaction]}</span>
+                      {count > 0 && <span>{count}</span>}
+                    </button>
+                  );
+                })}
+                <button
+                  onClick={() => setReplyingTo(thread)}
+                  className="hover:text-primary-600 dark:hover:text-primary-400"
+                >
+                  Reply
+                </button>
+                {isAuthor && !isEditing && (
+                  <>
+                    <button
+                      onClick={() => setEditing({ id: comment.id, content: comment.content })}
+                      className="hover:text-primary-600 dark:hover:text-primary-400"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(comment)}
+                      className="hover:text-red-500"
+                    >
+                      Delete
+                    </button>
+                  </>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="mt-4 space-y-4">
+      {loading ? (
+        <p className="text-gray-500 dark:text-gray-400 text-sm">Loading comments...</p>
+      ) : loadError ? (
+        <p className="text-gray-500 dark:text-gray-400 text-sm">
+          Unable to load comments.{' '}
+          <button onClick={fetchComments} className="text-primary-600 dark:text-primary-400">
+            Try again
+          </button>
+        </p>
+      ) : threads.length === 0 ? (
+        <p className="text-gray-500 dark:text-gray-400 text-sm">No comments yet</p>
+      ) : (
+        threads.map(thread => (
+          <div key={thread.id} className="space-y-3">
+            {renderComment(thread, thread)}
+            {thread.replies.length > 0 && (
+              <div className="ml-11 space-y-3">
+                {thread.replies.map(reply => renderComment(reply, thread))}
+              </div>
+            )}
+          </div>
+        ))
+      )}
+
+      {user && (
+        <div className="flex gap-3">
+          <Avatar
+            photoURL={userData?.photoURL || user.photoURL}
+            name={userData?.displayName || user.displayName || 'You'}
+          />
+          <div className="flex-1">
+            {replyingTo && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                Replying to {replyingTo.deleted ? 'a deleted comment' : replyingTo.userDisplayName}{' '}
+                <button onClick={() => setReplyingTo(null)} className="text-primary-600 dark:text-primary-400">
+                  Cancel
+                </button>
+              </p>
+            )}
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newComment}
+                onChange={(e) => setNewComment(e.target.value)}
+                onKeyPress={(e) => {
+                  if (e.key === 'Enter') {
+                    handleAddComment();
+                  }
+                }}
+                placeholder={replyingTo ? 'Write a reply...' : 'Add a comment...'}
+                className="flex-1 bg-gray-100 dark:bg-dark-300 text-gray-900 dark:text-white rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+              <button
+                onClick={handleAddComment}
+                disabled={!newComment.trim() || submitting}
+                className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Post
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CommentThread;
@@ -13,6 +13,15 @@ interface MusicPreferences {
       acousticness: number;
       tempo: number;
     };
+    dislikedAudioFeatures?: {
+      valence?: number;
+      energy?: number;
+      danceability?: number;
+      acousticness?: number;
+      tempo?: number;
+    };
+    likedWeight?: number;
+    dislikedWeight?: number;
     moodTags: string[];
   } | null;
   lastPreferencesUpdate: Date | null;
@@ -136,6 +145,24 @@ const MusicPreferencesDebug: React.FC = () => {
                     <div>Tempo: {Math.round(preferences.musicPreferences.audioFeatures.tempo || 0)} BPM</div>
                   </div>
                 </div>
+
+                {preferences.musicPreferences.dislikedAudioFeatures?.energy !== undefined && (
+                  <div>
+                    <strong>Passed Audio Features:</strong>
+                    <div className="ml-4 mt-1">
+                      <div>Valence (happiness): {(preferences.musicPreferences.dislikedAudioFeatures.valence || 0).toFixed(2)}</div>
+                      <div>Energy: {(preferences.musicPreferences.dislikedAudioFeatures.energy || 0).toFixed(2)}</div>
+                      <div>Danceability: {(preferences.musicPreferences.dislikedAudioFeatures.danceability || 0).toFixed(2)}</div>
+                      <div>Acousticness: {(preferences.musicPreferences.dislikedAudioFeatures.acousticness || 0).toFixed(2)}</div>
+                      <div>Tempo: {Math.round(preferences.musicPreferences.dislikedAudioFeatures.tempo || 0)} BPM</div>
+                    </div>
+                  </div>
+                )}
+
+                <div>
+                  <strong>History Weight:</strong>{' '}
+                  {(preferences.musicPreferences.likedWeight || 0).toFixed(1)} liked / {(preferences.musicPreferences.dislikedWeight || 0).toFixed(1)} passed
+                </div>
               </div>
             )}
           </div>
@@ -144,7 +171,7 @@ const MusicPreferencesDebug: React.FC = () => {
         <div className="text-xs text-gray-600 dark:text-gray-400">
            This component helps test music preference updates. Check the browser console for detailed logs.
           <br />
-           To test: Like some posts in Discover, then click "Update Preferences"
+           To test: Like and pass on some posts in Discover, then click "Update Preferences"
         </div>
       </div>
     </div>
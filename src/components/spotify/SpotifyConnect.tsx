@@ -1,7 +1,7 @@
 // spotify account connection interface
-import React from 'react';
+import React, { useState } from 'react';
 import { FaSpotify } from 'react-icons/fa';
-import { connectToSpotify } from '@/services/spotify';
+import { connectToSpotify, disconnectSpotify } from '@/services/spotify';
 import { useAuth } from '@/hooks/useAuth';
 
 interface SpotifyConnectProps {
@@ -9,12 +9,33 @@ interface SpotifyConnectProps {
 }
 
 const SpotifyConnect: React.FC<SpotifyConnectProps> = ({ className = '' }) => {
-  const { userData } = useAuth();
+  const { userData, refreshUserData } = useAuth();
+  const [disconnecting, setDisconnecting] = useState(false);
+  const [manageAccessUrl, setManageAccessUrl] = useState<string | null>(null);
+  const [connecting, setConnecting] = useState(false);
+  const [connectFailed, setConnectFailed] = useState(false);
   
   const isConnected = userData?.spotifyConnected;
   
-  const handleConnect = () => {
-    connectToSpotify();
+  const handleConnect = async () => {
+    setConnecting(true);
+    setConnectFailed(false);
+    // on success the page navigates to spotify
+    if (!(await connectToSpotify())) {
+      setConnecting(false);
+      setConnectFailed(true);
+    }
+  };
+
+  const handleDisconnect = async () => {
+    setDisconnecting(true);
+    const url = await disconnectSpotify();
+    setDisconnecting(false);
+
+    if (url) {
+      setManageAccessUrl(url);
+      await refreshUserData();
+    }
   };
   
   return (
@@ -26,15 +47,34 @@ const SpotifyConnect: React.FC<SpotifyConnectProps> = ({ className = '' }) => {
             <p className="text-sm font-medium text-green-800 dark:text-green-300">Spotify Connected</p>
             <p className="text-xs text-green-600 dark:text-green-400">Your Spotify account is linked</p>
           </div>
+          <button
+            onClick={handleDisconnect}
+            disabled={disconnecting}
+            className="ml-auto text-xs font-medium text-green-700 dark:text-green-300 hover:underline disabled:opacity-50"
+          >
+            {disconnecting ? 'Disconnecting...' : 'Disconnect'}
+          </button>
         </div>
       ) : (
-        <button
-          onClick={handleConnect}
-          className="flex items-center justify-center w-full py-3 px-4 bg-[#1DB954] hover:bg-[#1ed760] text-white font-medium rounded-lg transition-colors"
-        >
-          <FaSpotify className="mr-2 text-lg" />
-          Connect to Spotify
-        </button>
+        <>
+          <button
+            onClick={handleConnect}
+            disabled={connecting}
+            className="flex items-center justify-center w-full py-3 px-4 bg-[#1DB954] hover:bg-[#1ed760] text-white font-medium rounded-lg transition-colors disabled:opacity-50"
+          >
+            <FaSpotify className="mr-2 text-lg" />
+            {connecting ? 'Connecting...' : 'Connect to Spotify'}
+          </button>
+          {connectFailed && (
+            <p className="mt-2 text-xs text-red-600 dark:text-red-400">Could not start connecting to Spotify. Please try again.</p>
+          )}
+          {manageAccessUrl && (
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              Disconnected. To also remove Resonate from your Spotify account, visit{' '}
+              <a href={manageAccessUrl} target="_blank" rel="noopener noreferrer" className="underline">your Spotify apps</a>.
+            </p>
+          )}
+        </>
       )}
     </div>
   );
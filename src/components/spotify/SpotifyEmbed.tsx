@@ -1,10 +1,12 @@
 // embedded spotify player widget
 import React, { useState } from 'react';
-import { FaSpotify, FaPlay, FaPause } from 'react-icons/fa';
+import { FaSpotify, FaPlay, FaPause, FaExternalLinkAlt } from 'react-icons/fa';
 import SpotifyPlayer from './SpotifyPlayer';
+import { TrackRef, getMusicProvider } from '@/services/musicProvider';
 
 interface SpotifyEmbedProps {
   spotifyId?: string;
+  track?: TrackRef; // takes precedence over spotifyId, for songs from any catalog
   previewUrl?: string | null;
   coverArtUrl: string;
   title: string;
@@ -14,6 +16,7 @@ interface SpotifyEmbedProps {
 
 const SpotifyEmbed: React.FC<SpotifyEmbedProps> = ({
   spotifyId,
+  track,
   previewUrl,
   coverArtUrl,
   title,
@@ -24,15 +27,18 @@ const SpotifyEmbed: React.FC<SpotifyEmbedProps> = ({
   const [audio, setAudio] = useState<HTMLAudioElement | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   
-  // generate Spotify embed URL
-  const spotifyEmbedUrl = spotifyId 
-    ? `https://open.spotify.com/embed/track/${spotifyId}` 
+  const trackRef: TrackRef | null = track || (spotifyId ? { provider: 'spotify', id: spotifyId } : null);
+  const provider = trackRef ? getMusicProvider(trackRef.provider) : null;
+
+  // generate the provider's embed URL
+  const spotifyEmbedUrl = trackRef && provider?.getEmbedUrl 
+    ? provider.getEmbedUrl(trackRef.id) 
     : null;
   
-  // handle opening in Spotify
+  // handle opening in the provider's app
   const openInSpotify = () => {
-    if (spotifyId) {
-      window.open(`https://open.spotify.com/track/${spotifyId}`, '_blank');
+    if (trackRef && provider) {
+      window.open(provider.getDeepLink(trackRef.id), '_blank');
     }
   };
 
@@ -164,16 +170,20 @@ const SpotifyEmbed: React.FC<SpotifyEmbedProps> = ({
               </p>
             )}
           </div>
-          {spotifyId && (
+          {trackRef && provider && (
             <button
               onClick={(e) => {
                 e.stopPropagation();
                 openInSpotify();
               }}
-              className="ml-2 p-2 text-[#1DB954] hover:text-[#1ed760] transition-colors"
-              title="Open in Spotify"
+              className={`ml-2 p-2 transition-colors ${
+                provider.id === 'spotify'
+                  ? 'text-[#1DB954] hover:text-[#1ed760]'
+                  : 'text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200'
+              }`}
+              title={`Open in ${provider.name}`}
             >
-              <FaSpotify size={20} />
+              {provider.id === 'spotify' ? <FaSpotify size={20} /> : <FaExternalLinkAlt size={16} />}
             </button>
           )}
         </div>
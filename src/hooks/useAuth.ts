@@ -13,6 +13,8 @@ import {
 } from '../services/auth';
 import { hasPostedToday as checkHasPostedToday } from '../services/timeUtils';
 import { migrateExistingMatches } from '../services/matches';
+import { ResetSchedule, resolveResetSchedule, scheduleForTimeZone } from '../services/resetSchedule';
+import { saveResetSchedule } from '../services/settings';
 import { getPacificTime } from '../services/timeUtils';
 
 export interface UserData {
@@ -47,6 +49,7 @@ export interface UserData {
     totalComments: number;
   };
   hasPostedToday: boolean;
+  resetSchedule?: ResetSchedule;
   spotifyConnected: boolean;
   appleConnected: boolean;
   settings?: {
@@ -74,6 +77,11 @@ interface AuthHook {
   updateUserProfile: (profileData: { displayName?: string | null; photoURL?: string | null }) => Promise<void>;
 }
 
+// the browser's own timezone, with the usual reset hour
+const getDeviceResetSchedule = (): ResetSchedule => {
+  return scheduleForTimeZone(Intl.DateTimeFormat().resolvedOptions().timeZone);
+};
+
 export const useAuth = (): AuthHook => {
   const [user, loading, error] = useAuthState(auth);
   const [userData, setUserData] = useState<UserData | null>(null);
@@ -86,9 +94,19 @@ export const useAuth = (): AuthHook => {
         
         if (userDoc.exists()) {
           const data = userDoc.data();
+
+          // users from before per-user schedules start on their device's timezone
+          if (!data.resetSchedule) {
+            data.resetSchedule = getDeviceResetSchedule();
+            try {
+              await saveResetSchedule(data.resetSchedule);
+            } catch (scheduleError) {
+              console.error('Could not save reset schedule, but continuing:', scheduleError);
+            }
+          }
           
-          // calculate hasPostedToday based on Pacific Time
-          const calculatedHasPostedToday = checkHasPostedToday(data.lastPostDate, data.lastPostDateManual);
+          // calculate hasPostedToday against the user's own reset time
+          const calculatedHasPostedToday = checkHasPostedToday(data.lastPostDate, data.lastPostDateManual, resolveResetSchedule(data));
           
           setUserData({ 
             uid: user.uid, 
@@ -144,6 +162,7 @@ export const useAuth = (): AuthHook => {
               totalComments: 0
             },
             hasPostedToday: false, // new user hasn't posted
+            resetSchedule: getDeviceResetSchedule(),
             spotifyConnected: false,
             appleConnected: false
           };
@@ -0,0 +1,31 @@
+// audio feature analysis of a track's preview clip
+import { NextApiRequest, NextApiResponse } from 'next';
+import { adminDb } from '@/services/firebaseAdmin';
+import { requireFirebaseUser } from '@/services/apiAuth';
+import { getOrAnalyzePreview } from '@/services/previewAnalysis';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!await requireFirebaseUser(req, res)) return;
+
+  // the clip is looked up from the track id; a preview url in the body is ignored
+  const { spotifyId } = req.body || {};
+
+  if (typeof spotifyId !== 'string' || !/^[A-Za-z0-9]+$/.test(spotifyId)) {
+    return res.status(400).json({ error: 'Missing or invalid spotifyId' });
+  }
+
+  try {
+    const analysis = await getOrAnalyzePreview(adminDb, spotifyId);
+    if (!analysis) {
+      return res.status(404).json({ error: 'No preview available for this track' });
+    }
+    return res.status(200).json({ features: analysis.features, cached: analysis.cached });
+  } catch (error) {
+    console.error('Error analyzing preview audio:', error);
+    return res.status(502).json({ error: 'Failed to analyze preview audio' });
+  }
+}
@@ -1,20 +1,11 @@
+// spotify oauth callback: checks the state, exchanges the code with pkce and stores the connection
 import { NextApiRequest, NextApiResponse } from 'next';
-import { getAuth } from 'firebase-admin/auth';
-import { getFirestore } from 'firebase-admin/firestore';
-import { initializeApp, getApps, cert } from 'firebase-admin/app';
-
-// initialize Firebase Admin 
-if (!getApps().length) {
-  initializeApp({
-    credential: cert({
-      projectId: process.env.FIREBASE_PROJECT_ID,
-      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
-      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
-    }),
-  });
-}
-
-const db = getFirestore();
+import { adminDb } from '@/services/firebaseAdmin';
+import { importListeningHistory } from '@/services/listeningHistoryImport';
+import { OAuthStateError } from '@/services/oauthState';
+import { OAUTH_STATE_COOKIE, completeSpotifyAuthorization, getSpotifyRedirectUri } from '@/services/spotifyAuth';
+import { getSpotifyClient } from '@/services/spotifyClient';
+import { saveUserSpotifyTokens } from '@/services/spotifyTokens';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
@@ -23,97 +14,86 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   const { code, error, state } = req.query;
 
-  // handle Spotify auth error
+  // the state cookie is single-use whatever happens next
+  res.setHeader('Set-Cookie', `${OAUTH_STATE_COOKIE}=; Path=/api/auth/callback; Max-Age=0; HttpOnly; SameSite=Lax`);
+
+  // handle Spotify auth error (e.g. the user pressed cancel)
   if (error) {
     console.error('Spotify auth error:', error);
-    return res.redirect(`/settings?error=${error}`);
+    return res.redirect(`/settings?error=${encodeURIComponent(String(error))}`);
   }
 
   // ensure auth code was provided
-  if (!code) {
-    return res.status(400).json({ error: 'Missing authorization code' });
+  if (!code || typeof code !== 'string') {
+    return res.redirect('/settings?error=missing_code');
   }
 
+  let uid: string;
+  let codeVerifier: string;
   try {
-    // exchange authorization code for access token
-    const tokenResponse = await fetch('https://accounts.spotify.com/api/token', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'Authorization': `Basic ${Buffer.from(
-          `${process.env.SPOTIFY_CLIENT_ID}:${process.env.SPOTIFY_CLIENT_SECRET}`
-        ).toString('base64')}`,
-      },
-      body: new URLSearchParams({
-        grant_type: 'authorization_code',
-        code: code as string,
-        redirect_uri: process.env.SPOTIFY_REDIRECT_URI || 'http://localhost:3000/api/auth/callback/spotify',
-      }),
-    });
-
-    if (!tokenResponse.ok) {
-      const errorData = await tokenResponse.json();
-      console.error('Error exchanging code for token:', errorData);
-      return res.redirect('/settings?error=token_exchange_failed');
-    }
-
-    const tokenData = await tokenResponse.json();
-
-    // get Spotify user profile to match with our user
-    const profileResponse = await fetch('https://api.spotify.com/v1/me', {
-      headers: {
-        'Authorization': `Bearer ${tokenData.access_token}`,
-      },
-    });
-
-    if (!profileResponse.ok) {
-      console.error('Error fetching Spotify profile');
-      return res.redirect('/settings?error=profile_fetch_failed');
+    // only the browser and user that started the flow can finish it, and only once
+    ({ uid, codeVerifier } = await completeSpotifyAuthorization(
+      adminDb,
+      typeof state === 'string' ? state : undefined,
+      req.cookies[OAUTH_STATE_COOKIE]
+    ));
+  } catch (stateError) {
+    if (stateError instanceof OAuthStateError) {
+      console.warn(`Rejected Spotify callback: ${stateError.message}`);
+      return res.redirect(`/settings?error=state_${stateError.reason}`);
     }
+    console.error('Error checking Spotify OAuth state:', stateError);
+    return res.redirect('/settings?error=server_error');
+  }
 
-    const profileData = await profileResponse.json();
+  try {
+    const spotify = getSpotifyClient();
 
-    // verify the Firebase ID token in cookie or session
-    const idToken = req.cookies.firebaseToken;
-    
-    if (!idToken) {
-      return res.redirect('/login?redirect=/settings&error=authentication_required');
+    // exchange authorization code for access token
+    let tokenData;
+    try {
+      tokenData = await spotify.exchangeAuthorizationCode(code, getSpotifyRedirectUri(), codeVerifier);
+    } catch (exchangeError) {
+      console.error('Error exchanging code for token:', exchangeError);
+      return res.redirect('/settings?error=token_exchange_failed');
     }
 
+    // get Spotify user profile to store with the connection
+    let profileData;
     try {
-      const decodedToken = await getAuth().verifyIdToken(idToken);
-      const uid = decodedToken.uid;
-
-      // calculate token expiration time
-      const expiresAt = Date.now() + tokenData.expires_in * 1000;
+      profileData = await spotify.get('/me', { accessToken: tokenData.access_token });
+    } catch (profileError) {
+      console.error('Error fetching Spotify profile:', profileError);
+      return res.redirect('/settings?error=profile_fetch_failed');
+    }
 
-      // store Spotify tokens and profile in user document
-      await db.collection('users').doc(uid).update({
-        spotify: {
-          tokens: {
-            ...tokenData,
-            expiresAt,
-          },
-          profile: {
-            id: profileData.id,
-            displayName: profileData.display_name,
-            email: profileData.email,
-            images: profileData.images,
-            country: profileData.country,
-            product: profileData.product,
-          },
+    // tokens go to the encrypted server-only store; the user document only gets the profile
+    await saveUserSpotifyTokens(adminDb, uid, tokenData);
+    await adminDb.collection('users').doc(uid).update({
+      spotify: {
+        profile: {
+          id: profileData.id,
+          displayName: profileData.display_name,
+          email: profileData.email,
+          images: profileData.images,
+          country: profileData.country,
+          product: profileData.product,
         },
-        spotifyConnected: true,
-      });
+      },
+      spotifyConnected: true,
+    });
 
-      // redirect to settings page 
-      return res.redirect('/settings?success=spotify_connected');
-    } catch (error) {
-      console.error('Error verifying Firebase token:', error);
-      return res.redirect('/login?redirect=/settings&error=authentication_required');
+    // seed preferences from their listening history; the connection stands even if this fails
+    try {
+      await importListeningHistory(adminDb, uid);
+    } catch (importError) {
+      console.error('Error importing Spotify listening history:', importError);
     }
+
+    // redirect to settings page 
+    return res.redirect('/settings?success=spotify_connected');
   } catch (error) {
     console.error('Error in Spotify callback:', error);
     return res.redirect('/settings?error=server_error');
   }
-} 
\ No newline at end of file
+}
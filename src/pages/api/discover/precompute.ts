@@ -0,0 +1,26 @@
+// daily discover pool precompute, triggered by a scheduler after each reset
+import { NextApiRequest, NextApiResponse } from 'next';
+import { adminDb } from '@/services/firebaseAdmin';
+import { requireCronSecret } from '@/services/apiAuth';
+import { precomputeDiscoverPools } from '@/services/discoverPrecompute';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!requireCronSecret(req, res, 'run discover precompute')) return;
+
+  // optional ?userId=a&userId=b (or a userIds array in a POST body) to rebuild specific users
+  const queryIds = req.query.userId;
+  const bodyIds = req.method === 'POST' ? req.body?.userIds : undefined;
+  const userIds: string[] | undefined = Array.isArray(bodyIds)
+    ? bodyIds
+    : queryIds
+      ? (Array.isArray(queryIds) ? queryIds : [queryIds])
+      : undefined;
+
+  try {
+    const summary = await precomputeDiscoverPools(adminDb, { userIds });
+    return res.status(200).json(summary);
+  } catch (error) {
+    console.error('Error precomputing discover pools:', error);
+    return res.status(500).json({ error: 'Failed to precompute discover pools' });
+  }
+}
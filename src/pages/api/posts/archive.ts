@@ -0,0 +1,17 @@
+// archives posts whose daily window has ended, triggered by a scheduler
+import { NextApiRequest, NextApiResponse } from 'next';
+import { adminDb } from '@/services/firebaseAdmin';
+import { requireCronSecret } from '@/services/apiAuth';
+import { archiveExpiredPosts } from '@/services/postRetention';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!requireCronSecret(req, res, 'archive posts')) return;
+
+  try {
+    const archived = await archiveExpiredPosts(adminDb);
+    return res.status(200).json({ archived });
+  } catch (error) {
+    console.error('Error archiving expired posts:', error);
+    return res.status(500).json({ error: 'Failed to archive expired posts' });
+  }
+}
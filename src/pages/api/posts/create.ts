@@ -0,0 +1,44 @@
+// creates the signed-in user's post for the current daily window
+import { NextApiRequest, NextApiResponse } from 'next';
+import { adminDb } from '@/services/firebaseAdmin';
+import { requireFirebaseUser } from '@/services/apiAuth';
+import { ALREADY_POSTED_ERROR, AlreadyPostedError } from '@/services/postLimits';
+import { CreatePostInput, createPostForUser } from '@/services/postsAdmin';
+
+const isNonEmptyString = (value: any): value is string => typeof value === 'string' && value.trim().length > 0;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const uid = await requireFirebaseUser(req, res);
+  if (!uid) return;
+
+  const input = req.body as CreatePostInput;
+  if (!input || !isNonEmptyString(input.songTitle) || !isNonEmptyString(input.songArtist) || !isNonEmptyString(input.mood)) {
+    return res.status(400).json({ error: 'A song title, artist and mood are required' });
+  }
+  if (input.mediaUrls !== undefined && (!Array.isArray(input.mediaUrls) || !input.mediaUrls.every(isNonEmptyString))) {
+    return res.status(400).json({ error: 'Invalid media urls' });
+  }
+
+  try {
+    const postId = await createPostForUser(adminDb, uid, {
+      ...input,
+      songAlbumArt: input.songAlbumArt || '',
+      caption: input.caption || ''
+    });
+    return res.status(201).json({ postId });
+  } catch (error) {
+    if (error instanceof AlreadyPostedError) {
+      return res.status(409).json({
+        error: ALREADY_POSTED_ERROR,
+        message: error.message,
+        nextResetAt: error.nextResetAt.toISOString()
+      });
+    }
+    console.error('Error creating post:', error);
+    return res.status(500).json({ error: 'Failed to create post' });
+  }
+}
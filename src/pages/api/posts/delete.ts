@@ -0,0 +1,30 @@
+// deletes the signed-in user's own post along with its swipes, comments, revisions and media
+import { NextApiRequest, NextApiResponse } from 'next';
+import { adminDb, adminStorage } from '@/services/firebaseAdmin';
+import { requireFirebaseUser } from '@/services/apiAuth';
+import { PostAccessError, deletePostForUser } from '@/services/postsAdmin';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const uid = await requireFirebaseUser(req, res);
+  if (!uid) return;
+
+  const postId = req.body?.postId;
+  if (typeof postId !== 'string' || !postId.trim()) {
+    return res.status(400).json({ error: 'postId is required' });
+  }
+
+  try {
+    const deleted = await deletePostForUser(adminDb, adminStorage, uid, postId);
+    return res.status(200).json({ postId, deleted });
+  } catch (error) {
+    if (error instanceof PostAccessError) {
+      return res.status(error.reason === 'not_found' ? 404 : 403).json({ error: error.reason });
+    }
+    console.error('Error deleting post:', error);
+    return res.status(500).json({ error: 'Failed to delete post' });
+  }
+}
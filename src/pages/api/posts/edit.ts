@@ -0,0 +1,46 @@
+// lets the signed-in user change the caption, mood or media of their own post
+import { NextApiRequest, NextApiResponse } from 'next';
+import { adminDb } from '@/services/firebaseAdmin';
+import { requireFirebaseUser } from '@/services/apiAuth';
+import { EditPostInput, PostAccessError, editPostForUser } from '@/services/postsAdmin';
+
+const isNonEmptyString = (value: any): value is string => typeof value === 'string' && value.trim().length > 0;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const uid = await requireFirebaseUser(req, res);
+  if (!uid) return;
+
+  const { postId, caption, mood, mediaUrls } = req.body || {};
+  if (!isNonEmptyString(postId)) {
+    return res.status(400).json({ error: 'postId is required' });
+  }
+  if (caption === undefined && mood === undefined && mediaUrls === undefined) {
+    return res.status(400).json({ error: 'Nothing to change' });
+  }
+  if (caption !== undefined && typeof caption !== 'string') {
+    return res.status(400).json({ error: 'Invalid caption' });
+  }
+  if (mood !== undefined && !isNonEmptyString(mood)) {
+    return res.status(400).json({ error: 'Invalid mood' });
+  }
+  if (mediaUrls !== undefined && (!Array.isArray(mediaUrls) || !mediaUrls.every(isNonEmptyString))) {
+    return res.status(400).json({ error: 'Invalid media urls' });
+  }
+
+  const changes: EditPostInput = { caption, mood, mediaUrls };
+
+  try {
+    const revision = await editPostForUser(adminDb, uid, postId, changes);
+    return res.status(200).json({ postId, revision });
+  } catch (error) {
+    if (error instanceof PostAccessError) {
+      return res.status(error.reason === 'not_found' ? 404 : 403).json({ error: error.reason });
+    }
+    console.error('Error editing post:', error);
+    return res.status(500).json({ error: 'Failed to edit post' });
+  }
+}
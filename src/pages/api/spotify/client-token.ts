@@ -1,5 +1,6 @@
 // spotify client credentials management
 import { NextApiRequest, NextApiResponse } from 'next';
+import { getSpotifyClient } from '@/services/spotifyClient';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
 
@@ -9,46 +10,16 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   try {
     console.log(' CLIENT-TOKEN: Starting client credentials flow');
-    
-    // get client credentials from environment variables
-    const clientId = process.env.SPOTIFY_CLIENT_ID;
-    const clientSecret = process.env.SPOTIFY_CLIENT_SECRET;
 
-    console.log('CLIENT-TOKEN: Environment check:', { 
-      hasClientId: !!clientId, 
-      hasClientSecret: !!clientSecret,
-      clientIdLength: clientId?.length || 0,
-      clientSecretLength: clientSecret?.length || 0
-    });
+    const spotify = getSpotifyClient();
 
-    if (!clientId || !clientSecret) {
+    if (!spotify.isConfigured()) {
       console.error('🎵 CLIENT-TOKEN: Missing Spotify credentials');
       return res.status(500).json({ error: 'Spotify credentials not configured' });
     }
 
-    console.log('CLIENT-TOKEN: Making token request to Spotify...');
-
-    // exchange client credentials for access token
-    const tokenResponse = await fetch('https://accounts.spotify.com/api/token', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'Authorization': `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`,
-      },
-      body: new URLSearchParams({
-        grant_type: 'client_credentials',
-      }),
-    });
-
-    console.log(' CLIENT-TOKEN: Token response status:', tokenResponse.status);
-
-    if (!tokenResponse.ok) {
-      const errorData = await tokenResponse.json();
-      console.error('CLIENT-TOKEN: Error getting Spotify client token:', errorData);
-      return res.status(500).json({ error: 'Failed to get Spotify token' });
-    }
-
-    const tokenData = await tokenResponse.json();
+    // cached server-side until shortly before it expires, so this rarely hits spotify
+    const tokenData = await spotify.getClientToken();
     console.log('CLIENT-TOKEN: Token obtained successfully');
     
     // return token to client (the token doesn't allow access to user data)
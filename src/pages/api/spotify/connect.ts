@@ -0,0 +1,31 @@
+// starts connecting the signed-in user's spotify account
+import { NextApiRequest, NextApiResponse } from 'next';
+import { adminDb } from '@/services/firebaseAdmin';
+import { requireFirebaseUser } from '@/services/apiAuth';
+import { OAUTH_STATE_COOKIE, beginSpotifyAuthorization } from '@/services/spotifyAuth';
+import { OAUTH_STATE_TTL_MS } from '@/services/oauthState';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const uid = await requireFirebaseUser(req, res);
+  if (!uid) return;
+
+  try {
+    const { authorizeUrl, nonce } = await beginSpotifyAuthorization(adminDb, uid);
+
+    // only the callback needs it; lax so it survives the redirect back from spotify
+    const secure = process.env.NODE_ENV === 'production' ? '; Secure' : '';
+    res.setHeader(
+      'Set-Cookie',
+      `${OAUTH_STATE_COOKIE}=${nonce}; Path=/api/auth/callback; Max-Age=${OAUTH_STATE_TTL_MS / 1000}; HttpOnly; SameSite=Lax${secure}`
+    );
+
+    return res.status(200).json({ url: authorizeUrl });
+  } catch (error) {
+    console.error('Error starting Spotify authorization:', error);
+    return res.status(500).json({ error: 'Failed to start Spotify connection' });
+  }
+}
@@ -0,0 +1,26 @@
+// disconnects the signed-in user's spotify account and deletes their stored tokens
+import { NextApiRequest, NextApiResponse } from 'next';
+import { adminDb } from '@/services/firebaseAdmin';
+import { requireFirebaseUser } from '@/services/apiAuth';
+import { deleteUserSpotifyTokens } from '@/services/spotifyTokens';
+
+// spotify can't revoke a grant through its api; users remove the app here
+const SPOTIFY_APPS_URL = 'https://www.spotify.com/account/apps/';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const uid = await requireFirebaseUser(req, res);
+  if (!uid) return;
+
+  try {
+    await deleteUserSpotifyTokens(adminDb, uid);
+    console.log(` Disconnected Spotify for ${uid}`);
+    return res.status(200).json({ disconnected: true, manageAccessUrl: SPOTIFY_APPS_URL });
+  } catch (error) {
+    console.error('Error disconnecting Spotify:', error);
+    return res.status(500).json({ error: 'Failed to disconnect Spotify' });
+  }
+}
@@ -0,0 +1,30 @@
+// imports the signed-in user's spotify listening history into their music preferences
+import { NextApiRequest, NextApiResponse } from 'next';
+import { adminDb } from '@/services/firebaseAdmin';
+import { requireFirebaseUser } from '@/services/apiAuth';
+import { importListeningHistory } from '@/services/listeningHistoryImport';
+import { SpotifyApiError } from '@/services/spotifyClient';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const uid = await requireFirebaseUser(req, res);
+  if (!uid) return;
+
+  try {
+    const summary = await importListeningHistory(adminDb, uid);
+    if (!summary) {
+      return res.status(400).json({ error: 'Spotify is not connected' });
+    }
+    return res.status(200).json(summary);
+  } catch (error) {
+    if (error instanceof SpotifyApiError && (error.status === 401 || error.status === 403)) {
+      // revoked access or a grant from before the history scopes were requested
+      return res.status(403).json({ error: 'Reconnect Spotify to import listening history' });
+    }
+    console.error('Error importing Spotify listening history:', error);
+    return res.status(500).json({ error: 'Failed to import listening history' });
+  }
+}
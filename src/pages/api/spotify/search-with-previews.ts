@@ -1,5 +1,6 @@
 // enhanced search with audio previews
 import { NextApiRequest, NextApiResponse } from 'next';
+import { getSpotifyClient } from '@/services/spotifyClient';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
 
@@ -16,11 +17,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   try {
     console.log(' ENHANCED-API: Starting enhanced search for:', query);
     
-    // get client credentials from environment variables
-    const clientId = process.env.SPOTIFY_CLIENT_ID;
-    const clientSecret = process.env.SPOTIFY_CLIENT_SECRET;
+    const spotify = getSpotifyClient();
 
-    if (!clientId || !clientSecret) {
+    if (!spotify.isConfigured()) {
       console.log(' ENHANCED-API: Missing Spotify credentials, cannot use preview finder');
       return res.status(200).json({ tracks: { items: [] } });
     }
@@ -29,83 +28,54 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     try {
       console.log(' ENHANCED-API: Trying standard Spotify API first...');
       
-      // get client credentials token directly
-      const tokenResponse = await fetch('https://accounts.spotify.com/api/token', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-          'Authorization': `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`,
-        },
-        body: new URLSearchParams({
-          grant_type: 'client_credentials',
-        }),
-      });
-
-      if (tokenResponse.ok) {
-        const tokenData = await tokenResponse.json();
-        
-        const searchResponse = await fetch(
-          `https://api.spotify.com/v1/search?q=${encodeURIComponent(query)}&type=track&limit=${limit}`,
-          {
-            headers: {
-              'Authorization': `Bearer ${tokenData.access_token}`,
-            },
-          }
-        );
+      const standardData = await spotify.get(
+        `/search?q=${encodeURIComponent(query)}&type=track&limit=${limit}`
+      );
+      const standardTracks = standardData.tracks?.items || [];
+      console.log(' ENHANCED-API: Standard Spotify API returned:', standardTracks.length, 'tracks');
+      
+      if (standardTracks.length > 0) {
+        // enhance existing tracks with preview finder 
+        console.log(' ENHANCED-API: Enhancing tracks with preview finder...');
         
-        if (searchResponse.ok) {
-          const standardData = await searchResponse.json();
-          const standardTracks = standardData.tracks?.items || [];
-          console.log(' ENHANCED-API: Standard Spotify API returned:', standardTracks.length, 'tracks');
-          
-          if (standardTracks.length > 0) {
-            // enhance existing tracks with preview finder 
-            console.log(' ENHANCED-API: Enhancing tracks with preview finder...');
+        const enhancedTracks = await Promise.all(
+          standardTracks.map(async (track: any) => {
+
+            if (track.preview_url) {
+              console.log(` ENHANCED-API: Track "${track.name}" already has preview URL`);
+              return track;
+            }
             
-            const enhancedTracks = await Promise.all(
-              standardTracks.map(async (track: any) => {
+            try {
 
-                if (track.preview_url) {
-                  console.log(` ENHANCED-API: Track "${track.name}" already has preview URL`);
-                  return track;
-                }
+              const spotifyPreviewFinder = require('spotify-preview-finder');
+              const searchQuery = `${track.name} ${track.artists[0]?.name || ''}`.trim();
+              const previewResult = await spotifyPreviewFinder(searchQuery, 1);
+              
+              if (previewResult.success && previewResult.results.length > 0) {
+                const previewUrl = previewResult.results[0].previewUrls[0];
+                console.log(` ENHANCED-API: Found preview URL for "${track.name}"`);
                 
-                try {
-
-                  const spotifyPreviewFinder = require('spotify-preview-finder');
-                  const searchQuery = `${track.name} ${track.artists[0]?.name || ''}`.trim();
-                  const previewResult = await spotifyPreviewFinder(searchQuery, 1);
-                  
-                  if (previewResult.success && previewResult.results.length > 0) {
-                    const previewUrl = previewResult.results[0].previewUrls[0];
-                    console.log(` ENHANCED-API: Found preview URL for "${track.name}"`);
-                    
-                    return {
-                      ...track,
-                      preview_url: previewUrl
-                    };
-                  } else {
-                    console.log(` ENHANCED-API: No preview found for "${track.name}"`);
-                    return track;
-                  }
-                } catch (error) {
-                  console.log(` ENHANCED-API: Error finding preview for "${track.name}":`, error);
-                  return track;
-                }
-              })
-            );
-            
-            const tracksWithPreviews = enhancedTracks.filter((t: any) => t.preview_url).length;
-            console.log(' ENHANCED-API: Enhanced search complete. Tracks with previews:', 
-              tracksWithPreviews, 'out of', enhancedTracks.length);
-            
-            return res.status(200).json({ tracks: { items: enhancedTracks } });
-          }
-        } else {
-          console.log(' ENHANCED-API: Standard Spotify API failed:', searchResponse.status);
-        }
-      } else {
-        console.log(' ENHANCED-API: Token request failed:', tokenResponse.status);
+                return {
+                  ...track,
+                  preview_url: previewUrl
+                };
+              } else {
+                console.log(` ENHANCED-API: No preview found for "${track.name}"`);
+                return track;
+              }
+            } catch (error) {
+              console.log(` ENHANCED-API: Error finding preview for "${track.name}":`, error);
+              return track;
+            }
+          })
+        );
+        
+        const tracksWithPreviews = enhancedTracks.filter((t: any) => t.preview_url).length;
+        console.log(' ENHANCED-API: Enhanced search complete. Tracks with previews:', 
+          tracksWithPreviews, 'out of', enhancedTracks.length);
+        
+        return res.status(200).json({ tracks: { items: enhancedTracks } });
       }
     } catch (standardError) {
       console.log(' ENHANCED-API: Standard Spotify API error:', standardError);
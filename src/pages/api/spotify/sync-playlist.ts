@@ -0,0 +1,50 @@
+// syncs the signed-in user's "Resonate Discoveries" playlist, or a match's shared playlist
+import { NextApiRequest, NextApiResponse } from 'next';
+import { adminDb } from '@/services/firebaseAdmin';
+import { requireFirebaseUser } from '@/services/apiAuth';
+import { MatchForPlaylist, PlaylistSyncInProgressError, syncDiscoveriesPlaylist, syncMatchPlaylist } from '@/services/playlistSync';
+import { SpotifyApiError } from '@/services/spotifyClient';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const uid = await requireFirebaseUser(req, res);
+  if (!uid) return;
+
+  // optional { matchId } syncs that match's shared playlist instead
+  const matchId = req.body?.matchId;
+  if (matchId !== undefined && (typeof matchId !== 'string' || !matchId)) {
+    return res.status(400).json({ error: 'Invalid match id' });
+  }
+
+  try {
+    let result;
+    if (matchId) {
+      const matchDoc = await adminDb.collection('matches').doc(matchId).get();
+      const matchData = matchDoc.data();
+      if (!matchDoc.exists || !matchData?.userIds?.includes(uid)) {
+        return res.status(404).json({ error: 'Match not found' });
+      }
+      result = await syncMatchPlaylist(adminDb, uid, { id: matchDoc.id, ...matchData } as MatchForPlaylist);
+    } else {
+      result = await syncDiscoveriesPlaylist(adminDb, uid);
+    }
+
+    if (!result) {
+      return res.status(400).json({ error: 'Spotify is not connected' });
+    }
+    return res.status(200).json(result);
+  } catch (error) {
+    if (error instanceof PlaylistSyncInProgressError) {
+      return res.status(409).json({ error: 'A sync of this playlist is already running' });
+    }
+    if (error instanceof SpotifyApiError && (error.status === 401 || error.status === 403)) {
+      // revoked access or a grant from before playlist scopes were requested
+      return res.status(403).json({ error: 'Reconnect Spotify to sync playlists' });
+    }
+    console.error('Error syncing Spotify playlist:', error);
+    return res.status(500).json({ error: 'Failed to sync playlist' });
+  }
+}
@@ -0,0 +1,33 @@
+// spotify track lookup by id
+import { NextApiRequest, NextApiResponse } from 'next';
+import { SpotifyApiError, getSpotifyClient } from '@/services/spotifyClient';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { id } = req.query;
+
+  if (typeof id !== 'string' || !/^[A-Za-z0-9]+$/.test(id)) {
+    return res.status(400).json({ error: 'Missing or invalid track id' });
+  }
+
+  try {
+    const spotify = getSpotifyClient();
+
+    if (!spotify.isConfigured()) {
+      console.error(' TRACK: Missing Spotify credentials');
+      return res.status(500).json({ error: 'Spotify credentials not configured' });
+    }
+
+    const track = await spotify.get(`/tracks/${id}`);
+    return res.status(200).json(track);
+  } catch (error) {
+    if (error instanceof SpotifyApiError && (error.status === 404 || error.status === 400)) {
+      return res.status(404).json({ error: 'Track not found' });
+    }
+    console.error(' TRACK: Error looking up Spotify track:', error);
+    return res.status(500).json({ error: 'Failed to look up track' });
+  }
+}
@@ -0,0 +1,17 @@
+// prunes swipes past their retention period, triggered by a scheduler
+import { NextApiRequest, NextApiResponse } from 'next';
+import { adminDb } from '@/services/firebaseAdmin';
+import { requireCronSecret } from '@/services/apiAuth';
+import { applySwipeRetention } from '@/services/postRetention';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!requireCronSecret(req, res, 'prune swipes')) return;
+
+  try {
+    const deleted = await applySwipeRetention(adminDb);
+    return res.status(200).json({ deleted });
+  } catch (error) {
+    console.error('Error applying swipe retention:', error);
+    return res.status(500).json({ error: 'Failed to apply swipe retention' });
+  }
+}
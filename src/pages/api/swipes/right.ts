@@ -0,0 +1,30 @@
+// counts the signed-in user's right swipe on its post and creates the match if the like is mutual
+import { NextApiRequest, NextApiResponse } from 'next';
+import { adminDb } from '@/services/firebaseAdmin';
+import { requireFirebaseUser } from '@/services/apiAuth';
+import { SwipeAccessError, completeRightSwipe } from '@/services/swipesAdmin';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const uid = await requireFirebaseUser(req, res);
+  if (!uid) return;
+
+  const swipeId = req.body?.swipeId;
+  if (typeof swipeId !== 'string' || !swipeId.trim()) {
+    return res.status(400).json({ error: 'swipeId is required' });
+  }
+
+  try {
+    const matchId = await completeRightSwipe(adminDb, uid, swipeId);
+    return res.status(200).json({ matchId });
+  } catch (error) {
+    if (error instanceof SwipeAccessError) {
+      return res.status(error.reason === 'not_found' ? 404 : 403).json({ error: error.reason });
+    }
+    console.error('Error completing right swipe:', error);
+    return res.status(500).json({ error: 'Failed to record like' });
+  }
+}
@@ -0,0 +1,35 @@
+// sets when the signed-in user's daily window resets
+import { NextApiRequest, NextApiResponse } from 'next';
+import { adminDb } from '@/services/firebaseAdmin';
+import { requireFirebaseUser } from '@/services/apiAuth';
+import { RESET_SCHEDULE_COOLDOWN_ERROR, ResetScheduleCooldownError, isValidResetHour, isValidTimeZone } from '@/services/resetSchedule';
+import { updateResetSchedule } from '@/services/resetScheduleAdmin';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const uid = await requireFirebaseUser(req, res);
+  if (!uid) return;
+
+  const { timeZone, resetHour } = req.body || {};
+  if (!isValidTimeZone(timeZone) || !isValidResetHour(resetHour)) {
+    return res.status(400).json({ error: 'A valid IANA timezone and a reset hour from 0 to 23 are required' });
+  }
+
+  try {
+    const resetSchedule = await updateResetSchedule(adminDb, uid, { timeZone, resetHour });
+    return res.status(200).json({ resetSchedule });
+  } catch (error) {
+    if (error instanceof ResetScheduleCooldownError) {
+      return res.status(429).json({
+        error: RESET_SCHEDULE_COOLDOWN_ERROR,
+        message: error.message,
+        nextChangeAt: error.nextChangeAt.toISOString()
+      });
+    }
+    console.error('Error updating reset schedule:', error);
+    return res.status(500).json({ error: 'Failed to update reset schedule' });
+  }
+}
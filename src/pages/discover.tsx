@@ -1,12 +1,14 @@
 // swipe-based user discovery feed
 import React, { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/router';
-import { doc, getDoc } from 'firebase/firestore';
-import { db } from '@/services/firebase';
 import { useAuth } from '@/hooks/useAuth';
-import { FaHeart, FaTimes, FaPlay, FaPause, FaUser } from 'react-icons/fa';
+import { FaHeart, FaTimes, FaPlay, FaPause, FaUser, FaInfoCircle } from 'react-icons/fa';
 import { getUnswiped, recordSwipe } from '@/services/swipes';
 import { getIntelligentMatches } from '@/services/matchingAlgorithm';
+import { recordPostImpression } from '@/services/posts';
+import { MatchBreakdown } from '@/services/matchScoring';
+import { ExperimentAssignment } from '@/services/experiments';
+import { createDocumentLoader, createUserProfileLoader } from '@/services/documentLoader';
 import ClickableAlbumCover from '@/components/spotify/ClickableAlbumCover';
 import PhotoCarousel from '@/components/PhotoCarousel';
 
@@ -33,6 +35,10 @@ interface Post {
     danceability: number;
   };
   moodTags?: string[];
+  matchScore?: number;
+  matchBreakdown?: MatchBreakdown;
+  experiment?: ExperimentAssignment;
+  explored?: boolean;
 }
 
 const Discover: React.FC = () => {
@@ -44,8 +50,10 @@ const Discover: React.FC = () => {
   const [startX, setStartX] = useState(0);
   const [offsetX, setOffsetX] = useState(0);
   const [matchFound, setMatchFound] = useState<string | null>(null);
+  const [showMatchReasons, setShowMatchReasons] = useState(false);
   const cardRef = useRef<HTMLDivElement>(null);
   const audioRef = useRef<HTMLAudioElement>(null);
+  const seenPostIds = useRef<Set<string>>(new Set());
   const router = useRouter();
   const { user, userData, refreshUserData } = useAuth();
 
@@ -77,7 +85,9 @@ const Discover: React.FC = () => {
       try {
         console.log('Starting intelligent matching for user:', user.uid);
         
-        const intelligentMatches = await getIntelligentMatches(user.uid);
+        // one loader for the whole page load, so authors fetched for ranking are reused below
+        const userLoader = createUserProfileLoader();
+        const intelligentMatches = await getIntelligentMatches(user.uid, { userLoader });
         
         console.log(` Intelligent matching returned ${intelligentMatches.length} matches`);
         
@@ -87,8 +97,7 @@ const Discover: React.FC = () => {
           
           for (const match of intelligentMatches) {
             try {
-              const userDoc = await getDoc(doc(db, 'users', match.userId));
-              const userData = userDoc.exists() ? userDoc.data() : null;
+              const userData = await userLoader.load(match.userId);
               
               fetchedPosts.push({
                 id: match.id,
@@ -107,7 +116,11 @@ const Discover: React.FC = () => {
                 mediaUrl: match.mediaUrl,
                 mediaUrls: match.mediaUrls,
                 audioFeatures: match.song.audioFeatures,
-                moodTags: match.moodTags || [match.mood]
+                moodTags: match.moodTags || [match.mood],
+                matchScore: match.matchScore,
+                matchBreakdown: match.matchBreakdown,
+                experiment: match.experiment,
+                explored: match.explored
               });
             } catch (err: any) {
               // handle individual post processing errors gracefully
@@ -141,19 +154,22 @@ const Discover: React.FC = () => {
         
         // fetch full post data for each unswiped post
         const fetchedPosts: Post[] = [];
+        const postLoader = createDocumentLoader('posts');
+        const loadedPosts = await postLoader.loadMany(limitedPostIds);
+        await userLoader.loadMany(
+          loadedPosts.filter(postData => postData).map(postData => postData!.userId)
+        );
         
-        for (const postId of limitedPostIds) {
+        for (let index = 0; index < limitedPostIds.length; index++) {
+          const postId = limitedPostIds[index];
           try {
-            const postDoc = await getDoc(doc(db, 'posts', postId));
+            const postData = loadedPosts[index];
             
-            if (postDoc.exists()) {
-              const postData = postDoc.data();
-              
-              const userDoc = await getDoc(doc(db, 'users', postData.userId));
-              const userData = userDoc.exists() ? userDoc.data() : null;
+            if (postData) {
+              const userData = await userLoader.load(postData.userId);
               
               fetchedPosts.push({
-                id: postDoc.id,
+                id: postId,
                 userId: postData.userId,
                 userName: userData?.displayName || 'User',
                 userPhotoURL: userData?.photoURL || undefined,
@@ -210,8 +226,18 @@ const Discover: React.FC = () => {
       audioRef.current.pause();
       setIsPlaying(false);
     }
+    setShowMatchReasons(false);
   }, [currentIndex]);
 
+  // count each card once per visit so exploration can tell which posts are under-exposed
+  useEffect(() => {
+    const post = posts[currentIndex];
+    if (!post || seenPostIds.current.has(post.id)) return;
+
+    seenPostIds.current.add(post.id);
+    recordPostImpression(post.id);
+  }, [currentIndex, posts]);
+
   const handlePlayPause = () => {
     if (audioRef.current) {
       if (isPlaying) {
@@ -269,7 +295,8 @@ const Discover: React.FC = () => {
         user.uid,
         post.id,
         post.userId,
-        'right'
+        'right',
+        post.experiment
       );
       
       if (matchId) {
@@ -308,7 +335,8 @@ const Discover: React.FC = () => {
         user.uid,
         post.id,
         post.userId,
-        'left'
+        'left',
+        post.experiment
       );
       
       // move to next post
@@ -500,6 +528,71 @@ const Discover: React.FC = () => {
               </div>
             )}
             
+            {/* Why you're seeing this */}
+            {currentPost.matchBreakdown && (
+              <div className="mb-3">
+                <button
+                  className="flex items-center text-xs text-primary-600 hover:text-primary-500 dark:text-primary-400"
+                  onMouseDown={(e) => e.stopPropagation()}
+                  onTouchStart={(e) => e.stopPropagation()}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setShowMatchReasons(!showMatchReasons);
+                  }}
+                >
+                  <FaInfoCircle className="h-3 w-3 mr-1" />
+                  Why you're seeing this
+                </button>
+
+                {showMatchReasons && (
+                  <div className="mt-2 p-3 bg-light-200 dark:bg-dark-300 rounded-lg text-xs">
+                    {currentPost.explored && (
+                      <p className="mb-2 text-gray-600 dark:text-gray-400">
+                        This post hasn't been heard much yet, so we're giving it a spot in your deck.
+                      </p>
+                    )}
+
+                    {currentPost.matchBreakdown.signals.length > 0 ? (
+                      <ul className="mb-3 space-y-1">
+                        {currentPost.matchBreakdown.signals.map((signal) => (
+                          <li key={signal.label} className="text-gray-700 dark:text-gray-300">
+                            • {signal.label}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="mb-3 text-gray-600 dark:text-gray-400">
+                        Picked to help you explore something new.
+                      </p>
+                    )}
+
+                    <div className="space-y-2">
+                      {currentPost.matchBreakdown.components.map((component) => (
+                        <div key={component.key}>
+                          <div className="flex justify-between text-gray-600 dark:text-gray-400">
+                            <span>{component.label}</span>
+                            <span>{Math.round(component.score * 100)}% × {Math.round(component.weight * 100)}%</span>
+                          </div>
+                          <div className="h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                            <div
+                              className="h-full bg-primary-500"
+                              style={{ width: `${Math.round(component.score * 100)}%` }}
+                            />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+
+                    {currentPost.matchScore !== undefined && (
+                      <p className="mt-2 text-right font-medium text-gray-700 dark:text-gray-300">
+                        Match {Math.round(currentPost.matchScore * 100)}%
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+            
             {/* Photo carousel or single photo */}
             {(currentPost.mediaUrls && currentPost.mediaUrls.length > 0) ? (
               <div className="mt-3 rounded-lg overflow-hidden h-48">
@@ -22,8 +22,9 @@ import {
 } from 'firebase/firestore';
 import { db } from '@/services/firebase';
 import { useAuth } from '@/hooks/useAuth';
+import CommentThread from '@/components/comments/CommentThread';
 import { FaUser, FaSearch, FaUserFriends, FaUserPlus, FaUserMinus, FaCheck, FaTimes, FaHeart, FaRegHeart, FaComment } from 'react-icons/fa';
-import { getFeedPosts, likePost, addComment, getPostComments } from '@/services/posts';
+import { getFeedPosts, likePost } from '@/services/posts';
 import { 
   sendFriendRequest as sendFriendRequestService, 
   getUserFriends as getUserFriendsService, 
@@ -71,6 +72,7 @@ interface Post {
   likes: number;
   comments: number;
   createdAt: Date;
+  editedAt?: Date;
   likedBy?: string[];
   mediaUrl?: string; 
   mediaUrls?: string[]; 
@@ -87,8 +89,6 @@ const Friends: React.FC = () => {
   const [posts, setPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedPost, setSelectedPost] = useState<string | null>(null);
-  const [comments, setComments] = useState<{[key: string]: any[]}>({});
-  const [newComment, setNewComment] = useState('');
   const [showComments, setShowComments] = useState<{[key: string]: boolean}>({});
   const router = useRouter();
   const { user, userData } = useAuth();
@@ -409,39 +409,6 @@ const Friends: React.FC = () => {
     }
   };
 
-  const fetchComments = async (postId: string) => {
-    try {
-      // get real comments using the comments service
-      const postComments = await getPostComments(postId);
-      
-      // update the comments state with the fetched comments
-      setComments(prev => ({ 
-        ...prev, 
-        [postId]: postComments 
-      }));
-    } catch (error) {
-      console.error('Error fetching comments:', error);
-      
-      // fallback to mock comments if necessary
-      const mockComments = [
-        {
-          id: `mock-${Date.now()}`,
-          postId,
-          userId: 'mock-user',
-          userDisplayName: 'Example User',
-          userPhotoURL: 'https://i.pravatar.cc/150?img=1',
-          content: 'This is a placeholder comment when real comments can\'t be loaded.',
-          createdAt: new Date(),
-        }
-      ];
-      
-      setComments(prev => ({ 
-        ...prev, 
-        [postId]: mockComments
-      }));
-    }
-  };
-
   const handleLikePost = async (postId: string) => {
     if (!user) return;
 
@@ -482,53 +449,16 @@ const Friends: React.FC = () => {
     }
   };
 
-  const handleAddComment = async (postId: string) => {
-    if (!user || !newComment.trim()) return;
-
-    try {
-      const commentId = await addComment(
-        postId,
-        user.uid,
-        newComment.trim()
-      );
-      
-      const userDisplayName = userData?.displayName || user.displayName || 'You';
-      const userPhotoURL = userData?.photoURL || user.photoURL;
-      
-      const newCommentObj = {
-        id: commentId || `temp-${Date.now()}`,
-        userId: user.uid,
-        userDisplayName,
-        userPhotoURL,
-        content: newComment.trim(),
-        createdAt: new Date(),
-      };
-      
-      // add the comment to the local state
-      setComments(prev => ({
-        ...prev,
-        [postId]: [...(prev[postId] || []), newCommentObj]
-      }));
-      
-      // update the post's comment count in the local state
-      setPosts(posts.map(post => 
-        post.id === postId 
-          ? { ...post, comments: post.comments + 1 }
-          : post
-      ));
-      
-      setNewComment('');
-    } catch (error) {
-      console.error('Error adding comment:', error);
-      alert('Failed to add comment. Please try again.');
-    }
+  const toggleComments = (postId: string) => {
+    setShowComments(prev => ({ ...prev, [postId]: !prev[postId] }));
   };
 
-  const toggleComments = async (postId: string) => {
-    if (!showComments[postId]) {
-      await fetchComments(postId);
-    }
-    setShowComments(prev => ({ ...prev, [postId]: !prev[postId] }));
+  const handleCommentCountChange = (postId: string, delta: number) => {
+    setPosts(prev => prev.map(post =>
+      post.id === postId
+        ? { ...post, comments: Math.max(0, (post.comments || 0) + delta) }
+        : post
+    ));
   };
 
   if (!user) return null;
@@ -635,6 +565,9 @@ const Friends: React.FC = () => {
                           </h3>
                           <p className="text-gray-500 dark:text-gray-400 text-sm">
                             {new Date(post.createdAt).toLocaleDateString()}
+                            {post.editedAt && (
+                              <span title={`Edited ${new Date(post.editedAt).toLocaleString()}`}> · edited</span>
+                            )}
                           </p>
                         </div>
                       </div>
@@ -707,75 +640,10 @@ const Friends: React.FC = () => {
                       </div>
 
                       {showComments[post.id] && (
-                        <div className="mt-4 space-y-4">
-                          {comments[post.id]?.map((comment) => (
-                            <div key={comment.id} className="flex gap-3">
-                              <div className="w-8 h-8 rounded-full overflow-hidden bg-gray-700">
-                                {comment.userPhotoURL ? (
-                                  <img
-                                    src={comment.userPhotoURL}
-                                    alt={comment.userDisplayName}
-                                    className="w-full h-full object-cover"
-                                  />
-                                ) : (
-                                  <div className="h-full w-full bg-primary-100 dark:bg-primary-900 flex items-center justify-center">
-                                    <FaUser className="h-3 w-3 text-primary-600 dark:text-primary-400" />
-                                  </div>
-                                )}
-                              </div>
-                              <div className="flex-1">
-                                <div className="bg-gray-100 dark:bg-dark-300 rounded-lg p-3">
-                                  <p className="text-gray-900 dark:text-white font-semibold text-sm">
-                                    {comment.userDisplayName}
-                                  </p>
-                                  <p className="text-gray-700 dark:text-gray-300 text-sm">
-                                    {comment.content}
-                                  </p>
-                                </div>
-                                <p className="text-gray-500 dark:text-gray-400 text-xs mt-1">
-                                  {new Date(comment.createdAt).toLocaleDateString()}
-                                </p>
-                              </div>
-                            </div>
-                          ))}
-
-                          <div className="flex gap-3">
-                            <div className="w-8 h-8 rounded-full overflow-hidden bg-gray-700">
-                              {user?.photoURL ? (
-                                <img
-                                  src={user.photoURL}
-                                  alt={user.displayName || 'You'}
-                                  className="w-full h-full object-cover"
-                                />
-                              ) : (
-                                <div className="h-full w-full bg-primary-100 dark:bg-primary-900 flex items-center justify-center">
-                                  <FaUser className="h-3 w-3 text-primary-600 dark:text-primary-400" />
-                                </div>
-                              )}
-                            </div>
-                            <div className="flex-1 flex gap-2">
-                              <input
-                                type="text"
-                                value={newComment}
-                                onChange={(e) => setNewComment(e.target.value)}
-                                onKeyPress={(e) => {
-                                  if (e.key === 'Enter') {
-                                    handleAddComment(post.id);
-                                  }
-                                }}
-                                placeholder="Add a comment..."
-                                className="flex-1 bg-gray-100 dark:bg-dark-300 text-gray-900 dark:text-white rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
-                              />
-                              <button
-                                onClick={() => handleAddComment(post.id)}
-                                disabled={!newComment.trim()}
-                                className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
-                              >
-                                Post
-                              </button>
-                            </div>
-                          </div>
-                        </div>
+                        <CommentThread
+                          postId={post.id}
+                          onCountChange={(delta) => handleCommentCountChange(post.id, delta)}
+                        />
                       )}
                     </div>
                   </div>
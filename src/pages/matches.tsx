@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/router';
 import { useAuth } from '@/hooks/useAuth';
+import CommentThread from '@/components/comments/CommentThread';
 import { FaUser, FaUserFriends, FaUserPlus, FaComment, FaHeart, FaMusic, FaRegHeart } from 'react-icons/fa';
 import { getUserMatches, Match as MatchType } from '@/services/matches';
-import { getMatchFeedPosts, likePost, addComment, getPostComments } from '@/services/posts';
+import { getMatchFeedPosts, likePost } from '@/services/posts';
 import { 
   sendFriendRequest, 
   getUserFriends, 
@@ -43,6 +44,7 @@ interface Post {
   likes: number;
   comments: number;
   createdAt: Date;
+  editedAt?: Date;
   likedBy?: string[];
   mediaUrl?: string; 
   mediaUrls?: string[]; 
@@ -58,8 +60,6 @@ const Matches: React.FC = () => {
   // feed tab state
   const [posts, setPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true);
-  const [comments, setComments] = useState<{[key: string]: any[]}>({});
-  const [newComment, setNewComment] = useState('');
   const [showComments, setShowComments] = useState<{[key: string]: boolean}>({});
   
   const router = useRouter();
@@ -180,6 +180,7 @@ const Matches: React.FC = () => {
         likes: post.likes,
         comments: post.comments,
         createdAt: post.createdAt,
+        editedAt: post.editedAt,
         likedBy: post.likedBy || [],
         mediaUrl: post.mediaUrl,
         mediaUrls: post.mediaUrls
@@ -233,80 +234,16 @@ const Matches: React.FC = () => {
     }
   };
 
-  const handleAddComment = async (postId: string) => {
-    if (!user || !newComment.trim()) return;
-
-    try {
-      // call the real addComment service
-      const commentId = await addComment(
-        postId,
-        user.uid,
-        newComment.trim()
-      );
-      
-      // get the user's display name and photo URL for the new comment
-      const userDisplayName = userData?.displayName || user.displayName || 'You';
-      const userPhotoURL = userData?.photoURL || user.photoURL;
-      
-      // create a new comment object
-      const newCommentObj = {
-        id: commentId || `temp-${Date.now()}`,
-        userId: user.uid,
-        userDisplayName,
-        userPhotoURL,
-        content: newComment.trim(),
-        createdAt: new Date(),
-      };
-      
-      setComments(prev => ({
-        ...prev,
-        [postId]: [...(prev[postId] || []), newCommentObj]
-      }));
-      
-      setPosts(posts.map(post => 
-        post.id === postId 
-          ? { ...post, comments: post.comments + 1 }
-          : post
-      ));
-      
-      setNewComment('');
-    } catch (error) {
-      console.error('Error adding comment:', error);
-      alert('Failed to add comment. Please try again.');
-    }
-  };
-
-  const fetchComments = async (postId: string) => {
-    try {
-      // get real comments using the service
-      const postComments = await getPostComments(postId);
-      
-      setComments(prev => ({ 
-        ...prev, 
-        [postId]: postComments 
-      }));
-    } catch (error) {
-      console.error('Error fetching comments:', error);
-      
-      setComments(prev => ({ 
-        ...prev, 
-        [postId]: [{
-          id: `error-${Date.now()}`,
-          userId: 'system',
-          userDisplayName: 'System',
-          userPhotoURL: '',
-          content: 'Unable to load comments. Please try again later.',
-          createdAt: new Date()
-        }]
-      }));
-    }
+  const toggleComments = (postId: string) => {
+    setShowComments(prev => ({ ...prev, [postId]: !prev[postId] }));
   };
 
-  const toggleComments = async (postId: string) => {
-    if (!showComments[postId]) {
-      await fetchComments(postId);
-    }
-    setShowComments(prev => ({ ...prev, [postId]: !prev[postId] }));
+  const handleCommentCountChange = (postId: string, delta: number) => {
+    setPosts(prev => prev.map(post =>
+      post.id === postId
+        ? { ...post, comments: Math.max(0, (post.comments || 0) + delta) }
+        : post
+    ));
   };
 
   const handleSendFriendRequest = async (targetUserId: string) => {
@@ -567,6 +504,9 @@ const Matches: React.FC = () => {
                           </h3>
                           <p className="text-gray-500 dark:text-gray-400 text-sm">
                             {new Date(post.createdAt).toLocaleDateString()}
+                            {post.editedAt && (
+                              <span title={`Edited ${new Date(post.editedAt).toLocaleString()}`}> · edited</span>
+                            )}
                           </p>
                         </div>
                       </div>
@@ -639,75 +579,10 @@ const Matches: React.FC = () => {
                       </div>
 
                       {showComments[post.id] && (
-                        <div className="mt-4 space-y-4">
-                          {comments[post.id]?.map((comment) => (
-                            <div key={comment.id} className="flex gap-3">
-                              <div className="w-8 h-8 rounded-full overflow-hidden bg-gray-700">
-                                {comment.userPhotoURL ? (
-                                  <img
-                                    src={comment.userPhotoURL}
-                                    alt={comment.userDisplayName}
-                                    className="w-full h-full object-cover"
-                                  />
-                                ) : (
-                                  <div className="h-full w-full bg-primary-100 dark:bg-primary-900 flex items-center justify-center">
-                                    <FaUser className="h-3 w-3 text-primary-600 dark:text-primary-400" />
-                                  </div>
-                                )}
-                              </div>
-                              <div className="flex-1">
-                                <div className="bg-gray-100 dark:bg-dark-300 rounded-lg p-3">
-                                  <p className="text-gray-900 dark:text-white font-semibold text-sm">
-                                    {comment.userDisplayName}
-                                  </p>
-                                  <p className="text-gray-700 dark:text-gray-300 text-sm">
-                                    {comment.content}
-                                  </p>
-                                </div>
-                                <p className="text-gray-500 dark:text-gray-400 text-xs mt-1">
-                                  {new Date(comment.createdAt).toLocaleDateString()}
-                                </p>
-                              </div>
-                            </div>
-                          ))}
-
-                          <div className="flex gap-3">
-                            <div className="w-8 h-8 rounded-full overflow-hidden bg-gray-700">
-                              {user?.photoURL ? (
-                                <img
-                                  src={user.photoURL}
-                                  alt={user.displayName || 'You'}
-                                  className="w-full h-full object-cover"
-                                />
-                              ) : (
-                                <div className="h-full w-full bg-primary-100 dark:bg-primary-900 flex items-center justify-center">
-                                  <FaUser className="h-3 w-3 text-primary-600 dark:text-primary-400" />
-                                </div>
-                              )}
-                            </div>
-                            <div className="flex-1 flex gap-2">
-                              <input
-                                type="text"
-                                value={newComment}
-                                onChange={(e) => setNewComment(e.target.value)}
-                                onKeyPress={(e) => {
-                                  if (e.key === 'Enter') {
-                                    handleAddComment(post.id);
-                                  }
-                                }}
-                                placeholder="Add a comment..."
-                                className="flex-1 bg-gray-100 dark:bg-dark-300 text-gray-900 dark:text-white rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
-                              />
-                              <button
-                                onClick={() => handleAddComment(post.id)}
-                                disabled={!newComment.trim()}
-                                className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
-                              >
-                                Post
-                              </button>
-                            </div>
-                          </div>
-                        </div>
+                        <CommentThread
+                          postId={post.id}
+                          onCountChange={(delta) => handleCommentCountChange(post.id, delta)}
+                        />
                       )}
                     </div>
                   </div>
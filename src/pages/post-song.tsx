@@ -1,13 +1,13 @@
 // daily song posting interface with media upload
 import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/router';
-import { doc, setDoc, updateDoc, serverTimestamp, getDoc, arrayUnion } from 'firebase/firestore';
-import { ref, uploadBytesResumable, getDownloadURL } from 'firebase/storage';
-import { db, storage } from '@/services/firebase';
+import { ref, uploadBytesResumable, getDownloadURL, deleteObject, StorageReference } from 'firebase/storage';
+import { storage } from '@/services/firebase';
 import { useAuth } from '@/hooks/useAuth';
 import { FaMusic, FaSearch, FaCamera, FaSpotify, FaTimes, FaChevronLeft, FaChevronRight } from 'react-icons/fa';
-import { createPost } from '@/services/posts';
+import { AlreadyPostedError, createPost } from '@/services/posts';
 import { getAudioFeatures, SpotifyAudioFeatures } from '@/services/spotify';
+import { CatalogTrack, TrackRef, getMusicProvider } from '@/services/musicProvider';
 import SpotifyPlayer from '@/components/spotify/SpotifyPlayer';
 import SpotifyConnect from '@/components/spotify/SpotifyConnect';
 
@@ -17,9 +17,24 @@ interface SongData {
   album: string;
   coverArtUrl: string;
   spotifyId?: string;
+  track?: TrackRef;
+  isrc?: string;
+  durationMs?: number;
   previewUrl?: string;
 }
 
+const toSongData = (track: CatalogTrack): SongData => ({
+  title: track.title,
+  artist: track.artist,
+  album: track.album || 'Unknown Album',
+  coverArtUrl: track.coverArtUrl || '',
+  spotifyId: track.ref.provider === 'spotify' ? track.ref.id : undefined,
+  track: track.ref,
+  isrc: track.isrc,
+  durationMs: track.durationMs,
+  previewUrl: track.previewUrl || '',
+});
+
 const PostSong: React.FC = () => {
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<SongData[]>([]);
@@ -53,89 +68,38 @@ const PostSong: React.FC = () => {
     setSearchResults([]);
     
     try {
-      console.log(' Searching with standard Spotify API for:', query);
-      
-      const response = await fetch(`/api/spotify/search?q=${encodeURIComponent(query)}&limit=10`);
+      const provider = getMusicProvider();
+      console.log(` Searching ${provider?.name} for:`, query);
       
-      if (response.ok) {
-        const data = await response.json();
-        console.log(' Standard API response:', data);
+      try {
+        const tracks = provider ? await provider.search(query, 10) : [];
         
-        if (data.tracks && data.tracks.items && data.tracks.items.length > 0) {
-          const standardResults: SongData[] = data.tracks.items.map((track: any) => {
-            console.log(` Track "${track.name}" album images:`, track.album.images.length);
-            console.log(` Track "${track.name}" preview URL:`, track.preview_url || 'NONE');
-            
-            return {
-              title: track.name,
-              artist: track.artists.map((artist: any) => artist.name).join(', '),
-              album: track.album.name || 'Unknown Album',
-              coverArtUrl: track.album.images[0]?.url || '',
-              spotifyId: track.id,
-              previewUrl: track.preview_url || '',
-            };
-          });
+        if (provider && tracks.length > 0) {
+          const tracksWithPreviews = tracks.filter(track => track.previewUrl).length;
+          console.log(' Tracks with preview URLs:', tracksWithPreviews, 'out of', tracks.length);
           
-          console.log(' Standard results:', standardResults.length, 'tracks');
-          const tracksWithPreviews = standardResults.filter(r => r.previewUrl).length;
-          console.log(' Tracks with preview URLs:', tracksWithPreviews, 'out of', standardResults.length);
+          // look up previews the catalog didn't include, keeping all other metadata (album artwork, etc.)
+          const enhancedResults = await Promise.all(
+            tracks.map(async (track) => {
+              if (track.previewUrl) {
+                return toSongData(track);
+              }
+              
+              const previewUrl = await provider.getPreview(track);
+              console.log(previewUrl ? ` Found preview URL for "${track.title}"` : ` No preview found for "${track.title}"`);
+              return toSongData({ ...track, previewUrl: previewUrl || undefined });
+            })
+          );
           
-          if (tracksWithPreviews < standardResults.length) {
-            console.log(' Enhancing tracks without preview URLs...');
-            
-            const enhancedResults = await Promise.all(
-              standardResults.map(async (song) => {
-                if (song.previewUrl) {
-                  return song;
-                }
-                
-                // try to find preview URL using preview finder
-                try {
-                  console.log(` Looking for preview for "${song.title}" by ${song.artist}...`);
-                  
-                  // call  preview finder API (but only use it for preview URLs)
-                  const previewResponse = await fetch(
-                    `/api/spotify/search-with-previews?query=${encodeURIComponent(`${song.title} ${song.artist}`)}&limit=1`
-                  );
-                  
-                  if (previewResponse.ok) {
-                    const previewData = await previewResponse.json();
-                    const previewTrack = previewData.tracks?.items?.[0];
-                    
-                    if (previewTrack?.preview_url) {
-                      console.log(` Found preview URL for "${song.title}":`, previewTrack.preview_url);
-                      return {
-                        ...song, // keep all original metadata (album artwork, etc.)
-                        previewUrl: previewTrack.preview_url 
-                      };
-                    }
-                  }
-                } catch (previewError) {
-                  console.log(` Could not enhance "${song.title}":`, previewError);
-                }
-                
-                console.log(` No preview found for "${song.title}"`);
-                return song;
-              })
-            );
-            
-            const finalTracksWithPreviews = enhancedResults.filter(r => r.previewUrl).length;
-            console.log(' Final enhanced results:', finalTracksWithPreviews, 'out of', enhancedResults.length, 'tracks have previews');
-            
-            setSearchResults(enhancedResults);
-          } else {
-            // all tracks already have previews, no enhancement needed
-            console.log(' All tracks already have preview URLs, no enhancement needed');
-            setSearchResults(standardResults);
-          }
+          const finalTracksWithPreviews = enhancedResults.filter(r => r.previewUrl).length;
+          console.log(' Final enhanced results:', finalTracksWithPreviews, 'out of', enhancedResults.length, 'tracks have previews');
           
+          setSearchResults(enhancedResults);
           setIsSearching(false);
           return;
         }
-      } else {
-        console.log(' Standard API failed with status:', response.status);
-        const errorText = await response.text();
-        console.log(' Error details:', errorText);
+      } catch (searchError) {
+        console.log(' Catalog search failed:', searchError);
       }
       
       // fallback to mock data if the API fails
@@ -250,6 +214,12 @@ const PostSong: React.FC = () => {
     }
   };
 
+  const deleteUploads = async (storageRefs: StorageReference[]) => {
+    await Promise.all(storageRefs.map(storageRef =>
+      deleteObject(storageRef).catch(error => console.warn(' Could not delete uploaded media:', storageRef.fullPath, error))
+    ));
+  };
+
   const handleSubmit = async () => {
     if (!user || !selectedSong) return;
     
@@ -261,11 +231,13 @@ const PostSong: React.FC = () => {
     setIsSubmitting(true);
     setError(null);
     let mediaUrls = [];
+    const uploadedRefs: StorageReference[] = [];
     let audioFeatures: SpotifyAudioFeatures | null = null;
     
     try {
       console.log('Starting song submission process');
       
+      // audio analysis works from spotify ids for now
       if (selectedSong.spotifyId) {
         try {
           console.log(' Fetching audio features for Spotify ID:', selectedSong.spotifyId);
@@ -290,7 +262,7 @@ const PostSong: React.FC = () => {
           setIsFetchingAudioFeatures(false);
         }
       } else {
-        console.log(' No Spotify ID available, skipping audio features');
+        console.log(' Not a Spotify track, skipping audio features');
       }
       
       // upload media files if exists
@@ -319,6 +291,7 @@ const PostSong: React.FC = () => {
           
           // wait for upload to complete
           await uploadTask;
+          uploadedRefs.push(storageRef);
           const downloadURL = await getDownloadURL(storageRef);
           mediaUrls.push(downloadURL);
         }
@@ -340,6 +313,18 @@ const PostSong: React.FC = () => {
         songObject.spotifyId = selectedSong.spotifyId;
       }
       
+      if (selectedSong.track) {
+        songObject.track = selectedSong.track;
+      }
+      
+      if (selectedSong.isrc) {
+        songObject.isrc = selectedSong.isrc;
+      }
+      
+      if (selectedSong.durationMs) {
+        songObject.durationMs = selectedSong.durationMs;
+      }
+      
       if (selectedSong.previewUrl) {
         songObject.previewUrl = selectedSong.previewUrl;
       }
@@ -354,41 +339,24 @@ const PostSong: React.FC = () => {
         hasPreviewUrl: !!selectedSong.previewUrl
       });
       
-      // create post with audio features
-      const postRef = await createPost(
-        user.uid, 
-        user.displayName || 'Anonymous', 
-        user.photoURL || '', 
-        selectedSong.title,
-        selectedSong.artist,
-        selectedSong.coverArtUrl,
-        selectedSong.spotifyId || '',
-        selectedSong.previewUrl || '',
+      // the server creates the post and marks today as posted in one go
+      const postId = await createPost({
+        songTitle: selectedSong.title,
+        songArtist: selectedSong.artist,
+        songAlbumArt: selectedSong.coverArtUrl,
+        spotifyId: selectedSong.spotifyId || '',
+        previewUrl: selectedSong.previewUrl || '',
         mood,
         caption,
-        audioFeatures, 
-        songObject, 
-        mediaUrls 
-      );
-      
-      console.log('Post created successfully with ID:', postRef);
-      
-      // update user document to indicate they've posted today
-      const userRef = doc(db, 'users', user.uid);
-      
-      const currentUserDoc = await getDoc(userRef);
-      
-      const now = new Date();
-      
-      // now update the user document with the hasPostedToday flag set to true
-      await updateDoc(userRef, {
-        hasPostedToday: true,
-        lastPostDate: serverTimestamp(),
-        lastPostDateManual: now, // Backup manual timestamp
-        posts: arrayUnion(postRef)
+        audioFeatures,
+        song: songObject,
+        mediaUrls
       });
       
-      console.log(' User document updated with hasPostedToday: true');
+      console.log('Post created successfully with ID:', postId);
+
+      // the post owns the media now, whatever fails after this
+      uploadedRefs.length = 0;
       
       // refresh user data
       await refreshUserData();
@@ -412,6 +380,16 @@ const PostSong: React.FC = () => {
       window.location.href = '/matches';
       
     } catch (error) {
+      // no post points at the media, so don't leave it behind in storage
+      await deleteUploads(uploadedRefs);
+
+      if (error instanceof AlreadyPostedError) {
+        // posted from another tab or device; nothing to retry until the next reset
+        setError(`You've already shared a song today. You can post again after ${error.nextResetAt.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}.`);
+        setIsSubmitting(false);
+        await refreshUserData();
+        return;
+      }
       console.error('Error submitting post:', error);
       setError('Failed to submit post. Please try again.');
       setIsSubmitting(false);
@@ -517,7 +495,7 @@ const PostSong: React.FC = () => {
                   <div className="max-h-60 overflow-y-auto">
                     {searchResults.map((song, index) => (
                       <div
-                        key={`${song.spotifyId || index}`}
+                        key={`${song.track ? `${song.track.provider}:${song.track.id}` : song.spotifyId || index}`}
                         className="flex items-center p-2 hover:bg-gray-100 dark:hover:bg-dark-300 rounded-md cursor-pointer"
                         onClick={() => handleSongSelect(song)}
                       >
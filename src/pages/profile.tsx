@@ -3,9 +3,10 @@ import { useRouter } from 'next/router';
 import { doc, updateDoc } from 'firebase/firestore';
 import { db, handleFirestoreError } from '@/services/firebase';
 import { useAuth } from '@/hooks/useAuth';
-import { FaUser, FaCog, FaEdit, FaSignOutAlt, FaMusic, FaHeart, FaComment, FaRegHeart, FaLock, FaGlobe, FaChartLine, FaPhone } from 'react-icons/fa';
-import { getUserProfilePosts } from '@/services/posts';
-import { likePost, addComment, getPostComments } from '@/services/posts';
+import CommentThread from '@/components/comments/CommentThread';
+import { FaUser, FaCog, FaEdit, FaSignOutAlt, FaMusic, FaHeart, FaComment, FaRegHeart, FaLock, FaGlobe, FaChartLine, FaPhone, FaTrash, FaHistory } from 'react-icons/fa';
+import { PostRevisionEntry, deletePost, editPost, getPostRevisions, getUserProfilePosts } from '@/services/posts';
+import { likePost } from '@/services/posts';
 import NotificationBadge from '@/components/common/NotificationBadge';
 import { getUnreadNotifications } from '@/services/notifications';
 import ClickableAlbumCover from '@/components/spotify/ClickableAlbumCover';
@@ -33,6 +34,7 @@ interface Post {
   likedBy?: string[];
   mediaUrl?: string; 
   mediaUrls?: string[]; 
+  editedAt?: any;
 }
 
 const Profile: React.FC = () => {
@@ -45,12 +47,16 @@ const Profile: React.FC = () => {
   const [posts, setPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedPost, setSelectedPost] = useState<string | null>(null);
-  const [comments, setComments] = useState<{[key: string]: any[]}>({});
-  const [newComment, setNewComment] = useState('');
   const [showComments, setShowComments] = useState<{[key: string]: boolean}>({});
   const [unreadNotifications, setUnreadNotifications] = useState(0);
   const [postsVisibility, setPostsVisibility] = useState<'public' | 'private'>('public');
   const [activeTab, setActiveTab] = useState<'posts' | 'analytics'>('posts');
+  const [editingPostId, setEditingPostId] = useState<string | null>(null);
+  const [editCaption, setEditCaption] = useState('');
+  const [editMood, setEditMood] = useState('');
+  const [isSavingPost, setIsSavingPost] = useState(false);
+  const [revisions, setRevisions] = useState<{[key: string]: PostRevisionEntry[]}>({});
+  const [showRevisions, setShowRevisions] = useState<{[key: string]: boolean}>({});
 
   useEffect(() => {
     if (userData) {
@@ -242,83 +248,78 @@ const Profile: React.FC = () => {
     }
   };
 
-  const handleAddComment = async (postId: string) => {
-    if (!user || !newComment.trim()) return;
+  const toggleComments = (postId: string) => {
+    setShowComments(prev => ({ ...prev, [postId]: !prev[postId] }));
+  };
+
+  const handleCommentCountChange = (postId: string, delta: number) => {
+    setPosts(prev => prev.map(post =>
+      post.id === postId
+        ? { ...post, comments: Math.max(0, (post.comments || 0) + delta) }
+        : post
+    ));
+  };
+
+  const startEditingPost = (post: Post) => {
+    setEditingPostId(post.id);
+    setEditCaption(post.caption || '');
+    setEditMood(post.mood || '');
+  };
+
+  const handleSavePost = async (postId: string) => {
+    if (!editMood.trim()) {
+      alert('Please enter a mood for your song');
+      return;
+    }
 
+    setIsSavingPost(true);
     try {
-      // call the real addComment service
-      const commentId = await addComment(
-        postId,
-        user.uid,
-        newComment.trim()
-      );
-      
-      const userDisplayName = userData?.displayName || user.displayName || 'You';
-      const userPhotoURL = userData?.photoURL || user.photoURL;
-      
-      const newCommentObj = {
-        id: commentId,
-        postId,
-        userId: user.uid,
-        userDisplayName,
-        userPhotoURL,
-        content: newComment.trim(),
-        createdAt: new Date(),
-      };
-      
-      setComments(prev => ({
-        ...prev,
-        [postId]: [...(prev[postId] || []), newCommentObj]
-      }));
-      
-      setPosts(posts.map(post => 
-        post.id === postId 
-          ? { ...post, comments: post.comments + 1 }
-          : post
-      ));
-      
-      setNewComment('');
-    } catch (error) {
-      console.error('Error adding comment:', error);
+      const revision = await editPost(postId, { caption: editCaption, mood: editMood.trim() });
+      if (revision !== null) {
+        setPosts(prev => prev.map(post =>
+          post.id === postId
+            ? { ...post, caption: editCaption, mood: editMood.trim(), editedAt: new Date() }
+            : post
+        ));
+        // the cached list no longer has the version just replaced
+        setRevisions(prev => {
+          const { [postId]: _stale, ...rest } = prev;
+          return rest;
+        });
+        setShowRevisions(prev => ({ ...prev, [postId]: false }));
+      }
+      setEditingPostId(null);
+    } catch (error: any) {
+      alert(error.message || 'Failed to save your post. Please try again.');
+    } finally {
+      setIsSavingPost(false);
     }
   };
 
-  const fetchComments = async (postId: string) => {
+  const handleDeletePost = async (postId: string) => {
+    if (!window.confirm('Delete this post? Its likes, comments and photos will be deleted too. This cannot be undone.')) return;
+
     try {
-      // call the real getPostComments service
-      const postComments = await getPostComments(postId);
-      
-      setComments(prev => ({ 
-        ...prev, 
-        [postId]: postComments 
-      }));
-    } catch (error) {
-      console.error('Error fetching comments:', error);
-      
-      const mockComments = [
-        {
-          id: `mock-${Date.now()}`,
-          postId,
-          userId: 'mock-user',
-          userDisplayName: 'Example User',
-          userPhotoURL: 'https://i.pravatar.cc/150?img=1',
-          content: 'This is a placeholder comment when real comments can\'t be loaded.',
-          createdAt: new Date(),
-        }
-      ];
-      
-      setComments(prev => ({ 
-        ...prev, 
-        [postId]: mockComments
-      }));
+      await deletePost(postId);
+      setPosts(prev => prev.filter(post => post.id !== postId));
+      setSelectedPost(null);
+    } catch (error: any) {
+      alert(error.message || 'Failed to delete your post. Please try again.');
     }
   };
 
-  const toggleComments = async (postId: string) => {
-    if (!showComments[postId]) {
-      await fetchComments(postId);
+  const toggleRevisions = async (postId: string) => {
+    const show = !showRevisions[postId];
+    setShowRevisions(prev => ({ ...prev, [postId]: show }));
+    if (!show || revisions[postId]) return;
+
+    try {
+      const postRevisions = await getPostRevisions(postId);
+      setRevisions(prev => ({ ...prev, [postId]: postRevisions }));
+    } catch (error) {
+      setShowRevisions(prev => ({ ...prev, [postId]: false }));
+      alert('Failed to load earlier versions. Please try again.');
     }
-    setShowComments(prev => ({ ...prev, [postId]: !prev[postId] }));
   };
 
   const handleTogglePostsVisibility = async () => {
@@ -573,7 +574,10 @@ const Profile: React.FC = () => {
                       {post.songTitle}
                     </h3>
                     <button
-                      onClick={() => setSelectedPost(null)}
+                      onClick={() => {
+                        setSelectedPost(null);
+                        setEditingPostId(null);
+                      }}
                       className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
                     >
                       ✕
@@ -603,13 +607,47 @@ const Profile: React.FC = () => {
                       </p>
                       <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
                         {formatPostDate(post.createdAt)}
+                        {post.editedAt && <span> · edited</span>}
                       </p>
                     </div>
                   </div>
 
-                  {post.caption && (
+                  {editingPostId === post.id ? (
+                    <div className="mb-4 space-y-2">
+                      <input
+                        type="text"
+                        value={editMood}
+                        onChange={(e) => setEditMood(e.target.value)}
+                        className="w-full p-2 border border-gray-300 dark:border-dark-400 rounded-md bg-white dark:bg-dark-100 text-gray-900 dark:text-white"
+                        placeholder="Mood"
+                      />
+                      <textarea
+                        value={editCaption}
+                        onChange={(e) => setEditCaption(e.target.value)}
+                        className="w-full p-2 border border-gray-300 dark:border-dark-400 rounded-md bg-white dark:bg-dark-100 text-gray-900 dark:text-white"
+                        placeholder="Say something about this song..."
+                        rows={3}
+                      />
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => handleSavePost(post.id)}
+                          disabled={isSavingPost}
+                          className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+                        >
+                          {isSavingPost ? 'Saving...' : 'Save'}
+                        </button>
+                        <button
+                          onClick={() => setEditingPostId(null)}
+                          disabled={isSavingPost}
+                          className="px-4 py-2 bg-gray-100 dark:bg-dark-300 text-gray-700 dark:text-gray-300 rounded-lg"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  ) : post.caption ? (
                     <p className="text-gray-700 dark:text-gray-300 mb-4">{post.caption}</p>
-                  )}
+                  ) : null}
 
                   {/* Photo carousel if multiple photos exist, or single photo */}
                   {(post.mediaUrls && post.mediaUrls.length > 0) ? (
@@ -651,76 +689,61 @@ const Profile: React.FC = () => {
                       <FaComment />
                       <span>{String(post.comments || 0)}</span>
                     </button>
-                  </div>
-
-                  {showComments[post.id] && (
-                    <div className="space-y-4">
-                      {comments[post.id]?.map((comment) => (
-                        <div key={comment.id} className="flex gap-3">
-                          <div className="w-8 h-8 rounded-full overflow-hidden bg-gray-700">
-                            {comment.userPhotoURL ? (
-                              <img
-                                src={comment.userPhotoURL}
-                                alt={comment.userDisplayName}
-                                className="w-full h-full object-cover"
-                              />
-                            ) : (
-                              <div className="h-full w-full bg-primary-100 dark:bg-primary-900 flex items-center justify-center">
-                                <FaUser className="h-3 w-3 text-primary-600 dark:text-primary-400" />
-                              </div>
-                            )}
-                          </div>
-                          <div className="flex-1">
-                            <div className="bg-gray-100 dark:bg-dark-300 rounded-lg p-3">
-                              <p className="text-gray-900 dark:text-white font-semibold text-sm">
-                                {comment.userDisplayName}
-                              </p>
-                              <p className="text-gray-700 dark:text-gray-300 text-sm">
-                                {comment.content}
-                              </p>
-                            </div>
-                          </div>
-                        </div>
-                      ))}
-
-                      <div className="flex gap-3">
-                        <div className="w-8 h-8 rounded-full overflow-hidden bg-gray-700">
-                          {user?.photoURL ? (
-                            <img
-                              src={user.photoURL}
-                              alt={user.displayName || 'You'}
-                              className="w-full h-full object-cover"
-                            />
-                          ) : (
-                            <div className="h-full w-full bg-primary-100 dark:bg-primary-900 flex items-center justify-center">
-                              <FaUser className="h-3 w-3 text-primary-600 dark:text-primary-400" />
-                            </div>
-                          )}
-                        </div>
-                        <div className="flex-1 flex gap-2">
-                          <input
-                            type="text"
-                            value={newComment}
-                            onChange={(e) => setNewComment(e.target.value)}
-                            onKeyPress={(e) => {
-                              if (e.key === 'Enter') {
-                                handleAddComment(post.id);
-                              }
-                            }}
-                            placeholder="Add a comment..."
-                            className="flex-1 bg-gray-100 dark:bg-dark-300 text-gray-900 dark:text-white rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
-                          />
+                    {post.userId === user.uid && (
+                      <div className="flex items-center gap-4 ml-auto">
+                        {post.editedAt && (
                           <button
-                            onClick={() => handleAddComment(post.id)}
-                            disabled={!newComment.trim()}
-                            className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                            onClick={() => toggleRevisions(post.id)}
+                            className="text-gray-500 dark:text-gray-400 hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
+                            aria-label="Earlier versions"
                           >
-                            Post
+                            <FaHistory />
                           </button>
-                        </div>
+                        )}
+                        <button
+                          onClick={() => startEditingPost(post)}
+                          className="text-gray-500 dark:text-gray-400 hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
+                          aria-label="Edit post"
+                        >
+                          <FaEdit />
+                        </button>
+                        <button
+                          onClick={() => handleDeletePost(post.id)}
+                          className="text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                          aria-label="Delete post"
+                        >
+                          <FaTrash />
+                        </button>
                       </div>
+                    )}
+                  </div>
+
+                  {showRevisions[post.id] && (
+                    <div className="mb-4 space-y-2">
+                      {!revisions[post.id] ? (
+                        <p className="text-sm text-gray-500 dark:text-gray-400">Loading earlier versions...</p>
+                      ) : revisions[post.id].map(revision => (
+                        <div key={revision.revision} className="bg-gray-100 dark:bg-dark-300 rounded-lg p-3 text-sm">
+                          <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                            Until {revision.replacedAt ? revision.replacedAt.toLocaleString() : 'an edit'} · {revision.mood}
+                          </p>
+                          <p className="text-gray-700 dark:text-gray-300">{revision.caption || 'No caption'}</p>
+                          {revision.mediaUrls.length > 0 && (
+                            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                              {revision.mediaUrls.length} photo{revision.mediaUrls.length === 1 ? '' : 's'}
+                            </p>
+                          )}
+                        </div>
+                      ))}
                     </div>
                   )}
+
+                  {showComments[post.id] && (
+                    <CommentThread
+                      postId={post.id}
+                      onCountChange={(delta) => handleCommentCountChange(post.id, delta)}
+                    />
+                  )}
                 </div>
               );
             })()}
@@ -4,8 +4,9 @@ import { useRouter } from 'next/router';
 import { doc, getDoc } from 'firebase/firestore';
 import { db } from '@/services/firebase';
 import { useAuth } from '@/hooks/useAuth';
+import CommentThread from '@/components/comments/CommentThread';
 import { FaUser, FaUserPlus, FaUserMinus, FaHeart, FaRegHeart, FaComment } from 'react-icons/fa';
-import { getUserProfilePosts, likePost, addComment, getPostComments } from '@/services/posts';
+import { getUserProfilePosts, likePost } from '@/services/posts';
 import { sendFriendRequest, removeFriend, getUserFriends } from '@/services/friends';
 import ClickableAlbumCover from '@/components/spotify/ClickableAlbumCover';
 import PhotoCarousel from '@/components/PhotoCarousel';
@@ -51,8 +52,6 @@ const UserProfile: React.FC = () => {
   const [userData, setUserData] = useState<UserData | null>(null);
   const [posts, setPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true);
-  const [comments, setComments] = useState<{[key: string]: any[]}>({});
-  const [newComment, setNewComment] = useState('');
   const [showComments, setShowComments] = useState<{[key: string]: boolean}>({});
   const [friendship, setFriendship] = useState<'not_friend' | 'pending' | 'friends'>('not_friend');
   const [selectedPost, setSelectedPost] = useState<string | null>(null);
@@ -193,64 +192,16 @@ const UserProfile: React.FC = () => {
     }
   };
 
-  const fetchComments = async (postId: string) => {
-    try {
-      const postComments = await getPostComments(postId);
-      
-      setComments(prev => ({ 
-        ...prev, 
-        [postId]: postComments 
-      }));
-    } catch (error) {
-      console.error('Error fetching comments:', error);
-    }
-  };
-
-  const handleAddComment = async (postId: string) => {
-    if (!user || !newComment.trim()) return;
-
-    try {
-      const commentId = await addComment(
-        postId,
-        user.uid,
-        newComment.trim()
-      );
-      
-      const userDisplayName = currentUserData?.displayName || user.displayName || 'You';
-      const userPhotoURL = currentUserData?.photoURL || user.photoURL;
-      
-      const newCommentObj = {
-        id: commentId || `temp-${Date.now()}`,
-        userId: user.uid,
-        userDisplayName,
-        userPhotoURL,
-        content: newComment.trim(),
-        createdAt: new Date(),
-      };
-      
-      setComments(prev => ({
-        ...prev,
-        [postId]: [...(prev[postId] || []), newCommentObj]
-      }));
-      
-      setPosts(posts.map(post => 
-        post.id === postId 
-          ? { ...post, comments: post.comments + 1 }
-          : post
-      ));
-      
-      setNewComment('');
-    } catch (error) {
-      console.error('Error adding comment:', error);
-      alert('Failed to add comment. Please try again.');
-    }
+  const toggleComments = (postId: string) => {
+    setShowComments(prev => ({ ...prev, [postId]: !prev[postId] }));
   };
 
-  const toggleComments = async (postId: string) => {
-    if (!showComments[postId]) {
-      await fetchComments(postId);
-    }
-    setShowComments(prev => ({ ...prev, [postId]: !prev[postId] }));
+  const handleCommentCountChange = (postId: string, delta: number) => {
+    setPosts(prev => prev.map(post =>
+      post.id === postId
+        ? { ...post, comments: Math.max(0, (post.comments || 0) + delta) }
+        : post
+    ));
   };
 
   if (loading || !userData) {
@@ -489,81 +440,10 @@ const UserProfile: React.FC = () => {
                         </div>
 
                         {showComments[post.id] && (
-                          <div className="space-y-4">
-                            {comments[post.id]?.length > 0 ? (
-                              comments[post.id].map((comment) => (
-                                <div key={comment.id} className="flex gap-3">
-                                  <div className="w-8 h-8 rounded-full overflow-hidden bg-gray-700">
-                                    {comment.userPhotoURL ? (
-                                      <img
-                                        src={comment.userPhotoURL}
-                                        alt={comment.userDisplayName}
-                                        className="w-full h-full object-cover"
-                                      />
-                                    ) : (
-                                      <div className="h-full w-full bg-primary-100 dark:bg-primary-900 flex items-center justify-center">
-                                        <FaUser className="h-3 w-3 text-primary-600 dark:text-primary-400" />
-                                      </div>
-                                    )}
-                                  </div>
-                                  <div className="flex-1">
-                                    <div className="bg-gray-100 dark:bg-dark-300 rounded-lg p-3">
-                                      <p className="text-gray-900 dark:text-white font-semibold text-sm">
-                                        {comment.userDisplayName}
-                                      </p>
-                                      <p className="text-gray-700 dark:text-gray-300 text-sm">
-                                        {comment.content}
-                                      </p>
-                                    </div>
-                                    <p className="text-gray-500 dark:text-gray-400 text-xs mt-1">
-                                      {formatPostDate(comment.createdAt)}
-                                    </p>
-                                  </div>
-                                </div>
-                              ))
-                            ) : (
-                              <p className="text-gray-500 dark:text-gray-400 text-sm">No comments yet</p>
-                            )}
-
-                            {user && (
-                              <div className="flex gap-3">
-                                <div className="w-8 h-8 rounded-full overflow-hidden bg-gray-700">
-                                  {user?.photoURL ? (
-                                    <img
-                                      src={user.photoURL}
-                                      alt={user.displayName || 'You'}
-                                      className="w-full h-full object-cover"
-                                    />
-                                  ) : (
-                                    <div className="h-full w-full bg-primary-100 dark:bg-primary-900 flex items-center justify-center">
-                                      <FaUser className="h-3 w-3 text-primary-600 dark:text-primary-400" />
-                                    </div>
-                                  )}
-                                </div>
-                                <div className="flex-1 flex gap-2">
-                                  <input
-                                    type="text"
-                                    value={newComment}
-                                    onChange={(e) => setNewComment(e.target.value)}
-                                    onKeyPress={(e) => {
-                                      if (e.key === 'Enter') {
-                                        handleAddComment(post.id);
-                                      }
-                                    }}
-                                    placeholder="Add a comment..."
-                                    className="flex-1 bg-gray-100 dark:bg-dark-300 text-gray-900 dark:text-white rounded-lg px-4 py-2 focus:outline-none focus:ring-2 focus:ring-primary-500"
-                                  />
-                                  <button
-                                    onClick={() => handleAddComment(post.id)}
-                                    disabled={!newComment.trim()}
-                                    className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
-                                  >
-                                    Post
-                                  </button>
-                                </div>
-                              </div>
-                            )}
-                          </div>
+                          <CommentThread
+                            postId={post.id}
+                            onCountChange={(delta) => handleCommentCountChange(post.id, delta)}
+                          />
                         )}
                       </div>
                     );
@@ -7,10 +7,39 @@ import { ref, uploadBytesResumable, getDownloadURL } from 'firebase/storage';
 import { useAuth } from '@/hooks/useAuth';
 import { FaUser, FaArrowLeft, FaSignOutAlt, FaCamera, FaLock, FaBell, FaEye, FaSpotify, FaApple, FaTrash } from 'react-icons/fa';
 import SpotifyConnect from '@/components/spotify/SpotifyConnect';
+import { isValidResetHour, isValidTimeZone, resolveResetSchedule } from '@/services/resetSchedule';
+import { ResetScheduleCooldownError, saveResetSchedule } from '@/services/settings';
+import { getNextResetTime } from '@/services/timeUtils';
+
+// what the spotify connect callback reports back through ?success= and ?error=
+const SPOTIFY_CONNECT_MESSAGES: { [code: string]: string } = {
+  spotify_connected: 'Spotify connected',
+  access_denied: 'Spotify connection was cancelled',
+  state_missing: 'Spotify connection failed: the request was incomplete. Please try connecting again.',
+  state_invalid: 'Spotify connection failed: the request could not be verified. Please try connecting again.',
+  state_expired: 'Spotify connection timed out. Please try connecting again.',
+  state_mismatch: 'Spotify connection failed: it was started from a different browser or account. Please try connecting again.',
+  state_replayed: 'That Spotify connection link was already used. Please try connecting again.',
+  missing_code: 'Spotify connection failed. Please try connecting again.',
+  token_exchange_failed: 'Spotify connection failed. Please try connecting again.',
+  profile_fetch_failed: 'Could not read your Spotify profile. Please try connecting again.',
+  server_error: 'Something went wrong connecting Spotify. Please try again later.'
+};
+
+// every zone the browser knows; older browsers can only offer the current choice
+const listTimeZones = (current: string): string[] => {
+  const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  return zones.includes(current) ? zones : [current, ...zones];
+};
+
+const formatResetHour = (hour: number): string => {
+  const suffix = hour < 12 ? 'AM' : 'PM';
+  return `${hour % 12 === 0 ? 12 : hour % 12}:00 ${suffix}`;
+};
 
 const Settings: React.FC = () => {
   const router = useRouter();
-  const { user, userData, logout, updateUserProfile } = useAuth();
+  const { user, userData, logout, updateUserProfile, refreshUserData } = useAuth();
   
   // profile information
   const [displayName, setDisplayName] = useState('');
@@ -33,6 +62,10 @@ const Settings: React.FC = () => {
   const [profileVisibility, setProfileVisibility] = useState('public');
   const [showActivity, setShowActivity] = useState(true);
   
+  // daily reset
+  const [resetTimeZone, setResetTimeZone] = useState('');
+  const [resetHour, setResetHour] = useState(9);
+  
   // loading & error states
   const [isSaving, setIsSaving] = useState(false);
   const [errorMessage, setErrorMessage] = useState('');
@@ -54,9 +87,27 @@ const Settings: React.FC = () => {
       // initialize privacy settings
       setProfileVisibility(userData.settings?.profileVisibility || 'public');
       setShowActivity(userData.settings?.showActivity ?? true);
+      
+      // initialize daily reset
+      const schedule = resolveResetSchedule(userData);
+      setResetTimeZone(schedule.timeZone);
+      setResetHour(schedule.resetHour);
     }
   }, [userData, user]);
   
+  // show how the spotify connect flow ended, then drop it from the url
+  useEffect(() => {
+    const { success, error } = router.query;
+    if (typeof success === 'string' && SPOTIFY_CONNECT_MESSAGES[success]) {
+      setSuccessMessage(SPOTIFY_CONNECT_MESSAGES[success]);
+    } else if (typeof error === 'string') {
+      setErrorMessage(SPOTIFY_CONNECT_MESSAGES[error] || 'Spotify connection failed. Please try again.');
+    } else {
+      return;
+    }
+    router.replace('/settings', undefined, { shallow: true });
+  }, [router.query]);
+
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file || !user) return;
@@ -153,6 +204,35 @@ const Settings: React.FC = () => {
     }
   };
   
+  const handleSaveResetSchedule = async () => {
+    if (!user) return;
+    
+    if (!isValidTimeZone(resetTimeZone) || !isValidResetHour(resetHour)) {
+      setErrorMessage('Please choose a valid timezone and reset time');
+      return;
+    }
+    
+    setIsSaving(true);
+    setErrorMessage('');
+    setSuccessMessage('');
+    
+    try {
+      const schedule = await saveResetSchedule({ timeZone: resetTimeZone, resetHour });
+      await refreshUserData();
+      
+      const nextReset = getNextResetTime(schedule).toLocaleString([], { weekday: 'short', hour: 'numeric', minute: '2-digit' });
+      setSuccessMessage(`Daily reset updated. Your next window opens ${nextReset}`);
+    } catch (error) {
+      if (error instanceof ResetScheduleCooldownError) {
+        setErrorMessage(`You can only change your daily reset once a week. Try again after ${error.nextChangeAt.toLocaleDateString()}.`);
+      } else {
+        setErrorMessage('Failed to update daily reset');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+  
   const handleSaveNotifications = async () => {
     if (!user) return;
     
@@ -373,6 +453,55 @@ const Settings: React.FC = () => {
                 </button>
               </div>
               
+              <div className="mt-8 pt-6 border-t border-gray-200 dark:border-dark-300">
+                <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-1">
+                  Daily Reset
+                </h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                  When your day starts - you can share one song per day. This can be changed once a week.
+                </p>
+                
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Timezone
+                    </label>
+                    <select
+                      value={resetTimeZone}
+                      onChange={(e) => setResetTimeZone(e.target.value)}
+                      className="w-full p-2 border border-gray-300 dark:border-dark-400 rounded-md bg-white dark:bg-dark-100 text-gray-900 dark:text-white"
+                    >
+                      {resetTimeZone && listTimeZones(resetTimeZone).map(zone => (
+                        <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+                      ))}
+                    </select>
+                  </div>
+                  
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Reset Time
+                    </label>
+                    <select
+                      value={resetHour}
+                      onChange={(e) => setResetHour(parseInt(e.target.value, 10))}
+                      className="w-full p-2 border border-gray-300 dark:border-dark-400 rounded-md bg-white dark:bg-dark-100 text-gray-900 dark:text-white"
+                    >
+                      {Array.from({ length: 24 }, (_, hour) => (
+                        <option key={hour} value={hour}>{formatResetHour(hour)}</option>
+                      ))}
+                    </select>
+                  </div>
+                  
+                  <button
+                    onClick={handleSaveResetSchedule}
+                    disabled={isSaving}
+                    className="w-full py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isSaving ? 'Saving...' : 'Save Daily Reset'}
+                  </button>
+                </div>
+              </div>
+              
               <div className="mt-8 pt-6 border-t border-gray-200 dark:border-dark-300">
                 <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
                   Connected Music Services
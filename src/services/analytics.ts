@@ -12,6 +12,7 @@ import {
 } from 'firebase/firestore';
 import { db } from '@/services/firebase';
 import { getPacificTime } from './timeUtils';
+import { songIdentityKey } from './trackIdentity';
 
 // user engagement tracking and insights generation
 
@@ -51,6 +52,7 @@ export interface EngagementMetrics {
 
 export interface MusicPreferenceInsights {
   topGenres: { genre: string; count: number }[];
+  repeatedSongs?: { title: string; artist: string; count: number }[]; // recordings posted more than once
   avgAudioFeatures: {
     valence: number;    // happiness level
     energy: number;     // energy level
@@ -353,6 +355,7 @@ const generateMusicInsights = async (userId: string, posts: any[], engagement: a
   const genres: string[] = [];
   const audioFeatures: any[] = [];
   const moodProgression: any[] = [];
+  const songCounts = new Map<string, { title: string; artist: string; count: number }>();
 
 
   posts.forEach(post => {
@@ -362,6 +365,14 @@ const generateMusicInsights = async (userId: string, posts: any[], engagement: a
     if (post.song?.audioFeatures) {
       audioFeatures.push(post.song.audioFeatures);
     }
+
+    // the same recording counts once, whichever catalog or edition it was posted from
+    const songKey = songIdentityKey(post);
+    if (songKey) {
+      const song = songCounts.get(songKey) || { title: post.song?.title || post.songTitle, artist: post.song?.artist || post.songArtist, count: 0 };
+      song.count++;
+      songCounts.set(songKey, song);
+    }
     
     // track mood progression
     moodProgression.push({
@@ -406,8 +417,13 @@ const generateMusicInsights = async (userId: string, posts: any[], engagement: a
     };
   }
 
+  const repeatedSongs = Array.from(songCounts.values())
+    .filter(song => song.count > 1)
+    .sort((a, b) => b.count - a.count);
+
   return {
     topGenres,
+    repeatedSongs,
     avgAudioFeatures,
     moodProgression: moodProgression.map(item => ({
       date: item.date,
@@ -461,6 +477,11 @@ const generateInsights = (
     insights.push(`You gravitated toward high-energy tracks during ${timeContext} - ${isCurrentWeek ? "perfect for staying motivated!" : "a high-energy period in your listening history!"}`);
   }
 
+  const favouriteSong = musicInsights.repeatedSongs?.[0];
+  if (favouriteSong) {
+    insights.push(`You shared "${favouriteSong.title}" by ${favouriteSong.artist} ${favouriteSong.count} times during ${timeContext} - it clearly means something to you.`);
+  }
+
   // match insights with time context
   if (engagement.matchesReceived > 0) {
     insights.push(`You made ${engagement.matchesReceived} new connection${engagement.matchesReceived === 1 ? '' : 's'} during ${timeContext} through shared music taste!`);
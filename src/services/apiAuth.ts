@@ -0,0 +1,49 @@
+// request checks shared by api routes: signed-in firebase users and scheduled jobs
+import { NextApiRequest, NextApiResponse } from 'next';
+import { adminAuth } from './firebaseAdmin';
+
+/**
+ * the uid behind the request's `Bearer <firebase id token>` header. answers 401 and
+ * returns null when the token is missing or doesn't verify
+ */
+export const requireFirebaseUser = async (req: NextApiRequest, res: NextApiResponse): Promise<string | null> => {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return null;
+  }
+
+  try {
+    return (await adminAuth.verifyIdToken(authHeader.split('Bearer ')[1])).uid;
+  } catch (error) {
+    console.error('Error verifying Firebase token:', error);
+    res.status(401).json({ error: 'Unauthorized' });
+    return null;
+  }
+};
+
+/**
+ * lets a scheduled job run: GET from schedulers or POST for manual runs, with
+ * `Bearer ${CRON_SECRET}`. answers 405, 500 or 401 and returns false otherwise.
+ * `job` names the job in the log when the secret isn't configured
+ */
+export const requireCronSecret = (req: NextApiRequest, res: NextApiResponse, job: string): boolean => {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return false;
+  }
+
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error(`CRON_SECRET is not configured - refusing to ${job}`);
+    res.status(500).json({ error: 'Scheduled jobs are not configured' });
+    return false;
+  }
+
+  if (req.headers.authorization !== `Bearer ${cronSecret}`) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return false;
+  }
+
+  return true;
+};
@@ -0,0 +1,276 @@
+// signal-level estimates of tempo, energy, brightness and mood from decoded audio
+
+export interface AnalyzedAudioFeatures {
+  valence: number;      // 0-1 positivity proxy from mode, brightness, tempo and energy
+  energy: number;       // 0-1 from loudness and onset density
+  danceability: number; // 0-1 from beat regularity and tempo
+  acousticness: number; // 0-1, high for dark, low-onset, less compressed audio
+  tempo: number;        // BPM
+  loudness: number;     // mean RMS level in dBFS
+  key: number;          // 0-11 pitch class, C = 0
+  mode: number;         // 1 major, 0 minor
+  duration_ms: number;  // length of the analyzed clip
+}
+
+const FRAME_SIZE = 2048;
+const HOP_SIZE = 512;
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+
+// krumhansl-kessler key profiles, starting at the tonic
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+const clamp01 = (value: number): number => Math.max(0, Math.min(1, value));
+
+/**
+ * maps `value` from [low, high] onto [0, 1]
+ */
+const scale = (value: number, low: number, high: number): number => clamp01((value - low) / (high - low));
+
+/**
+ * averages every channel into one
+ */
+export const mixToMono = (channels: Float32Array[]): Float32Array => {
+  if (channels.length === 1) return channels[0];
+
+  const length = Math.min(...channels.map(channel => channel.length));
+  const mono = new Float32Array(length);
+  channels.forEach(channel => {
+    for (let i = 0; i < length; i++) mono[i] += channel[i] / channels.length;
+  });
+  return mono;
+};
+
+/**
+ * in-place iterative radix-2 fft; `real` and `imag` must be a power of two long
+ */
+const fft = (real: Float64Array, imag: Float64Array): void => {
+  const n = real.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const stepReal = Math.cos(angle);
+    const stepImag = Math.sin(angle);
+
+    for (let start = 0; start < n; start += size) {
+      let wReal = 1;
+      let wImag = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const even = start + k;
+        const odd = even + size / 2;
+        const tReal = wReal * real[odd] - wImag * imag[odd];
+        const tImag = wReal * imag[odd] + wImag * real[odd];
+        real[odd] = real[even] - tReal;
+        imag[odd] = imag[even] - tImag;
+        real[even] += tReal;
+        imag[even] += tImag;
+        const nextReal = wReal * stepReal - wImag * stepImag;
+        wImag = wReal * stepImag + wImag * stepReal;
+        wReal = nextReal;
+      }
+    }
+  }
+};
+
+/**
+ * strongest periodicity of the onset envelope between MIN_BPM and MAX_BPM.
+ * returns the tempo and how pronounced the beat is (0-1)
+ */
+const estimateTempo = (onsets: number[], framesPerSecond: number): { tempo: number; beatStrength: number } => {
+  // blur the envelope a little so beats that fall between frames still line up across lags
+  const smoothed = onsets.map((value, i) => 0.25 * (onsets[i - 1] ?? value) + 0.5 * value + 0.25 * (onsets[i + 1] ?? value));
+  const mean = smoothed.reduce((total, value) => total + value, 0) / Math.max(smoothed.length, 1);
+  const centered = smoothed.map(value => value - mean);
+  const zeroLag = centered.reduce((total, value) => total + value * value, 0);
+  if (zeroLag === 0) return { tempo: 120, beatStrength: 0 };
+
+  const minLag = Math.max(1, Math.floor((60 / MAX_BPM) * framesPerSecond));
+  const maxLag = Math.min(centered.length - 1, Math.ceil((60 / MIN_BPM) * framesPerSecond));
+
+  let bestLag = minLag;
+  let bestScore = -Infinity;
+  let bestCorrelation = 0;
+
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let correlation = 0;
+    for (let i = lag; i < centered.length; i++) correlation += centered[i] * centered[i - lag];
+    correlation /= zeroLag;
+
+    // gently prefer tempos near 120 bpm so half/double-time peaks don't win on ties
+    const bpm = (60 * framesPerSecond) / lag;
+    const weighted = correlation * Math.exp(-0.5 * Math.pow(Math.log2(bpm / 120) / 1.2, 2));
+
+    if (weighted > bestScore) {
+      bestScore = weighted;
+      bestLag = lag;
+      bestCorrelation = correlation;
+    }
+  }
+
+  return {
+    tempo: (60 * framesPerSecond) / bestLag,
+    beatStrength: clamp01(bestCorrelation)
+  };
+};
+
+/**
+ * best-matching key and mode for a 12-bin chroma vector; `confidence` is how far
+ * the winning mode beats the other one
+ */
+const estimateKey = (chroma: number[]): { key: number; mode: number; confidence: number } => {
+  const correlate = (profile: number[], tonic: number): number => {
+    const rotated = chroma.map((_, pitch) => profile[(pitch - tonic + 12) % 12]);
+    const meanA = chroma.reduce((total, value) => total + value, 0) / 12;
+    const meanB = rotated.reduce((total, value) => total + value, 0) / 12;
+    let numerator = 0;
+    let denomA = 0;
+    let denomB = 0;
+    for (let i = 0; i < 12; i++) {
+      numerator += (chroma[i] - meanA) * (rotated[i] - meanB);
+      denomA += Math.pow(chroma[i] - meanA, 2);
+      denomB += Math.pow(rotated[i] - meanB, 2);
+    }
+    return denomA > 0 && denomB > 0 ? numerator / Math.sqrt(denomA * denomB) : 0;
+  };
+
+  let best = { key: 0, mode: 1, score: -Infinity };
+  let bestMajor = -Infinity;
+  let bestMinor = -Infinity;
+
+  for (let tonic = 0; tonic < 12; tonic++) {
+    const major = correlate(MAJOR_PROFILE, tonic);
+    const minor = correlate(MINOR_PROFILE, tonic);
+    bestMajor = Math.max(bestMajor, major);
+    bestMinor = Math.max(bestMinor, minor);
+    if (major > best.score) best = { key: tonic, mode: 1, score: major };
+    if (minor > best.score) best = { key: tonic, mode: 0, score: minor };
+  }
+
+  return { key: best.key, mode: best.mode, confidence: clamp01(Math.abs(bestMajor - bestMinor) * 5) };
+};
+
+/**
+ * estimates spotify-style audio features from mono pcm samples in [-1, 1]
+ */
+export const analyzeAudioSamples = (samples: Float32Array, sampleRate: number): AnalyzedAudioFeatures => {
+  const frameCount = Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1;
+  if (frameCount < 8) {
+    throw new Error('Audio clip is too short to analyze');
+  }
+
+  const window = new Float64Array(FRAME_SIZE);
+  for (let i = 0; i < FRAME_SIZE; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1));
+
+  const binHz = sampleRate / FRAME_SIZE;
+  const bins = FRAME_SIZE / 2;
+  const real = new Float64Array(FRAME_SIZE);
+  const imag = new Float64Array(FRAME_SIZE);
+  let previousMagnitudes = new Float64Array(bins);
+
+  const rmsLevels: number[] = [];
+  const onsets: number[] = [];
+  const chroma = new Array(12).fill(0);
+  let centroidTotal = 0;
+  let highBandTotal = 0;
+  let spectralWeight = 0;
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const offset = frame * HOP_SIZE;
+    let sumSquares = 0;
+
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      const sample = samples[offset + i];
+      sumSquares += sample * sample;
+      real[i] = sample * window[i];
+      imag[i] = 0;
+    }
+    const rms = Math.sqrt(sumSquares / FRAME_SIZE);
+    rmsLevels.push(rms);
+
+    fft(real, imag);
+
+    const magnitudes = new Float64Array(bins);
+    let magnitudeTotal = 0;
+    let weightedFrequency = 0;
+    let highBand = 0;
+    let flux = 0;
+
+    for (let bin = 1; bin < bins; bin++) {
+      const magnitude = Math.sqrt(real[bin] * real[bin] + imag[bin] * imag[bin]);
+      const frequency = bin * binHz;
+      magnitudes[bin] = magnitude;
+      magnitudeTotal += magnitude;
+      weightedFrequency += magnitude * frequency;
+      if (frequency > 4000) highBand += magnitude;
+
+      // half-wave rectified log spectral flux drives onset detection
+      flux += Math.max(0, Math.log1p(magnitude) - Math.log1p(previousMagnitudes[bin]));
+
+      // fold the musically useful range onto pitch classes
+      if (frequency >= 55 && frequency <= 2000) {
+        const pitchClass = ((Math.round(12 * Math.log2(frequency / 440)) % 12) + 12 + 9) % 12;
+        chroma[pitchClass] += magnitude * magnitude;
+      }
+    }
+
+    onsets.push(flux);
+    previousMagnitudes = magnitudes;
+
+    // quiet frames say little about timbre, so weight by loudness
+    if (magnitudeTotal > 0) {
+      centroidTotal += (weightedFrequency / magnitudeTotal) * rms;
+      highBandTotal += (highBand / magnitudeTotal) * rms;
+      spectralWeight += rms;
+    }
+  }
+
+  const meanRms = rmsLevels.reduce((total, value) => total + value, 0) / rmsLevels.length;
+  const loudness = 20 * Math.log10(Math.max(meanRms, 1e-6));
+
+  // crest of the loudness curve: heavily compressed, electric mixes stay flat
+  const sortedRms = [...rmsLevels].sort((a, b) => a - b);
+  const quietRms = sortedRms[Math.floor(sortedRms.length * 0.1)];
+  const loudRms = sortedRms[Math.floor(sortedRms.length * 0.9)];
+  const dynamicRange = 20 * Math.log10(Math.max(loudRms, 1e-6) / Math.max(quietRms, 1e-6));
+
+  const centroid = spectralWeight > 0 ? centroidTotal / spectralWeight : 0;
+  const highBandRatio = spectralWeight > 0 ? highBandTotal / spectralWeight : 0;
+
+  const framesPerSecond = sampleRate / HOP_SIZE;
+  const onsetMean = onsets.reduce((total, value) => total + value, 0) / onsets.length;
+  const onsetDensity = onsets.filter(value => value > onsetMean * 1.5).length / (onsets.length / framesPerSecond);
+
+  const { tempo, beatStrength } = estimateTempo(onsets, framesPerSecond);
+  const { key, mode, confidence } = estimateKey(chroma);
+
+  const brightness = scale(centroid, 800, 3500);
+  const energy = clamp01(0.6 * scale(loudness, -30, -8) + 0.25 * scale(onsetDensity, 1, 6) + 0.15 * scale(highBandRatio, 0.05, 0.3));
+  const acousticness = clamp01(0.45 * (1 - brightness) + 0.3 * scale(dynamicRange, 4, 18) + 0.25 * (1 - scale(highBandRatio, 0.05, 0.3)));
+  const tempoFit = Math.exp(-0.5 * Math.pow((tempo - 118) / 22, 2));
+  const danceability = clamp01(0.55 * beatStrength + 0.3 * tempoFit + 0.15 * energy);
+  const modeScore = 0.5 + (mode === 1 ? 0.5 : -0.5) * confidence;
+  const valence = clamp01(0.35 * modeScore + 0.25 * brightness + 0.2 * scale(tempo, 70, 150) + 0.2 * energy);
+
+  return {
+    valence,
+    energy,
+    danceability,
+    acousticness,
+    tempo: Math.round(tempo * 10) / 10,
+    loudness: Math.round(loudness * 10) / 10,
+    key,
+    mode,
+    duration_ms: Math.round((samples.length / sampleRate) * 1000)
+  };
+};
@@ -0,0 +1,70 @@
+// questionnaire-driven taste profile for users who haven't swiped enough to have one
+import { UserProfile } from './matchScoring';
+import { AudioFeatureVector, isAudioFeatureVector } from './tasteProfile';
+import { tokenizeMusicText } from './textSimilarity';
+import { normalizeGenre } from './genreTaxonomy';
+
+// where a playlist tagged with each onboarding mood usually sits
+const MOOD_AUDIO_TARGETS: { [mood: string]: AudioFeatureVector } = {
+  energetic: { valence: 0.7, energy: 0.9, danceability: 0.8, acousticness: 0.1, tempo: 140 },
+  chill: { valence: 0.55, energy: 0.3, danceability: 0.45, acousticness: 0.5, tempo: 95 },
+  nostalgic: { valence: 0.45, energy: 0.5, danceability: 0.5, acousticness: 0.5, tempo: 110 },
+  happy: { valence: 0.85, energy: 0.75, danceability: 0.75, acousticness: 0.2, tempo: 125 },
+  sad: { valence: 0.15, energy: 0.35, danceability: 0.35, acousticness: 0.45, tempo: 95 },
+  focused: { valence: 0.45, energy: 0.4, danceability: 0.4, acousticness: 0.55, tempo: 100 },
+  romantic: { valence: 0.65, energy: 0.45, danceability: 0.6, acousticness: 0.4, tempo: 105 },
+  party: { valence: 0.8, energy: 0.9, danceability: 0.9, acousticness: 0.05, tempo: 125 }
+};
+
+const NEUTRAL_AUDIO_TARGET: AudioFeatureVector = { valence: 0.5, energy: 0.6, danceability: 0.6, acousticness: 0.3, tempo: 120 };
+
+// how the favourite genre nudges the target, applied on top of the mood target
+const GENRE_AUDIO_SHIFTS: { [genre: string]: Partial<AudioFeatureVector> } = {
+  pop: { danceability: 0.05, valence: 0.05 },
+  rock: { energy: 0.1, acousticness: -0.1 },
+  hiphop: { danceability: 0.1, acousticness: -0.1 },
+  rnb: { danceability: 0.05, energy: -0.05 },
+  electronic: { danceability: 0.1, energy: 0.1, acousticness: -0.2 },
+  classical: { energy: -0.2, danceability: -0.2, acousticness: 0.3 },
+  jazz: { acousticness: 0.2, energy: -0.1 },
+  folk: { acousticness: 0.25, energy: -0.1 },
+  indie: { acousticness: 0.1 }
+};
+
+const answered = (value?: string): value is string => !!value && value !== 'undisclosed';
+
+/**
+ * true when the user has no learned audio preferences to rank with yet
+ */
+export const isColdStartUser = (user: UserProfile): boolean => {
+  return !isAudioFeatureVector(user.musicPreferences?.audioFeatures);
+};
+
+/**
+ * best guess at a user's music preferences from their onboarding answers:
+ * the preferred mood tag sets the audio target, the favourite genre nudges it,
+ * and genre words in the free-text answers seed the genre list
+ */
+export const deriveColdStartPreferences = (questionnaire?: UserProfile['questionnaire']): NonNullable<UserProfile['musicPreferences']> => {
+  const moodTag = answered(questionnaire?.preferredMoodTag) ? questionnaire!.preferredMoodTag.toLowerCase() : '';
+  const target: AudioFeatureVector = { ...(MOOD_AUDIO_TARGETS[moodTag] || NEUTRAL_AUDIO_TARGET) };
+
+  const genreTerms = tokenizeMusicText([
+    answered(questionnaire?.moodGenre) ? questionnaire!.moodGenre : '',
+    answered(questionnaire?.weekendSoundtrack) ? questionnaire!.weekendSoundtrack : ''
+  ].join(' '));
+  const genres = Array.from(new Set(genreTerms.filter(term => GENRE_AUDIO_SHIFTS[term] !== undefined)));
+
+  // the multiple-choice genre is the first term, so it's the one that shifts the target
+  const shift = genres.length > 0 ? GENRE_AUDIO_SHIFTS[genres[0]] : {};
+  (Object.keys(shift) as Array<keyof AudioFeatureVector>).forEach(key => {
+    target[key] = Math.max(0, Math.min(1, target[key] + (shift[key] || 0)));
+  });
+
+  return {
+    // spelled the way post genres are, so "hiphop" here matches "hip hop" on posts
+    genres: genres.map(normalizeGenre),
+    moodTags: moodTag ? [moodTag] : [],
+    audioFeatures: target
+  };
+};
@@ -0,0 +1,281 @@
+// threaded post comments: replies one level deep, author edits and deletes, and emoji reactions
+import {
+  collection,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  increment,
+  arrayUnion,
+  arrayRemove,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { createUserProfileLoader } from './documentLoader';
+import { getPacificTime } from './timeUtils';
+
+// the reactions a comment can get, by the key stored under `reactions`
+export const COMMENT_REACTIONS = {
+  heart: '❤️',
+  fire: '🔥',
+  laugh: '😂',
+  wow: '😮',
+  music: '🎵'
+} as const;
+
+export type CommentReaction = keyof typeof COMMENT_REACTIONS;
+
+export interface Comment {
+  id: string;
+  postId: string;
+  parentId: string | null; // the top-level comment this replies to
+  userId: string;
+  userDisplayName: string; // copied from the author when posted, so threads load without user reads
+  userPhotoURL: string;
+  content: string;
+  createdAt: Date;
+  editedAt?: Date;
+  deleted?: boolean;       // removed by its author but kept because it has replies
+  reactions: { [reaction in CommentReaction]?: string[] }; // user ids per reaction
+}
+
+export interface ThreadedComment extends Comment {
+  replies: Comment[];
+}
+
+const toComment = (id: string, data: any): Comment => ({
+  id,
+  postId: data.postId,
+  parentId: data.parentId || null,
+  userId: data.userId,
+  userDisplayName: data.userDisplayName || '',
+  userPhotoURL: data.userPhotoURL || '',
+  content: data.deleted ? '' : data.content,
+  createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(data.createdAt),
+  editedAt: data.editedAt?.toDate ? data.editedAt.toDate() : undefined,
+  deleted: !!data.deleted,
+  reactions: data.reactions || {}
+});
+
+/**
+ * groups comments into top-level threads with their replies, both oldest first.
+ * replies whose parent is gone are shown as top-level comments
+ */
+export const buildCommentThreads = (comments: Comment[]): ThreadedComment[] => {
+  const byTime = (a: Comment, b: Comment) => a.createdAt.getTime() - b.createdAt.getTime();
+  const topLevelIds = new Set(comments.filter(comment => !comment.parentId).map(comment => comment.id));
+
+  const threads = new Map<string, ThreadedComment>();
+  comments
+    .filter(comment => !comment.parentId || !topLevelIds.has(comment.parentId))
+    .sort(byTime)
+    .forEach(comment => threads.set(comment.id, { ...comment, replies: [] }));
+
+  comments
+    .filter(comment => comment.parentId && topLevelIds.has(comment.parentId))
+    .sort(byTime)
+    .forEach(reply => threads.get(reply.parentId as string)?.replies.push(reply));
+
+  return Array.from(threads.values());
+};
+
+/**
+ * add a comment to a post, or a reply when `parentId` is given. replies to a reply
+ * go on the same thread, so nesting stays one level deep
+ */
+export const addComment = async (
+  postId: string,
+  userId: string,
+  content: string,
+  parentId: string | null = null
+): Promise<Comment> => {
+  try {
+    let threadId: string | null = null;
+    if (parentId) {
+      const parentDoc = await getDoc(doc(db, 'comments', parentId));
+      if (!parentDoc.exists() || parentDoc.data().postId !== postId) {
+        throw new Error('The comment you are replying to no longer exists');
+      }
+      threadId = parentDoc.data().parentId || parentId;
+    }
+
+    const authorDoc = await getDoc(doc(db, 'users', userId));
+    const author = authorDoc.data();
+
+    const commentData = {
+      postId,
+      parentId: threadId,
+      userId,
+      userDisplayName: author?.displayName || 'Anonymous',
+      userPhotoURL: author?.photoURL || '',
+      content,
+      reactions: {},
+      createdAt: Timestamp.fromDate(getPacificTime())
+    };
+    const commentRef = await addDoc(collection(db, 'comments'), commentData);
+
+    // update post comment count
+    await updateDoc(doc(db, 'posts', postId), {
+      comments: increment(1)
+    });
+
+    return toComment(commentRef.id, commentData);
+  } catch (error) {
+    console.error('Error adding comment:', error);
+    throw error;
+  }
+};
+
+/**
+ * get a post's comments as threads, in one query. comments from before author info
+ * was stored on them get it from one batched read of their authors
+ */
+export const getPostComments = async (postId: string): Promise<ThreadedComment[]> => {
+  try {
+    const commentsSnapshot = await getDocs(query(
+      collection(db, 'comments'),
+      where('postId', '==', postId),
+      orderBy('createdAt', 'asc')
+    ));
+
+    const comments = commentsSnapshot.docs.map(commentDoc => ({
+      comment: toComment(commentDoc.id, commentDoc.data()),
+      hasAuthor: commentDoc.data().userDisplayName !== undefined
+    }));
+
+    const legacy = comments.filter(entry => !entry.hasAuthor);
+    if (legacy.length > 0) {
+      const authors = await createUserProfileLoader().loadMany(legacy.map(entry => entry.comment.userId));
+      legacy.forEach((entry, index) => {
+        entry.comment.userDisplayName = authors[index]?.displayName || 'Anonymous';
+        entry.comment.userPhotoURL = authors[index]?.photoURL || '';
+      });
+    }
+
+    return buildCommentThreads(comments.map(entry => entry.comment));
+  } catch (error) {
+    console.error('Error fetching comments:', error);
+    throw error;
+  }
+};
+
+/**
+ * reads a comment and checks `userId` wrote it
+ */
+const getOwnComment = async (commentId: string, userId: string): Promise<any> => {
+  const commentDoc = await getDoc(doc(db, 'comments', commentId));
+  if (!commentDoc.exists()) {
+    throw new Error('Comment not found');
+  }
+  if (commentDoc.data().userId !== userId) {
+    throw new Error('You can only change your own comments');
+  }
+  return commentDoc.data();
+};
+
+/**
+ * change the text of the user's own comment
+ */
+export const editComment = async (commentId: string, userId: string, content: string): Promise<void> => {
+  try {
+    const commentData = await getOwnComment(commentId, userId);
+    if (commentData.deleted) {
+      throw new Error('Deleted comments cannot be edited');
+    }
+
+    await updateDoc(doc(db, 'comments', commentId), {
+      content,
+      editedAt: Timestamp.fromDate(getPacificTime())
+    });
+  } catch (error) {
+    console.error('Error editing comment:', error);
+    throw error;
+  }
+};
+
+/**
+ * whether any replies hang off a top-level comment
+ */
+const hasReplies = async (postId: string, commentId: string): Promise<boolean> => {
+  const repliesSnapshot = await getDocs(query(
+    collection(db, 'comments'),
+    where('postId', '==', postId),
+    where('parentId', '==', commentId),
+    limit(1)
+  ));
+  return !repliesSnapshot.empty;
+};
+
+/**
+ * delete the user's own comment. a comment with replies is blanked instead, so the
+ * replies keep their thread; it goes for good once its last reply is deleted.
+ * returns true when the comment was removed entirely
+ */
+export const deleteComment = async (commentId: string, userId: string): Promise<boolean> => {
+  try {
+    const commentData = await getOwnComment(commentId, userId);
+    if (commentData.deleted) return false;
+
+    const commentRef = doc(db, 'comments', commentId);
+    const postRef = doc(db, 'posts', commentData.postId);
+
+    if (!commentData.parentId && await hasReplies(commentData.postId, commentId)) {
+      await updateDoc(commentRef, { content: '', deleted: true, reactions: {} });
+      await updateDoc(postRef, { comments: increment(-1) });
+      return false;
+    }
+
+    await deleteDoc(commentRef);
+    await updateDoc(postRef, { comments: increment(-1) });
+
+    // a blanked parent has nothing left to hold up once its replies are gone
+    if (commentData.parentId) {
+      const parentRef = doc(db, 'comments', commentData.parentId);
+      const parentDoc = await getDoc(parentRef);
+      if (parentDoc.exists() && parentDoc.data().deleted && !await hasReplies(commentData.postId, commentData.parentId)) {
+        await deleteDoc(parentRef);
+      }
+    }
+    return true;
+  } catch (error) {
+    console.error('Error deleting comment:', error);
+    throw error;
+  }
+};
+
+/**
+ * add the user's reaction to a comment, or take it back if they already reacted that way.
+ * returns whether they are now reacting
+ */
+export const toggleCommentReaction = async (
+  commentId: string,
+  userId: string,
+  reaction: CommentReaction
+): Promise<boolean> => {
+  if (!(reaction in COMMENT_REACTIONS)) {
+    throw new Error(`Unknown reaction ${reaction}`);
+  }
+
+  try {
+    const commentRef = doc(db, 'comments', commentId);
+    const commentDoc = await getDoc(commentRef);
+    if (!commentDoc.exists()) {
+      throw new Error('Comment not found');
+    }
+
+    const reacted = (commentDoc.data().reactions?.[reaction] || []).includes(userId);
+    await updateDoc(commentRef, {
+      [`reactions.${reaction}`]: reacted ? arrayRemove(userId) : arrayUnion(userId)
+    });
+    return !reacted;
+  } catch (error) {
+    console.error('Error reacting to comment:', error);
+    throw error;
+  }
+};
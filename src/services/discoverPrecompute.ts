@@ -0,0 +1,212 @@
+// server job that ranks each user's discover candidates once per daily reset window
+import { FieldPath, Firestore, QueryDocumentSnapshot, QuerySnapshot, Timestamp } from 'firebase-admin/firestore';
+import { getLivePostsSince, isPostLive } from './postLifecycle';
+import { resolveResetSchedule } from './resetSchedule';
+import { getLastResetTime, getPacificTime, getResetWindowKey } from './timeUtils';
+import { UserProfile } from './matchScoring';
+import { CandidatePost, DISCOVER_POOL_SIZE, rankDiscoverCandidates, serializeDiscoverPool } from './discoverRanking';
+import { TasteEvent, TasteSeed, computeTasteProfile, selectRecentSwipes, toTasteEvent, toTasteSeed } from './tasteProfile';
+import { TrackRecord, applyTrackRecord, trackIdOf } from './trackRecords';
+import { loadTrackRecords } from './tracksAdmin';
+
+// users read, and pools built side by side, at a time when rebuilding everyone
+const USERS_PAGE_SIZE = 100;
+
+export interface PrecomputeOptions {
+  userIds?: string[]; // only rebuild these users' pools; every user when omitted
+}
+
+export interface PrecomputeSummary {
+  windowKeys: string[]; // every window a pool was built for; users' schedules differ
+  candidatePosts: number;
+  pools: number;
+  failed: string[];
+}
+
+interface PrecomputeContext {
+  now: Date;
+  posts: CandidatePost[]; // everything that could be in any user's current window
+  authors: Map<string, any>;
+  tracks: Map<string, TrackRecord>;
+}
+
+/**
+ * rebuilds the user's taste profile from their swipes and listening seed, the same way
+ * the browser does, so pooled rankings use up-to-date preferences. returns the stored preferences
+ */
+const refreshTasteProfile = async (
+  db: Firestore,
+  userId: string,
+  swipeDocs: any[],
+  seed: TasteSeed | null
+): Promise<UserProfile['musicPreferences'] | null> => {
+  const swipes = selectRecentSwipes(swipeDocs);
+  if (!swipes.some(swipe => swipe.direction === 'right')) return null;
+
+  const postDocs = await db.getAll(...swipes.map(swipe => db.collection('posts').doc(swipe.postId)));
+
+  const swipedPosts = postDocs.map(postDoc => (postDoc.exists ? postDoc.data() : null));
+  const tracks = await loadTrackRecords(db, swipedPosts.filter(Boolean));
+
+  const events: TasteEvent[] = [];
+  swipes.forEach((swipe, index) => {
+    const postData = swipedPosts[index];
+    if (!postData) return;
+    const trackId = trackIdOf(postData);
+    events.push(toTasteEvent(swipe, applyTrackRecord(postData, trackId ? tracks.get(trackId) : null)));
+  });
+
+  const preferences = computeTasteProfile(events, { seed });
+  await db.collection('users').doc(userId).update({
+    musicPreferences: preferences,
+    lastPreferencesUpdate: getPacificTime()
+  });
+
+  return preferences;
+};
+
+/**
+ * ranks today's posts for one user and stores the result in `discoverPools/{userId}`
+ */
+const precomputeUserPool = async (db: Firestore, userId: string, userData: any, context: PrecomputeContext): Promise<string> => {
+  const resetSchedule = resolveResetSchedule(userData);
+  const windowKey = getResetWindowKey(resetSchedule, context.now);
+  const lastReset = getLastResetTime(resetSchedule, context.now).getTime();
+  const posts = context.posts.filter(post => {
+    const createdAt = post.data.createdAt;
+    return (createdAt?.toDate ? createdAt.toDate() : new Date(createdAt)).getTime() > lastReset
+      && isPostLive(post.data, context.now);
+  });
+
+
+  const [swipesSnapshot, matchesSnapshot] = await Promise.all([
+    db.collection('swipes').where('swiperId', '==', userId).get(),
+    db.collection('matches').where('userIds', 'array-contains', userId).get()
+  ]);
+
+  const swipeDocs = swipesSnapshot.docs.map(swipeDoc => swipeDoc.data());
+  const swipedPostIds = swipeDocs.map(swipe => swipe.postId);
+
+  const matchedUserIds: string[] = [];
+  matchesSnapshot.forEach(matchDoc => {
+    const otherUserId = (matchDoc.data().userIds || []).find((id: string) => id !== userId);
+    if (otherUserId) matchedUserIds.push(otherUserId);
+  });
+
+  const currentUser: UserProfile = { uid: userId, ...userData } as UserProfile;
+
+  const preferences = await refreshTasteProfile(db, userId, swipeDocs, toTasteSeed(userData.listeningSeed));
+  if (preferences) currentUser.musicPreferences = preferences;
+
+  const { ranked, rankingConfig, experiment, coldStart } = rankDiscoverCandidates({
+    currentUser,
+    posts,
+    authors: context.authors,
+    excludedUserIds: Array.from(new Set([...(currentUser.friends || []), ...matchedUserIds])),
+    swipedPostIds,
+    tracks: context.tracks
+  });
+
+  await db.collection('discoverPools').doc(userId).set(serializeDiscoverPool({
+    userId,
+    windowKey,
+    resetSchedule,
+    generatedAt: new Date().toISOString(),
+    rankingConfig,
+    experiment,
+    coldStart,
+    posts: ranked.slice(0, DISCOVER_POOL_SIZE)
+  }));
+
+  console.log(` Stored discover pool for ${userId} (window ${windowKey}): ${Math.min(ranked.length, DISCOVER_POOL_SIZE)} of ${ranked.length} ranked posts`);
+  return windowKey;
+};
+
+/**
+ * the user documents with these ids, skipping any that don't exist
+ */
+const loadUsers = async (db: Firestore, ids: string[]): Promise<Map<string, any>> => {
+  const users = new Map<string, any>();
+  const uniqueIds = Array.from(new Set(ids)).filter(Boolean);
+  if (uniqueIds.length === 0) return users;
+
+  const userDocs = await db.getAll(...uniqueIds.map(id => db.collection('users').doc(id)));
+  userDocs.forEach(userDoc => {
+    if (userDoc.exists) users.set(userDoc.id, userDoc.data());
+  });
+  return users;
+};
+
+/**
+ * the next page of users in id order, after `cursor` when given
+ */
+const getUsersPage = (db: Firestore, cursor?: QueryDocumentSnapshot): Promise<QuerySnapshot> => {
+  const usersQuery = db.collection('users').orderBy(FieldPath.documentId()).limit(USERS_PAGE_SIZE);
+  return (cursor ? usersQuery.startAfter(cursor) : usersQuery).get();
+};
+
+/**
+ * builds discover pools for each user's current reset window. safe to run repeatedly -
+ * each run overwrites the window's pools, which also picks up posts made since the last run.
+ * users reset at different times, so schedule it hourly
+ */
+export const precomputeDiscoverPools = async (db: Firestore, { userIds }: PrecomputeOptions = {}): Promise<PrecomputeSummary> => {
+  const now = new Date();
+  console.log(` Precomputing discover pools at ${now.toISOString()}`);
+
+  // every user's window started within the last day; each pool keeps only its own window's posts
+  const postsSnapshot = await db.collection('posts')
+    .where('createdAt', '>', Timestamp.fromDate(getLivePostsSince(now)))
+    .get();
+  const posts: CandidatePost[] = postsSnapshot.docs.map(postDoc => ({ id: postDoc.id, data: postDoc.data() }));
+
+  // one read of every author, shared across all pools
+  const authors = await loadUsers(db, posts.map(post => post.data.userId as string));
+  const tracks = await loadTrackRecords(db, posts.map(post => post.data));
+
+  const context: PrecomputeContext = { now, posts, authors, tracks };
+  const failed: string[] = [];
+  const windowKeys = new Set<string>();
+  let pools = 0;
+
+  const buildPool = async (userId: string, userData: any) => {
+    try {
+      windowKeys.add(await precomputeUserPool(db, userId, userData, context));
+      pools++;
+    } catch (error) {
+      // one bad profile shouldn't stop everyone else's pool
+      console.error(`Error precomputing discover pool for ${userId}:`, error);
+      failed.push(userId);
+    }
+  };
+
+  if (userIds) {
+    const targets = await loadUsers(db, userIds.filter(userId => !authors.has(userId)));
+    for (const userId of userIds) {
+      const userData = authors.get(userId) || targets.get(userId);
+      if (!userData) {
+        console.warn(` Skipping discover pool for unknown user ${userId}`);
+        failed.push(userId);
+        continue;
+      }
+      await buildPool(userId, userData);
+    }
+  } else {
+    // page through users rather than holding every profile at once
+    let page = await getUsersPage(db);
+    while (!page.empty) {
+      await Promise.all(page.docs.map(userDoc => buildPool(userDoc.id, userDoc.data())));
+      if (page.size < USERS_PAGE_SIZE) break;
+      page = await getUsersPage(db, page.docs[page.size - 1]);
+    }
+  }
+
+  console.log(` Precomputed ${pools} discover pools from ${posts.length} posts (${failed.length} failed)`);
+
+  return {
+    windowKeys: Array.from(windowKeys).sort(),
+    candidatePosts: posts.length,
+    pools,
+    failed
+  };
+};
@@ -0,0 +1,280 @@
+// firebase-free discover ranking pipeline shared by the browser and the precompute job
+import { MatchBreakdown, RankingConfig, UserProfile, resolveRankingConfig, scorePost } from './matchScoring';
+import { ExperimentAssignment, getDiscoverRankingAssignment } from './experiments';
+import { createTextSimilarityModel } from './textSimilarity';
+import { DEFAULT_DIVERSITY_LAMBDA, rerankForDiversity } from './diversity';
+import { DEFAULT_EXPLORATION, fillExplorationSlots } from './exploration';
+import { deriveColdStartPreferences, isColdStartUser } from './coldStart';
+import { TrackRecord, applyTrackRecord, trackIdOf } from './trackRecords';
+import { ResetSchedule } from './resetSchedule';
+import { stripUndefined } from './firestoreFields';
+import { PostStatus, getPostExpiry } from './postLifecycle';
+
+export interface PostWithMetadata {
+  id: string;
+  userId: string;
+  song: {
+    title: string;
+    artist: string;
+    album?: string;
+    coverArtUrl?: string;
+    spotifyId?: string;
+    isrc?: string;
+    identityId?: string; // same recording across catalogs, see trackIdentity
+    previewUrl?: string;
+    audioFeatures?: {
+      valence: number;
+      energy: number;
+      danceability: number;
+      acousticness: number;
+      tempo: number;
+    };
+    genres?: string[];
+  };
+  mood: string;
+  moodTags?: string[];
+  caption?: string;
+  mediaUrl?: string;
+  mediaUrls?: string[];
+  createdAt: Date;
+  status?: PostStatus;
+  expiresAt?: Date;      // when the post leaves discover, see getPostExpiry
+  matchScore?: number; // calculated by algorithm
+  matchBreakdown?: MatchBreakdown; // explains how matchScore was reached
+  experiment?: ExperimentAssignment; // experiment arm that ranked this post
+  impressions?: number;  // times shown in discover
+  rightSwipes?: number;  // times liked from discover
+  explored?: boolean;    // placed in an exploration slot rather than by score
+}
+
+export interface CandidatePost {
+  id: string;
+  data: any; // raw post document
+}
+
+export interface DiscoverRankingInput {
+  currentUser: UserProfile;
+  posts: CandidatePost[];
+  authors: Map<string, any>;  // author uid -> user document, missing authors are skipped
+  excludedUserIds: string[];  // friends and matches
+  swipedPostIds: string[];
+  tracks?: Map<string, TrackRecord>; // canonical tracks by spotify id, read through in place of post snapshots
+  ranking?: RankingConfig | string;  // overrides the experiment / cold-start choice
+}
+
+export interface DiscoverRanking {
+  ranked: PostWithMetadata[]; // every eligible candidate, best first with diversity applied
+  rankingConfig: RankingConfig;
+  experiment: ExperimentAssignment | null;
+  coldStart: boolean;
+}
+
+// cards in one discover deck
+export const DISCOVER_DECK_SIZE = 15;
+
+/**
+ * maps a raw post document onto the shape discover works with
+ */
+export const toPostWithMetadata = (id: string, postData: any): PostWithMetadata => ({
+  id,
+  userId: postData.userId,
+  song: postData.song ? {
+    title: postData.song.title || postData.songTitle || '',
+    artist: postData.song.artist || postData.songArtist || '',
+    album: postData.song.album || '',
+    coverArtUrl: postData.song.coverArtUrl || postData.songAlbumArt || '',
+    spotifyId: postData.song.spotifyId || postData.spotifyId || '',
+    isrc: postData.song.isrc,
+    identityId: postData.song.identityId,
+    previewUrl: postData.song.previewUrl || postData.previewUrl || '',
+    audioFeatures: postData.song.audioFeatures || postData.audioFeatures,
+    genres: postData.song.genres || []
+  } : {
+    title: postData.songTitle || '',
+    artist: postData.songArtist || '',
+    album: '',
+    coverArtUrl: postData.songAlbumArt || '',
+    spotifyId: postData.spotifyId || '',
+    previewUrl: postData.previewUrl || '',
+    audioFeatures: postData.audioFeatures,
+    genres: []
+  },
+  mood: postData.mood,
+  moodTags: postData.moodTags,
+  caption: postData.caption,
+  mediaUrl: postData.mediaUrl,
+  mediaUrls: postData.mediaUrls,
+  createdAt: postData.createdAt?.toDate?.() || (postData.createdAt ? new Date(postData.createdAt) : new Date()),
+  status: postData.status,
+  expiresAt: getPostExpiry(postData) || undefined,
+  impressions: postData.impressions || 0,
+  rightSwipes: postData.rightSwipes || 0
+});
+
+/**
+ * scores every eligible candidate for the user and orders them with the diversity re-rank.
+ * picks the ranking profile (explicit > cold-start > experiment arm) along the way
+ */
+export const rankDiscoverCandidates = ({
+  currentUser,
+  posts,
+  authors,
+  excludedUserIds,
+  swipedPostIds,
+  tracks,
+  ranking
+}: DiscoverRankingInput): DiscoverRanking => {
+  const user: UserProfile = { ...currentUser };
+
+  // new users have nothing learned yet - rank from their onboarding answers instead,
+  // outside the ranking experiment so they don't skew its arms
+  const coldStart = !ranking && isColdStartUser(user);
+  if (coldStart) {
+    user.musicPreferences = {
+      ...deriveColdStartPreferences(user.questionnaire),
+      ...(user.musicPreferences?.genres?.length ? { genres: user.musicPreferences.genres } : {}),
+      ...(user.musicPreferences?.moodTags?.length ? { moodTags: user.musicPreferences.moodTags } : {})
+    };
+    console.log(` Cold-start user - ranking from questionnaire-derived preferences`);
+  }
+
+  const experiment = ranking || coldStart ? null : getDiscoverRankingAssignment(user.uid);
+  const rankingConfig = resolveRankingConfig(ranking || (coldStart ? 'cold-start' : experiment?.rankingProfile));
+  if (experiment) {
+    console.log(` Ranking with experiment ${experiment.experimentId}, arm "${experiment.arm}"`);
+  }
+
+  // weight free-text questionnaire terms by how rare they are among the people being compared
+  const candidateAuthors = Array.from(new Set(posts.map(post => post.data.userId)))
+    .map(authorId => authors.get(authorId))
+    .filter(author => !!author);
+  const textModel = createTextSimilarityModel(
+    [user, ...candidateAuthors]
+      .filter(profile => profile?.questionnaire)
+      .flatMap(profile => Object.values(profile.questionnaire as { [question: string]: string }))
+      .filter(answer => typeof answer === 'string' && answer.length > 0)
+  );
+
+  const candidatePosts: PostWithMetadata[] = [];
+  let skippedAlreadySwiped = 0;
+  let skippedExcludedUsers = 0;
+  let skippedMissingAuthor = 0;
+
+  posts.forEach(({ id, data: snapshot }) => {
+    if (snapshot.userId === user.uid) return;
+    const trackId = trackIdOf(snapshot);
+    const postData = applyTrackRecord(snapshot, trackId ? tracks?.get(trackId) : null);
+
+    if (swipedPostIds.includes(id)) {
+      skippedAlreadySwiped++;
+      return;
+    }
+
+    // EXCLUDE posts from friends and matched users
+    if (excludedUserIds.includes(postData.userId)) {
+      skippedExcludedUsers++;
+      return;
+    }
+
+    const authorData = authors.get(postData.userId);
+    if (!authorData) {
+      skippedMissingAuthor++;
+      return;
+    }
+
+    const authorProfile: UserProfile = {
+      uid: postData.userId,
+      ...authorData
+    } as UserProfile;
+
+    const { matchScore, matchBreakdown } = scorePost(
+      { user, author: authorProfile, post: postData, textModel },
+      rankingConfig
+    );
+
+    candidatePosts.push({
+      ...toPostWithMetadata(id, postData),
+      matchScore,
+      matchBreakdown,
+      ...(experiment ? { experiment } : {})
+    });
+  });
+
+  console.log(` Processing summary:`);
+  console.log(`  - Posts processed: ${candidatePosts.length}`);
+  console.log(`  - Skipped (already swiped): ${skippedAlreadySwiped}`);
+  console.log(`  - Skipped (excluded users): ${skippedExcludedUsers}`);
+  console.log(`  - Skipped (missing author): ${skippedMissingAuthor}`);
+
+  // order by score, trading a little relevance for variety in mood, genre and sound
+  const diversityLambda = rankingConfig.diversityLambda ?? DEFAULT_DIVERSITY_LAMBDA;
+  const ranked = rerankForDiversity(candidatePosts, { lambda: diversityLambda });
+
+  return { ranked, rankingConfig, experiment, coldStart };
+};
+
+/**
+ * cuts a ranked list down to one deck, holding back some slots for posts
+ * that haven't had a fair chance to be seen yet
+ */
+export const buildDiscoverDeck = (
+  ranked: PostWithMetadata[],
+  rankingConfig: RankingConfig,
+  { limit = DISCOVER_DECK_SIZE, random }: { limit?: number; random?: () => number } = {}
+): PostWithMetadata[] => {
+  const { deck, explored } = fillExplorationSlots(
+    ranked.map(post => ({ ...post, explored: false })),
+    rankingConfig.exploration || DEFAULT_EXPLORATION,
+    { limit, random }
+  );
+  explored.forEach(post => {
+    post.explored = true;
+  });
+
+  console.log(` Built discover deck of ${deck.length} posts (${explored.length} exploration slots)`);
+  return deck;
+};
+
+export interface DiscoverPool {
+  userId: string;
+  windowKey: string;      // reset window the pool was built for, see getResetWindowKey
+  resetSchedule?: ResetSchedule; // the user's schedule when it was built; the default when missing
+  generatedAt: string;    // ISO timestamp
+  rankingConfig: RankingConfig;
+  experiment: ExperimentAssignment | null;
+  coldStart: boolean;
+  posts: PostWithMetadata[];
+}
+
+// ranked candidates kept per user - enough for a few decks after swipes are filtered out
+export const DISCOVER_POOL_SIZE = 60;
+
+/**
+ * storable form of a pool for `discoverPools/{userId}`, with post dates as iso strings
+ */
+export const serializeDiscoverPool = (pool: DiscoverPool): any => {
+  return stripUndefined({
+    ...pool,
+    posts: pool.posts.slice(0, DISCOVER_POOL_SIZE).map(post => ({
+      ...post,
+      createdAt: post.createdAt.toISOString(),
+      expiresAt: post.expiresAt?.toISOString()
+    }))
+  });
+};
+
+/**
+ * reads a stored pool back, or null if the document isn't a usable pool
+ */
+export const parseDiscoverPool = (data: any): DiscoverPool | null => {
+  if (!data || typeof data.windowKey !== 'string' || !Array.isArray(data.posts) || !data.rankingConfig) return null;
+
+  return {
+    ...data,
+    posts: data.posts.map((post: any) => ({
+      ...post,
+      createdAt: new Date(post.createdAt),
+      expiresAt: post.expiresAt ? new Date(post.expiresAt) : undefined
+    }))
+  } as DiscoverPool;
+};
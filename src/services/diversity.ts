@@ -0,0 +1,151 @@
+// maximal-marginal-relevance re-ranking so one mood or sound can't take over the deck
+import { normalizeArtistName, normalizeTrackTitle, songIdentityKey } from './trackIdentity';
+
+export interface DiversityCandidate {
+  matchScore?: number;
+  mood?: string;
+  moodTags?: string[];
+  song: {
+    title?: string;
+    artist?: string;
+    spotifyId?: string;
+    isrc?: string;
+    identityId?: string;
+    genres?: string[];
+    audioFeatures?: {
+      valence: number;
+      energy: number;
+      danceability: number;
+      acousticness: number;
+      tempo: number;
+    };
+  };
+}
+
+export interface DiversityOptions {
+  lambda?: number; // 1 = rank purely by score, 0 = pick purely for variety
+  limit?: number;
+}
+
+// mostly relevance, with enough variety to break up runs of the same mood
+export const DEFAULT_DIVERSITY_LAMBDA = 0.7;
+
+// how much each kind of overlap counts towards two posts feeling "the same"
+const SIMILARITY_WEIGHTS = {
+  mood: 0.4,
+  genre: 0.3,
+  audio: 0.3
+};
+
+// tempo differences beyond this many BPM count as completely different
+const TEMPO_RANGE = 100;
+
+const toLabelSet = (labels: Array<string | undefined>): Set<string> => {
+  return new Set(labels.filter((label): label is string => !!label).map(label => label.toLowerCase()));
+};
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  const intersection = Array.from(a).filter(label => b.has(label)).length;
+  return intersection / (a.size + b.size - intersection);
+};
+
+const isSameSong = (a: DiversityCandidate, b: DiversityCandidate): boolean => {
+  const keyA = songIdentityKey(a);
+  if (keyA && keyA === songIdentityKey(b)) return true;
+  return !!a.song.title && !!a.song.artist && !!b.song.title && !!b.song.artist &&
+    normalizeTrackTitle(a.song.title) === normalizeTrackTitle(b.song.title) &&
+    normalizeArtistName(a.song.artist) === normalizeArtistName(b.song.artist);
+};
+
+/**
+ * 0-1 closeness of two songs' audio features, or null when either is missing them
+ */
+const audioSimilarity = (a: DiversityCandidate, b: DiversityCandidate): number | null => {
+  const featuresA = a.song.audioFeatures;
+  const featuresB = b.song.audioFeatures;
+  if (!featuresA || !featuresB) return null;
+
+  const distances = [
+    Math.abs(featuresA.valence - featuresB.valence),
+    Math.abs(featuresA.energy - featuresB.energy),
+    Math.abs(featuresA.danceability - featuresB.danceability),
+    Math.abs(featuresA.acousticness - featuresB.acousticness),
+    Math.min(1, Math.abs(featuresA.tempo - featuresB.tempo) / TEMPO_RANGE)
+  ].filter(distance => !isNaN(distance));
+
+  if (distances.length === 0) return null;
+  const meanDistance = distances.reduce((total, distance) => total + distance, 0) / distances.length;
+  return 1 - meanDistance;
+};
+
+/**
+ * how alike two candidates are by mood, genre and sound (0-1).
+ * components a pair has no data for are left out rather than counted as different
+ */
+export const calculateCandidateSimilarity = (a: DiversityCandidate, b: DiversityCandidate): number => {
+  if (isSameSong(a, b)) return 1;
+
+  const components: Array<{ similarity: number; weight: number }> = [];
+
+  const moodsA = toLabelSet([a.mood, ...(a.moodTags || [])]);
+  const moodsB = toLabelSet([b.mood, ...(b.moodTags || [])]);
+  if (moodsA.size > 0 && moodsB.size > 0) {
+    components.push({ similarity: jaccard(moodsA, moodsB), weight: SIMILARITY_WEIGHTS.mood });
+  }
+
+  const genresA = toLabelSet(a.song.genres || []);
+  const genresB = toLabelSet(b.song.genres || []);
+  if (genresA.size > 0 && genresB.size > 0) {
+    components.push({ similarity: jaccard(genresA, genresB), weight: SIMILARITY_WEIGHTS.genre });
+  }
+
+  const audio = audioSimilarity(a, b);
+  if (audio !== null) {
+    components.push({ similarity: audio, weight: SIMILARITY_WEIGHTS.audio });
+  }
+
+  const totalWeight = components.reduce((total, component) => total + component.weight, 0);
+  if (totalWeight === 0) return 0;
+
+  return components.reduce((total, component) => total + component.similarity * component.weight, 0) / totalWeight;
+};
+
+/**
+ * greedily builds the deck: each pick maximizes
+ * lambda * matchScore - (1 - lambda) * (similarity to the closest post already picked)
+ */
+export const rerankForDiversity = <T extends DiversityCandidate>(
+  candidates: T[],
+  { lambda = DEFAULT_DIVERSITY_LAMBDA, limit = candidates.length }: DiversityOptions = {}
+): T[] => {
+  const tradeOff = Math.max(0, Math.min(1, lambda));
+  const remaining = [...candidates].sort((a, b) => (b.matchScore || 0) - (a.matchScore || 0));
+  const selected: T[] = [];
+
+  // max similarity of each remaining candidate to anything selected so far
+  const closest = remaining.map(() => 0);
+
+  while (selected.length < limit && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestValue = -Infinity;
+
+    for (let i = 0; i < remaining.length; i++) {
+      const value = tradeOff * (remaining[i].matchScore || 0) - (1 - tradeOff) * closest[i];
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = i;
+      }
+    }
+
+    const [picked] = remaining.splice(bestIndex, 1);
+    closest.splice(bestIndex, 1);
+    selected.push(picked);
+
+    for (let i = 0; i < remaining.length; i++) {
+      closest[i] = Math.max(closest[i], calculateCandidateSimilarity(picked, remaining[i]));
+    }
+  }
+
+  return selected;
+};
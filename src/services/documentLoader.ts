@@ -0,0 +1,102 @@
+// request-scoped batched and deduplicated firestore document loading
+import { collection, query, where, getDocs, documentId, DocumentData } from 'firebase/firestore';
+import { db } from './firebase';
+
+// firestore caps the number of values in an `in` filter
+const IN_QUERY_CHUNK_SIZE = 30;
+
+export interface DocumentLoader<T = DocumentData> {
+  load: (id: string) => Promise<T | null>;
+  loadMany: (ids: string[]) => Promise<(T | null)[]>;
+  prime: (id: string, data: T | null) => void;
+}
+
+interface PendingLoad<T> {
+  id: string;
+  resolve: (data: T | null) => void;
+  reject: (error: any) => void;
+}
+
+/**
+ * splits ids into chunks small enough for an `in` query
+ */
+export const chunkIds = (ids: string[], size: number = IN_QUERY_CHUNK_SIZE): string[][] => {
+  const chunks: string[][] = [];
+  for (let i = 0; i < ids.length; i += size) {
+    chunks.push(ids.slice(i, i + size));
+  }
+  return chunks;
+};
+
+/**
+ * creates a loader that collects every `load` call made in the same tick and
+ * fetches them with as few chunked `in` queries as possible. results are cached
+ * for the lifetime of the loader, so create one per page load / request
+ */
+export const createDocumentLoader = <T = DocumentData>(collectionName: string): DocumentLoader<T> => {
+  const cache = new Map<string, Promise<T | null>>();
+  let queue: PendingLoad<T>[] = [];
+  let scheduled = false;
+
+  const dispatch = async () => {
+    const pending = queue;
+    queue = [];
+    scheduled = false;
+
+    const ids = Array.from(new Set(pending.map(item => item.id)));
+
+    await Promise.all(chunkIds(ids).map(async (chunk) => {
+      const waiting = pending.filter(item => chunk.includes(item.id));
+
+      try {
+        const snapshot = await getDocs(query(
+          collection(db, collectionName),
+          where(documentId(), 'in', chunk)
+        ));
+
+        const found = new Map<string, T>();
+        snapshot.forEach(docSnapshot => {
+          found.set(docSnapshot.id, docSnapshot.data() as T);
+        });
+
+        waiting.forEach(item => item.resolve(found.get(item.id) ?? null));
+      } catch (error) {
+        // drop failed ids from the cache so a later load can retry them
+        chunk.forEach(id => cache.delete(id));
+        waiting.forEach(item => item.reject(error));
+      }
+    }));
+  };
+
+  const load = (id: string): Promise<T | null> => {
+    const cached = cache.get(id);
+    if (cached) return cached;
+
+    const promise = new Promise<T | null>((resolve, reject) => {
+      queue.push({ id, resolve, reject });
+
+      if (!scheduled) {
+        scheduled = true;
+        Promise.resolve().then(dispatch);
+      }
+    });
+
+    cache.set(id, promise);
+    return promise;
+  };
+
+  return {
+    load,
+    loadMany: (ids: string[]) => Promise.all(ids.map(load)),
+    prime: (id: string, data: T | null) => {
+      if (!cache.has(id)) {
+        cache.set(id, Promise.resolve(data));
+      }
+    }
+  };
+};
+
+/**
+ * loader for `users` documents, shared by discover ranking and the discover page
+ */
+export const createUserProfileLoader = (): DocumentLoader => createDocumentLoader('users');
@@ -0,0 +1,79 @@
+// per-arm outcome report for discover ranking experiments
+import { Firestore } from 'firebase-admin/firestore';
+import { EXPERIMENTS } from './experiments';
+
+export interface ExperimentArmReport {
+  arm: string;
+  rankingProfile: string;
+  users: number;
+  swipes: number;
+  rightSwipes: number;
+  rightSwipeRate: number; // rightSwipes / swipes
+  matches: number;
+  matchRate: number;      // matches / rightSwipes; both likes of a match count
+}
+
+export interface ExperimentReport {
+  experimentId: string;
+  generatedAt: Date;
+  arms: ExperimentArmReport[];
+}
+
+/**
+ * compare right-swipe rate and match rate per arm for an experiment. reads every swipe
+ * of the experiment, so it runs server-side (see scripts/experiment_report.ts)
+ */
+export const getExperimentReport = async (db: Firestore, experimentId: string): Promise<ExperimentReport> => {
+  const experiment = EXPERIMENTS[experimentId];
+
+  const swipesSnapshot = await db.collection('swipes')
+    .where('experimentId', '==', experimentId)
+    .get();
+
+  const armStats: { [arm: string]: { users: Set<string>; swipes: number; rightSwipes: number; matches: number } } = {};
+
+  // seed every configured arm so arms without traffic still show up
+  experiment?.arms.forEach(arm => {
+    armStats[arm.name] = { users: new Set(), swipes: 0, rightSwipes: 0, matches: 0 };
+  });
+
+  swipesSnapshot.forEach(swipeDoc => {
+    const swipe = swipeDoc.data();
+    const arm = swipe.experimentArm || 'unknown';
+
+    if (!armStats[arm]) {
+      armStats[arm] = { users: new Set(), swipes: 0, rightSwipes: 0, matches: 0 };
+    }
+
+    armStats[arm].users.add(swipe.swiperId);
+    armStats[arm].swipes++;
+    if (swipe.direction === 'right') armStats[arm].rightSwipes++;
+    if (swipe.matchId) armStats[arm].matches++;
+  });
+
+  const arms: ExperimentArmReport[] = Object.keys(armStats).map(armName => {
+    const stats = armStats[armName];
+    return {
+      arm: armName,
+      rankingProfile: experiment?.arms.find(arm => arm.name === armName)?.rankingProfile || 'unknown',
+      users: stats.users.size,
+      swipes: stats.swipes,
+      rightSwipes: stats.rightSwipes,
+      rightSwipeRate: stats.swipes > 0 ? stats.rightSwipes / stats.swipes : 0,
+      matches: stats.matches,
+      matchRate: stats.rightSwipes > 0 ? stats.matches / stats.rightSwipes : 0
+    };
+  });
+
+  console.log(` Experiment ${experimentId} report:`);
+  arms.forEach(arm => {
+    console.log(`  - ${arm.arm} (${arm.rankingProfile}): ${arm.users} users, ${arm.swipes} swipes, ` +
+      `right-swipe rate ${(arm.rightSwipeRate * 100).toFixed(1)}%, match rate ${(arm.matchRate * 100).toFixed(1)}%`);
+  });
+
+  return {
+    experimentId,
+    generatedAt: new Date(),
+    arms
+  };
+};
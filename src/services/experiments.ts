@@ -0,0 +1,90 @@
+// deterministic a/b bucketing for discover ranking experiments
+import { RANKING_PROFILES } from './matchScoring';
+
+export interface ExperimentArm {
+  name: string;
+  weight: number;         // share of users bucketed into this arm
+  rankingProfile: string; // key into RANKING_PROFILES
+}
+
+export interface Experiment {
+  id: string;
+  description: string;
+  active: boolean;
+  arms: ExperimentArm[];
+}
+
+export interface ExperimentAssignment {
+  experimentId: string;
+  arm: string;
+  rankingProfile: string;
+}
+
+/**
+ * all known experiments. changing arm weights reshuffles users, so start a
+ * new experiment id instead of editing a running one
+ */
+export const EXPERIMENTS: { [experimentId: string]: Experiment } = {
+  'discover-ranking-v1': {
+    id: 'discover-ranking-v1',
+    description: 'Default weights vs audio-heavy vs social-heavy discover ranking',
+    active: true,
+    arms: [
+      { name: 'control', weight: 0.34, rankingProfile: 'default' },
+      { name: 'audio-heavy', weight: 0.33, rankingProfile: 'audio-heavy' },
+      { name: 'social-heavy', weight: 0.33, rankingProfile: 'social-heavy' }
+    ]
+  }
+};
+
+// the experiment currently driving discover ranking
+export const DISCOVER_RANKING_EXPERIMENT = 'discover-ranking-v1';
+
+/**
+ * FNV-1a hash mapped onto [0, 1) so bucketing is stable across sessions and devices
+ */
+const hashToUnitInterval = (input: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+};
+
+/**
+ * deterministically pick an arm for a user. the experiment id is part of the
+ * hash so the same user lands in independent buckets across experiments
+ */
+export const assignExperimentArm = (userId: string, experiment: Experiment): ExperimentArm => {
+  const totalWeight = experiment.arms.reduce((total, arm) => total + arm.weight, 0);
+  const bucket = hashToUnitInterval(`${experiment.id}:${userId}`) * totalWeight;
+
+  let cumulative = 0;
+  for (const arm of experiment.arms) {
+    cumulative += arm.weight;
+    if (bucket < cumulative) return arm;
+  }
+
+  return experiment.arms[experiment.arms.length - 1];
+};
+
+/**
+ * get the user's assignment in the active discover ranking experiment, if any
+ */
+export const getDiscoverRankingAssignment = (userId: string): ExperimentAssignment | null => {
+  const experiment = EXPERIMENTS[DISCOVER_RANKING_EXPERIMENT];
+  if (!experiment || !experiment.active || experiment.arms.length === 0) return null;
+
+  const arm = assignExperimentArm(userId, experiment);
+  if (!RANKING_PROFILES[arm.rankingProfile]) {
+    console.warn(`Experiment ${experiment.id} arm "${arm.name}" uses unknown ranking profile "${arm.rankingProfile}"`);
+    return null;
+  }
+
+  return {
+    experimentId: experiment.id,
+    arm: arm.name,
+    rankingProfile: arm.rankingProfile
+  };
+};
@@ -0,0 +1,153 @@
+// exploration policy that reserves deck slots for posts that haven't been seen much yet
+
+export type ExplorationPolicy = 'epsilon-greedy' | 'thompson';
+
+export interface ExplorationConfig {
+  fraction: number;            // share of deck slots reserved for under-exposed posts
+  policy: ExplorationPolicy;
+  epsilon?: number;            // epsilon-greedy only: chance a slot goes to a random post instead of the best one
+  maxImpressions?: number;     // posts shown at least this often are no longer explored
+}
+
+export interface ExplorationCandidate {
+  matchScore?: number;
+  impressions?: number; // times the post has been shown in discover
+  rightSwipes?: number; // times it was liked from discover
+}
+
+export interface ExplorationOptions {
+  limit: number;
+  random?: () => number; // injectable for deterministic replays
+}
+
+export const DEFAULT_EXPLORATION: ExplorationConfig = {
+  fraction: 0.2,
+  policy: 'thompson',
+  epsilon: 0.3,
+  maxImpressions: 25
+};
+
+/**
+ * true while a post hasn't been shown enough for its like rate to mean much
+ */
+export const isUnderExposed = (candidate: ExplorationCandidate, maxImpressions: number = DEFAULT_EXPLORATION.maxImpressions!): boolean => {
+  return (candidate.impressions || 0) < maxImpressions;
+};
+
+/**
+ * standard normal sample (box-muller)
+ */
+const sampleNormal = (random: () => number): number => {
+  const u = Math.max(random(), Number.EPSILON);
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+/**
+ * gamma(shape, 1) sample using marsaglia-tsang
+ */
+const sampleGamma = (shape: number, random: () => number): number => {
+  if (shape < 1) {
+    // boost the shape and scale back down
+    return sampleGamma(shape + 1, random) * Math.pow(Math.max(random(), Number.EPSILON), 1 / shape);
+  }
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+
+  while (true) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+
+    v = v * v * v;
+    const u = random();
+    if (u < 1 - 0.0331 * x * x * x * x) return d * v;
+    if (Math.log(Math.max(u, Number.EPSILON)) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+};
+
+/**
+ * beta(alpha, beta) sample built from two gamma samples
+ */
+export const sampleBeta = (alpha: number, beta: number, random: () => number = Math.random): number => {
+  const x = sampleGamma(alpha, random);
+  const y = sampleGamma(beta, random);
+  return x / (x + y);
+};
+
+/**
+ * picks up to `count` posts from the under-exposed pool.
+ * thompson: draw a plausible like rate from each post's beta posterior and keep the highest draws.
+ * epsilon-greedy: each slot takes a random post with probability epsilon, otherwise the best-scoring one
+ */
+const choosePosts = <T extends ExplorationCandidate>(
+  pool: T[],
+  count: number,
+  config: ExplorationConfig,
+  random: () => number
+): T[] => {
+  if (config.policy === 'thompson') {
+    return pool
+      .map(candidate => {
+        const impressions = candidate.impressions || 0;
+        const likes = Math.min(candidate.rightSwipes || 0, impressions);
+        return { candidate, draw: sampleBeta(1 + likes, 1 + impressions - likes, random) };
+      })
+      .sort((a, b) => b.draw - a.draw)
+      .slice(0, count)
+      .map(({ candidate }) => candidate);
+  }
+
+  const epsilon = config.epsilon ?? DEFAULT_EXPLORATION.epsilon!;
+  const remaining = [...pool].sort((a, b) => (b.matchScore || 0) - (a.matchScore || 0));
+  const chosen: T[] = [];
+
+  while (chosen.length < count && remaining.length > 0) {
+    const index = random() < epsilon ? Math.floor(random() * remaining.length) : 0;
+    chosen.push(remaining.splice(index, 1)[0]);
+  }
+
+  return chosen;
+};
+
+/**
+ * builds the final deck from an already-ranked list. the top of the ranking fills
+ * the exploit slots, the reserved slots go to under-exposed posts further down, and
+ * explored posts are spread through the deck instead of piling up at the end.
+ * slots with nothing to explore fall back to the ranking
+ */
+export const fillExplorationSlots = <T extends ExplorationCandidate>(
+  ranked: T[],
+  config: ExplorationConfig = DEFAULT_EXPLORATION,
+  { limit, random = Math.random }: ExplorationOptions
+): { deck: T[]; explored: T[] } => {
+  const slots = Math.min(limit, Math.round(limit * Math.max(0, Math.min(1, config.fraction))));
+  const exploit = ranked.slice(0, limit - slots);
+  const rest = ranked.slice(limit - slots);
+
+  const pool = rest.filter(candidate => isUnderExposed(candidate, config.maxImpressions ?? DEFAULT_EXPLORATION.maxImpressions));
+  const explored = choosePosts(pool, slots, config, random);
+
+  // backfill from the ranking when there weren't enough under-exposed posts
+  const backfill = rest.filter(candidate => !explored.includes(candidate)).slice(0, slots - explored.length);
+  const main = [...exploit, ...backfill];
+
+  const deck: T[] = [];
+  const spacing = explored.length > 0 ? (main.length + explored.length) / explored.length : 0;
+  let nextExplore = 0;
+
+  for (let position = 0; deck.length < main.length + explored.length; position++) {
+    const explorePosition = Math.floor(spacing * (nextExplore + 0.5));
+    if (nextExplore < explored.length && position >= explorePosition) {
+      deck.push(explored[nextExplore++]);
+    } else {
+      deck.push(main[deck.length - nextExplore]);
+    }
+  }
+
+  return { deck, explored };
+};
@@ -0,0 +1,50 @@
+// server-side bulk writes that stay under firestore's 500-writes-per-batch limit
+import { Firestore, Query } from 'firebase-admin/firestore';
+
+// firestore rejects batches over 500 writes; stay a little under it
+export const BATCH_WRITE_LIMIT = 400;
+
+/**
+ * deletes every document `query` matches, one batch at a time, and returns how many went.
+ * the query is re-run after each batch, so it must stop matching what was deleted
+ */
+export const deleteQueryInBatches = async (db: Firestore, query: Query, batchSize: number = BATCH_WRITE_LIMIT): Promise<number> => {
+  let deleted = 0;
+
+  while (true) {
+    const snapshot = await query.limit(batchSize).get();
+    if (snapshot.empty) return deleted;
+
+    const batch = db.batch();
+    snapshot.docs.forEach(matchDoc => batch.delete(matchDoc.ref));
+    await batch.commit();
+    deleted += snapshot.size;
+
+    if (snapshot.size < batchSize) return deleted;
+  }
+};
+
+/**
+ * applies `update` to every document `query` matches, one batch at a time, and returns how
+ * many changed. like deleteQueryInBatches, the update has to take documents out of the query
+ */
+export const updateQueryInBatches = async (
+  db: Firestore,
+  query: Query,
+  update: { [field: string]: any },
+  batchSize: number = BATCH_WRITE_LIMIT
+): Promise<number> => {
+  let updated = 0;
+
+  while (true) {
+    const snapshot = await query.limit(batchSize).get();
+    if (snapshot.empty) return updated;
+
+    const batch = db.batch();
+    snapshot.docs.forEach(matchDoc => batch.update(matchDoc.ref, update));
+    await batch.commit();
+    updated += snapshot.size;
+
+    if (snapshot.size < batchSize) return updated;
+  }
+};
@@ -0,0 +1,19 @@
+// shaping plain objects into something firestore will accept, for both the browser and server sdks
+
+/**
+ * copy of `value` with undefined fields and array entries removed at any depth,
+ * since firestore rejects them. dates and other class instances are left as they are
+ */
+export const stripUndefined = <T>(value: T): T => {
+  if (Array.isArray(value)) {
+    return value.filter(item => item !== undefined).map(item => stripUndefined(item)) as unknown as T;
+  }
+  if (!value || typeof value !== 'object' || Object.getPrototypeOf(value) !== Object.prototype) return value;
+
+  const stripped: any = {};
+  Object.keys(value).forEach(key => {
+    const field = (value as any)[key];
+    if (field !== undefined) stripped[key] = stripUndefined(field);
+  });
+  return stripped;
+};
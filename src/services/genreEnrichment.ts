@@ -0,0 +1,77 @@
+// fills in a posted song's genres, album and ISRC from its spotify track and artists
+import { classifyGenres } from './genreTaxonomy';
+
+// the /artists endpoint takes at most this many ids per request
+const MAX_ARTISTS_PER_REQUEST = 50;
+
+/**
+ * performs a GET against the spotify web api (an endpoint like `/tracks/{id}`) and
+ * returns the parsed json. injected so enrichment can run against recorded responses
+ */
+export type SpotifyFetcher = (endpoint: string) => Promise<any>;
+
+export interface TrackEnrichment {
+  album?: string;
+  isrc?: string;          // identifies the recording across catalogs
+  durationMs?: number;
+  artistIds: string[];
+  rawGenres: string[];    // artist genres exactly as spotify returned them
+  genres: string[];       // normalized genres plus their parents
+  parentGenres: string[];
+}
+
+/**
+ * each artist's spotify genres, looked up in batches. artists spotify doesn't return are left out
+ */
+export const fetchArtistGenres = async (artistIds: string[], fetcher: SpotifyFetcher): Promise<Map<string, string[]>> => {
+  const artistGenres = new Map<string, string[]>();
+  for (let i = 0; i < artistIds.length; i += MAX_ARTISTS_PER_REQUEST) {
+    const ids = artistIds.slice(i, i + MAX_ARTISTS_PER_REQUEST);
+    const data = await fetcher(`/artists?ids=${ids.map(encodeURIComponent).join(',')}`);
+    (data?.artists || []).forEach((artist: any) => {
+      if (artist?.id) artistGenres.set(artist.id, Array.isArray(artist.genres) ? artist.genres : []);
+    });
+  }
+  return artistGenres;
+};
+
+/**
+ * looks up a track's album and artists, then collects every artist's genres and
+ * normalizes them through the genre taxonomy
+ */
+export const enrichTrackGenres = async (spotifyId: string, fetcher: SpotifyFetcher): Promise<TrackEnrichment> => {
+  const track = await fetcher(`/tracks/${encodeURIComponent(spotifyId)}`);
+  const artistIds: string[] = (track?.artists || [])
+    .map((artist: any) => artist?.id)
+    .filter((artistId: any): artistId is string => typeof artistId === 'string' && artistId.length > 0);
+
+  const artistGenres = await fetchArtistGenres(artistIds, fetcher);
+  const rawGenres: string[] = [];
+  artistIds.forEach(artistId => rawGenres.push(...(artistGenres.get(artistId) || [])));
+
+  const { genres, parentGenres } = classifyGenres(rawGenres);
+  console.log(` Enriched track ${spotifyId}: ${rawGenres.length} artist genres -> ${genres.join(', ') || 'none'}`);
+
+  return {
+    album: track?.album?.name || undefined,
+    isrc: track?.external_ids?.isrc || undefined,
+    durationMs: track?.duration_ms || undefined,
+    artistIds,
+    rawGenres,
+    genres,
+    parentGenres
+  };
+};
+
+/**
+ * a fetcher that answers from recorded spotify responses keyed by endpoint,
+ * e.g. `{ "/tracks/abc": {...}, "/artists?ids=x,y": {...} }`
+ */
+export const createRecordedFetcher = (responses: { [endpoint: string]: any }): SpotifyFetcher => {
+  return async (endpoint: string) => {
+    if (!(endpoint in responses)) {
+      throw new Error(`No recorded Spotify response for ${endpoint}`);
+    }
+    return responses[endpoint];
+  };
+};
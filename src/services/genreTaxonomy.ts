@@ -0,0 +1,107 @@
+// normalizes spotify's fine-grained artist genres and maps them onto broad parent genres
+
+// spellings that mean the same genre
+const GENRE_ALIASES: { [alias: string]: string } = {
+  'hiphop': 'hip hop',
+  'hip-hop': 'hip hop',
+  'rap': 'hip hop',
+  'rnb': 'r&b',
+  'r-n-b': 'r&b',
+  'r and b': 'r&b',
+  'rhythm and blues': 'r&b',
+  'edm': 'electronic',
+  'electronica': 'electronic',
+  'lofi': 'lo-fi',
+  'lo fi': 'lo-fi',
+  'kpop': 'k-pop',
+  'k pop': 'k-pop'
+};
+
+// parent genre -> words or phrases that place a genre under it. a genre can have several
+// parents ("indie folk" is both indie and folk). longer phrases claim their words first,
+// so "new jack swing" is r&b without "swing" also making it jazz
+const PARENT_GENRE_KEYWORDS: Array<[string, string[]]> = [
+  ['pop', ['pop', 'k-pop', 'j-pop', 'synthpop', 'electropop', 'europop', 'hyperpop', 'bubblegum']],
+  ['rock', ['rock', 'grunge', 'shoegaze', 'britpop', 'post-punk']],
+  ['hip hop', ['hip hop', 'rap', 'trap', 'drill', 'grime', 'boom bap', 'phonk', 'hardcore hip hop', 'emo rap']],
+  ['r&b', ['r&b', 'neo soul', 'new jack swing']],
+  ['electronic', ['electronic', 'house', 'techno', 'trance', 'dubstep', 'drum and bass', 'dnb', 'electro', 'idm', 'synthwave', 'garage house', 'big room', 'downtempo', 'lo-fi', 'chillwave', 'hardcore techno', 'happy hardcore', 'uk hardcore', 'gabber']],
+  ['folk', ['folk', 'singer-songwriter', 'americana', 'bluegrass']],
+  ['country', ['country', 'honky tonk', 'outlaw', 'alt country']],
+  ['jazz', ['jazz', 'bebop', 'swing', 'bossa nova']],
+  ['classical', ['classical', 'orchestra', 'baroque', 'opera', 'romantic era', 'chamber music', 'soundtrack', 'compositional ambient']],
+  ['metal', ['metal', 'metalcore', 'deathcore', 'djent', 'doom']],
+  ['punk', ['punk', 'hardcore', 'emo']],
+  ['indie', ['indie', 'bedroom', 'alternative', 'alt']],
+  ['soul', ['soul', 'motown', 'gospel']],
+  ['funk', ['funk', 'disco', 'boogie']],
+  ['blues', ['blues']],
+  ['latin', ['latin', 'reggaeton', 'salsa', 'bachata', 'cumbia', 'corrido', 'urbano', 'sertanejo', 'mpb']],
+  ['reggae', ['reggae', 'dancehall', 'ska', 'dub']],
+  ['ambient', ['ambient', 'new age', 'drone']]
+];
+
+/**
+ * lowercases, trims and unifies spellings so the same genre always compares equal
+ */
+export const normalizeGenre = (genre: string): string => {
+  const cleaned = genre.toLowerCase().trim().replace(/\s+/g, ' ');
+  return GENRE_ALIASES[cleaned] || cleaned;
+};
+
+const toWords = (text: string): string[] => text.replace(/-/g, ' ').split(' ').filter(Boolean);
+
+// every keyword as words, most words first
+const KEYWORDS_BY_SPECIFICITY = PARENT_GENRE_KEYWORDS
+  .flatMap(([parent, keywords]) => keywords.map(keyword => ({ parent, words: toWords(keyword) })))
+  .sort((a, b) => b.words.length - a.words.length);
+
+/**
+ * broad parent genres for one genre; a parent genre is its own parent. keywords match
+ * whole words ("folk" in "indie folk" but not in "folktronica"), and words already
+ * matched by a longer keyword can't be matched again
+ */
+export const getParentGenres = (genre: string): string[] => {
+  const normalized = normalizeGenre(genre);
+  const words = toWords(normalized);
+  const claimed = words.map(() => false);
+  const parents = new Set<string>();
+
+  KEYWORDS_BY_SPECIFICITY.forEach(keyword => {
+    for (let start = 0; start + keyword.words.length <= words.length; start++) {
+      const matches = keyword.words.every((word, offset) => words[start + offset] === word && !claimed[start + offset]);
+      if (!matches) continue;
+      keyword.words.forEach((_, offset) => {
+        claimed[start + offset] = true;
+      });
+      parents.add(keyword.parent);
+    }
+  });
+
+  return PARENT_GENRE_KEYWORDS
+    .map(([parent]) => parent)
+    .filter(parent => parent === normalized || parents.has(parent));
+};
+
+/**
+ * normalizes a set of raw genres (e.g. every artist genre on a track) into the specific
+ * genres, the parent genres they roll up into, and both together for matching
+ */
+export const classifyGenres = (rawGenres: string[]): { genres: string[]; parentGenres: string[] } => {
+  const specific = Array.from(new Set(rawGenres.filter(Boolean).map(normalizeGenre)));
+
+  // parents ordered by how many of the specific genres share them, so the dominant one leads
+  const parentCounts = new Map<string, number>();
+  specific.forEach(genre => {
+    getParentGenres(genre).forEach(parent => parentCounts.set(parent, (parentCounts.get(parent) || 0) + 1));
+  });
+  const parentGenres = Array.from(parentCounts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([parent]) => parent);
+
+  // the parents are included so "indie folk" and "folk" fans still share a genre
+  return {
+    genres: Array.from(new Set([...specific, ...parentGenres])),
+    parentGenres
+  };
+};
@@ -0,0 +1,103 @@
+// turns a user's spotify listening history into taste events that seed their profile
+import { SpotifyFetcher, fetchArtistGenres } from './genreEnrichment';
+import { classifyGenres } from './genreTaxonomy';
+import { AudioFeatureVector, TasteEvent, TasteProfile, computeTasteProfile } from './tasteProfile';
+
+// spotify's maximum page size for top items and recently played
+const HISTORY_PAGE_SIZE = 50;
+
+// the profile is matched on genre overlap; a long tail of niche genres would dilute it
+export const MAX_SEEDED_GENRES = 20;
+
+export const LISTENING_HISTORY_ENDPOINTS = {
+  topArtists: `/me/top/artists?limit=${HISTORY_PAGE_SIZE}&time_range=medium_term`,
+  topTracks: `/me/top/tracks?limit=${HISTORY_PAGE_SIZE}&time_range=medium_term`,
+  recentlyPlayed: `/me/player/recently-played?limit=${HISTORY_PAGE_SIZE}`
+};
+
+export interface ListeningHistory {
+  topArtists: any[];     // spotify artist objects, most listened first
+  topTracks: any[];      // spotify track objects, most listened first
+  recentlyPlayed: Array<{ track: any; playedAt: Date }>;
+}
+
+/**
+ * pulls top artists, top tracks and recent plays with a fetcher bound to the user's token
+ */
+export const fetchListeningHistory = async (fetcher: SpotifyFetcher): Promise<ListeningHistory> => {
+  const [topArtists, topTracks, recentlyPlayed] = await Promise.all([
+    fetcher(LISTENING_HISTORY_ENDPOINTS.topArtists),
+    fetcher(LISTENING_HISTORY_ENDPOINTS.topTracks),
+    fetcher(LISTENING_HISTORY_ENDPOINTS.recentlyPlayed)
+  ]);
+
+  return {
+    topArtists: (topArtists?.items || []).filter((artist: any) => artist?.id),
+    topTracks: (topTracks?.items || []).filter((track: any) => track?.id),
+    recentlyPlayed: (recentlyPlayed?.items || [])
+      .filter((item: any) => item?.track?.id)
+      .map((item: any) => ({ track: item.track, playedAt: new Date(item.played_at || Date.now()) }))
+  };
+};
+
+/**
+ * spotify ids of every track in the history, for looking up stored audio features
+ */
+export const historyTrackIds = (history: ListeningHistory): string[] => {
+  return Array.from(new Set([
+    ...history.topTracks.map(track => track.id as string),
+    ...history.recentlyPlayed.map(item => item.track.id as string)
+  ]));
+};
+
+/**
+ * one liked event per top artist, top track and recent play. top items count as
+ * listened to today; recent plays decay from when they were played. track genres
+ * come from their artists, looking up any artist that isn't already a top artist
+ */
+export const buildListeningEvents = async (
+  history: ListeningHistory,
+  fetcher: SpotifyFetcher,
+  { now = new Date(), trackFeatures = new Map() }: { now?: Date; trackFeatures?: Map<string, AudioFeatureVector> } = {}
+): Promise<TasteEvent[]> => {
+  const artistGenres = new Map<string, string[]>();
+  history.topArtists.forEach(artist => artistGenres.set(artist.id, artist.genres || []));
+
+  const tracks = [...history.topTracks, ...history.recentlyPlayed.map(item => item.track)];
+  const missingArtistIds = Array.from(new Set(
+    tracks
+      .flatMap(track => (track.artists || []).map((artist: any) => artist?.id))
+      .filter((artistId: any): artistId is string => typeof artistId === 'string' && !artistGenres.has(artistId))
+  ));
+  if (missingArtistIds.length > 0) {
+    (await fetchArtistGenres(missingArtistIds, fetcher)).forEach((genres, artistId) => artistGenres.set(artistId, genres));
+  }
+
+  const trackEvent = (track: any, timestamp: Date): TasteEvent => {
+    const rawGenres = (track.artists || []).flatMap((artist: any) => artistGenres.get(artist?.id) || []);
+    return {
+      direction: 'right',
+      timestamp,
+      audioFeatures: trackFeatures.get(track.id) || null,
+      genres: classifyGenres(rawGenres).genres
+    };
+  };
+
+  return [
+    ...history.topArtists.map((artist): TasteEvent => ({
+      direction: 'right',
+      timestamp: now,
+      genres: classifyGenres(artist.genres || []).genres
+    })),
+    ...history.topTracks.map(track => trackEvent(track, now)),
+    ...history.recentlyPlayed.map(item => trackEvent(item.track, item.playedAt))
+  ];
+};
+
+/**
+ * the taste profile a user starts with before they have swiped anything
+ */
+export const seedTasteProfile = (events: TasteEvent[], now: Date = new Date()): TasteProfile => {
+  const profile = computeTasteProfile(events, { now });
+  return { ...profile, genres: profile.genres.slice(0, MAX_SEEDED_GENRES) };
+};
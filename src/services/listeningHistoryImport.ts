@@ -0,0 +1,112 @@
+// server job that seeds a spotify-connected user's music preferences from their listening history
+import { Firestore } from 'firebase-admin/firestore';
+import { SpotifyFetcher } from './genreEnrichment';
+import { buildListeningEvents, fetchListeningHistory, historyTrackIds, seedTasteProfile } from './listeningHistory';
+import { getOrAnalyzePreview } from './previewAnalysis';
+import { SpotifyClient, getSpotifyClient } from './spotifyClient';
+import { createUserSpotifyRequest, getValidUserSpotifyTokens } from './spotifyTokens';
+import { AudioFeatureVector, TasteSeed, isAudioFeatureVector } from './tasteProfile';
+import { getPacificTime } from './timeUtils';
+import { loadTrackRecords } from './tracksAdmin';
+
+// preview clips analyzed per import for the most-listened tracks the track store has no features for
+export const MAX_ANALYZED_HISTORY_TRACKS = 10;
+
+export interface ListeningHistoryImportOptions {
+  client?: SpotifyClient;
+  now?: Date;
+}
+
+export interface ListeningHistoryImportSummary {
+  importedAt: Date;
+  topArtists: number;
+  topTracks: number;
+  recentlyPlayed: number;
+  genres: string[];
+  featuredTracks: number; // history tracks with audio features, stored or analyzed now
+  seeded: boolean; // true when `musicPreferences` was replaced straight away because the user hasn't swiped
+}
+
+/**
+ * measured features for the history's tracks: stored ones from `tracks/{spotifyId}`, then
+ * preview analysis for up to MAX_ANALYZED_HISTORY_TRACKS of the rest, most listened first.
+ * placeholder guesses would only add noise, so they are left out
+ */
+const loadHistoryTrackFeatures = async (
+  db: Firestore,
+  spotifyIds: string[],
+  client: SpotifyClient
+): Promise<Map<string, AudioFeatureVector>> => {
+  const tracks = await loadTrackRecords(db, spotifyIds.map(spotifyId => ({ spotifyId })));
+  const trackFeatures = new Map<string, AudioFeatureVector>();
+  tracks.forEach((track, spotifyId) => {
+    if (track.provenance !== 'placeholder' && isAudioFeatureVector(track.audioFeatures)) {
+      trackFeatures.set(spotifyId, track.audioFeatures);
+    }
+  });
+
+  const unmeasured = spotifyIds.filter(spotifyId => !trackFeatures.has(spotifyId)).slice(0, MAX_ANALYZED_HISTORY_TRACKS);
+  for (const spotifyId of unmeasured) {
+    try {
+      const analysis = await getOrAnalyzePreview(db, spotifyId, { client });
+      if (analysis && isAudioFeatureVector(analysis.features)) {
+        trackFeatures.set(spotifyId, analysis.features);
+      }
+    } catch (error) {
+      console.warn(` Could not analyze preview for history track ${spotifyId}:`, error);
+    }
+  }
+
+  return trackFeatures;
+};
+
+/**
+ * fetches the user's top artists, top tracks and recent plays and stores the resulting
+ * taste profile as their `listeningSeed`, which every rebuild of `musicPreferences`
+ * from swipes blends in. a user who hasn't swiped yet gets it as `musicPreferences` too.
+ * returns null when the user hasn't connected spotify
+ */
+export const importListeningHistory = async (
+  db: Firestore,
+  uid: string,
+  { client = getSpotifyClient(), now = new Date() }: ListeningHistoryImportOptions = {}
+): Promise<ListeningHistoryImportSummary | null> => {
+  const tokens = await getValidUserSpotifyTokens(db, uid, client);
+  if (!tokens) {
+    console.log(` User ${uid} has no Spotify connection, skipping history import`);
+    return null;
+  }
+
+  const request = createUserSpotifyRequest(db, uid, tokens, client);
+  const fetcher: SpotifyFetcher = endpoint => request(endpoint);
+
+  const history = await fetchListeningHistory(fetcher);
+
+  const trackFeatures = await loadHistoryTrackFeatures(db, historyTrackIds(history), client);
+
+  const events = await buildListeningEvents(history, fetcher, { now, trackFeatures });
+  const preferences = seedTasteProfile(events, now);
+
+  const swipesSnapshot = await db.collection('swipes').where('swiperId', '==', uid).limit(1).get();
+  const seeded = swipesSnapshot.empty;
+
+  const summary: ListeningHistoryImportSummary = {
+    importedAt: now,
+    topArtists: history.topArtists.length,
+    topTracks: history.topTracks.length,
+    recentlyPlayed: history.recentlyPlayed.length,
+    genres: preferences.genres,
+    featuredTracks: trackFeatures.size,
+    seeded
+  };
+  const listeningSeed: TasteSeed = { profile: preferences, seededAt: now };
+
+  await db.collection('users').doc(uid).update({
+    listeningHistoryImport: summary,
+    listeningSeed,
+    ...(seeded ? { musicPreferences: preferences, lastPreferencesUpdate: getPacificTime() } : {})
+  });
+
+  console.log(` Imported Spotify history for ${uid}: ${events.length} events, ${trackFeatures.size} tracks with features, ${preferences.genres.length} genres${seeded ? '' : ' (already swiping, blended in at the next preference update)'}`);
+  return summary;
+};
@@ -0,0 +1,500 @@
+// pluggable scoring strategies and ranking profiles for discover matching
+import { TextSimilarityModel, calculateTextSimilarity } from './textSimilarity';
+import { AudioFeatureVector, isAudioFeatureVector } from './tasteProfile';
+import { ExplorationConfig } from './exploration';
+
+// interfaces for the matching algorithm
+export interface UserProfile {
+  uid: string;
+  questionnaire: {
+    weekendSoundtrack: string;
+    moodGenre: string;
+    discoveryFrequency: string;
+    favoriteSongMemory: string;
+    preferredMoodTag: string;
+  };
+  musicPreferences?: {
+    genres: string[];
+    audioFeatures: AudioFeatureVector | {};          // recency-weighted centroid of liked songs
+    dislikedAudioFeatures?: AudioFeatureVector | {}; // recency-weighted centroid of passed songs
+    likedWeight?: number;
+    dislikedWeight?: number;
+    moodTags: string[];
+  };
+  engagementHistory?: {
+    likedPosts: string[];
+    matchedUsers: string[];
+    friendUsers: string[];
+    postedMoods: string[];
+  };
+  friends?: string[];
+}
+
+export interface MatchScoreComponent {
+  key: string;          // id of the scoring strategy
+  label: string;
+  score: number;        // raw 0-1 sub-score
+  weight: number;       // normalized weight applied to the sub-score
+  contribution: number; // score * weight, adds up to matchScore
+}
+
+export interface MatchSignal {
+  type: 'genre' | 'audio' | 'mood' | 'questionnaire' | 'engagement';
+  label: string;    // human readable, e.g. "shared genre: Electronic"
+  strength: number; // 0-1, used to pick the strongest signals
+}
+
+export interface MatchBreakdown {
+  profile: string; // name of the ranking config that produced the score
+  components: MatchScoreComponent[];
+  signals: MatchSignal[];
+}
+
+/**
+ * everything a strategy may look at when scoring one candidate post
+ */
+export interface ScoringContext {
+  user: UserProfile;   // the user the deck is built for
+  author: UserProfile; // the author of the candidate post
+  post: any;           // raw post document data
+  textModel?: TextSimilarityModel; // corpus-weighted model for free-text answers
+}
+
+export interface ScoringStrategy {
+  id: string;
+  label: string;
+  score: (context: ScoringContext) => number; // 0-1
+  explain?: (context: ScoringContext) => MatchSignal[];
+}
+
+/**
+ * a named set of strategy weights. strategies missing from `weights`
+ * (or weighted 0) are skipped entirely
+ */
+export interface RankingConfig {
+  name: string;
+  weights: { [strategyId: string]: number };
+  diversityLambda?: number; // relevance/variety trade-off for the deck, see diversity.ts
+  exploration?: ExplorationConfig; // deck slots reserved for under-exposed posts
+}
+
+/**
+ * calculates compatibility score between two users based on questionnaire responses
+ */
+const calculateQuestionnaireCompatibility = (
+  user1: UserProfile,
+  user2: UserProfile,
+  textSimilarity: (text1: string, text2: string) => number = calculateTextSimilarity
+): number => {
+  let score = 0;
+  let totalQuestions = 0;
+
+  // compare questionnaire responses with weighted scoring
+  const questionnaire1 = user1.questionnaire;
+  const questionnaire2 = user2.questionnaire;
+
+  if (!questionnaire1 || !questionnaire2) return 0;
+
+  // 3eekend soundtrack similarity (high weight)
+  if (questionnaire1.weekendSoundtrack && questionnaire2.weekendSoundtrack) {
+    const similarity = textSimilarity(
+      questionnaire1.weekendSoundtrack.toLowerCase(),
+      questionnaire2.weekendSoundtrack.toLowerCase()
+    );
+    score += similarity * 25; // 25% weight
+    totalQuestions += 25;
+  }
+
+  // mood genre preference (high weight)
+  if (questionnaire1.moodGenre && questionnaire2.moodGenre) {
+    const similarity = questionnaire1.moodGenre.toLowerCase() === questionnaire2.moodGenre.toLowerCase() ? 1 :
+                      textSimilarity(questionnaire1.moodGenre.toLowerCase(), questionnaire2.moodGenre.toLowerCase());
+    score += similarity * 25; // 25% weight
+    totalQuestions += 25;
+  }
+
+  // discovery frequency (medium weight)
+  if (questionnaire1.discoveryFrequency && questionnaire2.discoveryFrequency) {
+    const similarity = questionnaire1.discoveryFrequency === questionnaire2.discoveryFrequency ? 1 : 0.5;
+    score += similarity * 20; // 20% weight
+    totalQuestions += 20;
+  }
+
+  // preferred mood tag (medium weight)
+  if (questionnaire1.preferredMoodTag && questionnaire2.preferredMoodTag) {
+    const similarity = questionnaire1.preferredMoodTag.toLowerCase() === questionnaire2.preferredMoodTag.toLowerCase() ? 1 :
+                      textSimilarity(questionnaire1.preferredMoodTag.toLowerCase(), questionnaire2.preferredMoodTag.toLowerCase());
+    score += similarity * 20; // 20% weight
+    totalQuestions += 20;
+  }
+
+  // memory similarity (lower weight)
+  if (questionnaire1.favoriteSongMemory && questionnaire2.favoriteSongMemory) {
+    const similarity = textSimilarity(
+      questionnaire1.favoriteSongMemory.toLowerCase(),
+      questionnaire2.favoriteSongMemory.toLowerCase()
+    );
+    score += similarity * 10; // 10% weight
+    totalQuestions += 10;
+  }
+
+  return totalQuestions > 0 ? score / totalQuestions : 0;
+};
+
+// how hard a post that sounds like the user's passes is pushed down
+const DISLIKE_PENALTY = 0.6;
+
+/**
+ * weighted 0-1 similarity between two sets of audio features
+ */
+const calculateAudioFeatureSimilarity = (userFeatures: AudioFeatureVector, postAudioFeatures: any): number => {
+  let score = 0;
+
+  // compare each audio feature with appropriate weighting
+  const features = [
+    { name: 'valence', weight: 0.25 },      // Mood compatibility
+    { name: 'energy', weight: 0.25 },       // Energy level compatibility
+    { name: 'danceability', weight: 0.20 }, // Activity level compatibility
+    { name: 'acousticness', weight: 0.15 }, // Style preference
+    { name: 'tempo', weight: 0.15 }         // Rhythm preference
+  ];
+
+  features.forEach(feature => {
+    const userValue = userFeatures[feature.name as keyof AudioFeatureVector];
+    const postValue = postAudioFeatures[feature.name];
+
+    if (userValue !== undefined && postValue !== undefined) {
+      let similarity: number;
+
+      if (feature.name === 'tempo') {
+        // for tempo, calculate percentage difference
+        const diff = Math.abs(userValue - postValue) / Math.max(userValue, postValue);
+        similarity = Math.max(0, 1 - diff);
+      } else {
+        // for other features (0-1 scale), calculate absolute difference
+        similarity = 1 - Math.abs(userValue - postValue);
+      }
+
+      score += similarity * feature.weight;
+    }
+  });
+
+  return Math.max(0, Math.min(1, score));
+};
+
+/**
+ * calculates audio feature compatibility between user preferences and a post.
+ * closeness to the liked centroid counts for the post; being closer to the
+ * disliked centroid than the liked one counts against it, scaled by how much
+ * of the user's recent history is passes
+ */
+const calculateAudioFeatureCompatibility = (userPreferences: UserProfile['musicPreferences'], postAudioFeatures: any): number => {
+  if (!isAudioFeatureVector(userPreferences?.audioFeatures) || !postAudioFeatures) return 0.5; // neutral score
+
+  const likedSimilarity = calculateAudioFeatureSimilarity(userPreferences!.audioFeatures as AudioFeatureVector, postAudioFeatures);
+
+  const dislikedFeatures = userPreferences!.dislikedAudioFeatures;
+  if (!isAudioFeatureVector(dislikedFeatures)) return likedSimilarity;
+
+  const likedWeight = userPreferences!.likedWeight || 0;
+  const dislikedWeight = userPreferences!.dislikedWeight || 0;
+  const dislikeConfidence = likedWeight + dislikedWeight > 0 ? dislikedWeight / (likedWeight + dislikedWeight) : 0;
+
+  const dislikedSimilarity = calculateAudioFeatureSimilarity(dislikedFeatures, postAudioFeatures);
+  const penalty = DISLIKE_PENALTY * dislikeConfidence * Math.max(0, dislikedSimilarity - likedSimilarity);
+
+  return Math.max(0, Math.min(1, likedSimilarity - penalty));
+};
+
+/**
+ * calculate mood compatibility between user and post
+ */
+const calculateMoodCompatibility = (user: UserProfile, postData: any): number => {
+  const userMoodTags = user.musicPreferences?.moodTags || [];
+  const postMoodTags: string[] = postData.moodTags || [postData.mood];
+
+  if (userMoodTags.length === 0 || postMoodTags.length === 0) return 0.5;
+
+  const commonMoods = userMoodTags.filter(mood =>
+    postMoodTags.some(postMood =>
+      mood.toLowerCase() === postMood?.toLowerCase()
+    )
+  );
+
+  return commonMoods.length / Math.max(userMoodTags.length, postMoodTags.length);
+};
+
+/**
+ * calculate bonus score based on engagement patterns
+ */
+const calculateEngagementBonus = (
+  user: UserProfile,
+  author: UserProfile,
+  textSimilarity: (text1: string, text2: string) => number = calculateTextSimilarity
+): number => {
+  let bonus = 0;
+
+  // bonus if user has previously matched with similar users
+  if (user.engagementHistory?.matchedUsers && author.engagementHistory?.matchedUsers) {
+    const commonMatches = user.engagementHistory.matchedUsers.filter(id =>
+      author.engagementHistory?.matchedUsers?.includes(id)
+    );
+    bonus += commonMatches.length * 0.1;
+  }
+
+  // bonus for similar posting patterns
+  if (user.engagementHistory?.postedMoods && author.engagementHistory?.postedMoods) {
+    const moodSimilarity = textSimilarity(
+      user.engagementHistory.postedMoods.join(' '),
+      author.engagementHistory.postedMoods.join(' ')
+    );
+    bonus += moodSimilarity * 0.2;
+  }
+
+  return Math.min(bonus, 1);
+};
+
+// how close two audio feature values must be to count as "similar"
+const AUDIO_SIGNAL_THRESHOLDS: { [feature: string]: { threshold: number; label: string } } = {
+  energy: { threshold: 0.1, label: 'similar energy' },
+  valence: { threshold: 0.1, label: 'similar vibe' },
+  danceability: { threshold: 0.1, label: 'similar danceability' },
+  acousticness: { threshold: 0.1, label: 'similar acoustic feel' },
+  tempo: { threshold: 0.08, label: 'similar tempo' } // relative difference
+};
+
+const MAX_MATCH_SIGNALS = 3;
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+/**
+ * genres and audio features the post shares with the user's learned taste
+ */
+const explainAudioMatch = ({ user, post }: ScoringContext): MatchSignal[] => {
+  const signals: MatchSignal[] = [];
+
+  // genres the user already likes that this song shares
+  const userGenres = (user.musicPreferences?.genres || []).map(genre => genre.toLowerCase());
+  const postGenres: string[] = post.song?.genres || [];
+  postGenres
+    .filter(genre => userGenres.includes(genre.toLowerCase()))
+    .forEach(genre => signals.push({ type: 'genre', label: `shared genre: ${capitalize(genre)}`, strength: 1 }));
+
+  // audio features close to the user's learned preferences
+  const userFeatures: any = user.musicPreferences?.audioFeatures;
+  const postFeatures = post.song?.audioFeatures || post.audioFeatures;
+  if (userFeatures && postFeatures) {
+    Object.keys(AUDIO_SIGNAL_THRESHOLDS).forEach(feature => {
+      const userValue = userFeatures[feature];
+      const postValue = postFeatures[feature];
+      if (typeof userValue !== 'number' || typeof postValue !== 'number') return;
+
+      const { threshold, label } = AUDIO_SIGNAL_THRESHOLDS[feature];
+      const diff = feature === 'tempo'
+        ? Math.abs(userValue - postValue) / Math.max(userValue, postValue, 1)
+        : Math.abs(userValue - postValue);
+
+      if (diff <= threshold) {
+        signals.push({ type: 'audio', label, strength: 0.9 * (1 - diff / threshold) + 0.1 });
+      }
+    });
+  }
+
+  return signals;
+};
+
+/**
+ * moods the user keeps engaging with that the post is tagged with
+ */
+const explainMoodMatch = ({ user, post }: ScoringContext): MatchSignal[] => {
+  const userMoods = (user.musicPreferences?.moodTags || []).map(mood => mood.toLowerCase());
+  const postMoods: string[] = post.moodTags || (post.mood ? [post.mood] : []);
+
+  return postMoods
+    .filter(mood => mood && userMoods.includes(mood.toLowerCase()))
+    .map(mood => ({ type: 'mood' as const, label: `shared mood: ${mood.toLowerCase()}`, strength: 0.8 }));
+};
+
+/**
+ * identical questionnaire answers
+ */
+const explainQuestionnaireMatch = ({ user, author }: ScoringContext): MatchSignal[] => {
+  const signals: MatchSignal[] = [];
+  const q1 = user.questionnaire;
+  const q2 = author.questionnaire;
+
+  if (q1?.moodGenre && q2?.moodGenre && q1.moodGenre.toLowerCase() === q2.moodGenre.toLowerCase()) {
+    signals.push({ type: 'questionnaire', label: `you both love ${q1.moodGenre}`, strength: 0.85 });
+  }
+  if (q1?.preferredMoodTag && q2?.preferredMoodTag && q1.preferredMoodTag.toLowerCase() === q2.preferredMoodTag.toLowerCase()) {
+    signals.push({ type: 'questionnaire', label: `you both reach for ${q1.preferredMoodTag.toLowerCase()} music`, strength: 0.7 });
+  }
+  if (q1?.discoveryFrequency && q2?.discoveryFrequency && q1.discoveryFrequency === q2.discoveryFrequency) {
+    signals.push({ type: 'questionnaire', label: `you both discover music ${q1.discoveryFrequency.toLowerCase()}`, strength: 0.4 });
+  }
+
+  return signals;
+};
+
+/**
+ * people the user and the author have both matched with
+ */
+const explainEngagementMatch = ({ user, author }: ScoringContext): MatchSignal[] => {
+  const commonMatches = (user.engagementHistory?.matchedUsers || []).filter(id =>
+    author.engagementHistory?.matchedUsers?.includes(id)
+  );
+  if (commonMatches.length === 0) return [];
+
+  return [{
+    type: 'engagement',
+    label: `${commonMatches.length} mutual match${commonMatches.length === 1 ? '' : 'es'}`,
+    strength: Math.min(1, 0.5 + commonMatches.length * 0.1)
+  }];
+};
+
+// registered strategies, keyed by id
+const strategyRegistry = new Map<string, ScoringStrategy>();
+
+/**
+ * register (or replace) a scoring strategy so ranking configs can weight it
+ */
+export const registerScoringStrategy = (strategy: ScoringStrategy): void => {
+  strategyRegistry.set(strategy.id, strategy);
+};
+
+/**
+ * remove a scoring strategy from the registry
+ */
+export const unregisterScoringStrategy = (strategyId: string): void => {
+  strategyRegistry.delete(strategyId);
+};
+
+export const getScoringStrategy = (strategyId: string): ScoringStrategy | undefined => {
+  return strategyRegistry.get(strategyId);
+};
+
+export const getRegisteredScoringStrategies = (): ScoringStrategy[] => {
+  return Array.from(strategyRegistry.values());
+};
+
+// built-in strategies
+registerScoringStrategy({
+  id: 'questionnaire',
+  label: 'Questionnaire',
+  score: ({ user, author, textModel }) => calculateQuestionnaireCompatibility(user, author, textModel?.similarity),
+  explain: explainQuestionnaireMatch
+});
+
+registerScoringStrategy({
+  id: 'audio',
+  label: 'Sound',
+  score: ({ user, post }) => calculateAudioFeatureCompatibility(user.musicPreferences, post.song?.audioFeatures || post.audioFeatures),
+  explain: explainAudioMatch
+});
+
+registerScoringStrategy({
+  id: 'mood',
+  label: 'Mood',
+  score: ({ user, post }) => calculateMoodCompatibility(user, post),
+  explain: explainMoodMatch
+});
+
+registerScoringStrategy({
+  id: 'engagement',
+  label: 'Community',
+  score: ({ user, author, textModel }) => calculateEngagementBonus(user, author, textModel?.similarity),
+  explain: explainEngagementMatch
+});
+
+/**
+ * named ranking profiles. `default` reproduces the original 40/30/20/10 split
+ */
+export const RANKING_PROFILES: { [name: string]: RankingConfig } = {
+  default: {
+    name: 'default',
+    weights: { questionnaire: 0.4, audio: 0.3, mood: 0.2, engagement: 0.1 }
+  },
+  'audio-heavy': {
+    name: 'audio-heavy',
+    weights: { questionnaire: 0.2, audio: 0.55, mood: 0.2, engagement: 0.05 }
+  },
+  'social-heavy': {
+    name: 'social-heavy',
+    weights: { questionnaire: 0.35, audio: 0.15, mood: 0.15, engagement: 0.35 }
+  },
+  // users without swipe history: audio preferences are only guessed from onboarding,
+  // so lean on the questionnaire and explore more to learn quickly
+  'cold-start': {
+    name: 'cold-start',
+    weights: { questionnaire: 0.5, audio: 0.2, mood: 0.25, engagement: 0.05 },
+    exploration: { fraction: 0.3, policy: 'thompson' }
+  }
+};
+
+export const DEFAULT_RANKING_PROFILE = 'default';
+
+/**
+ * resolve a profile name or inline config to a ranking config, falling back to the default profile
+ */
+export const resolveRankingConfig = (config?: RankingConfig | string): RankingConfig => {
+  if (!config) return RANKING_PROFILES[DEFAULT_RANKING_PROFILE];
+
+  if (typeof config === 'string') {
+    if (!RANKING_PROFILES[config]) {
+      console.warn(`Unknown ranking profile "${config}" - using ${DEFAULT_RANKING_PROFILE}`);
+      return RANKING_PROFILES[DEFAULT_RANKING_PROFILE];
+    }
+    return RANKING_PROFILES[config];
+  }
+
+  return config;
+};
+
+/**
+ * score one candidate post with every weighted strategy in the config
+ */
+export const scorePost = (
+  context: ScoringContext,
+  config: RankingConfig
+): { matchScore: number; matchBreakdown: MatchBreakdown } => {
+  const activeStrategies = Object.keys(config.weights)
+    .filter(strategyId => config.weights[strategyId] > 0)
+    .map(strategyId => {
+      const strategy = strategyRegistry.get(strategyId);
+      if (!strategy) {
+        console.warn(`Ranking profile "${config.name}" references unknown strategy "${strategyId}"`);
+      }
+      return strategy;
+    })
+    .filter((strategy): strategy is ScoringStrategy => !!strategy);
+
+  // normalize so matchScore stays on a 0-1 scale however the config is weighted
+  const totalWeight = activeStrategies.reduce((total, strategy) => total + config.weights[strategy.id], 0);
+
+  const components: MatchScoreComponent[] = activeStrategies.map(strategy => {
+    const score = Math.max(0, Math.min(1, strategy.score(context)));
+    const weight = totalWeight > 0 ? config.weights[strategy.id] / totalWeight : 0;
+
+    return {
+      key: strategy.id,
+      label: strategy.label,
+      score,
+      weight,
+      contribution: score * weight
+    };
+  });
+
+  const signals = activeStrategies
+    .flatMap(strategy => strategy.explain ? strategy.explain(context) : [])
+    .sort((a, b) => b.strength - a.strength)
+    .slice(0, MAX_MATCH_SIGNALS);
+
+  return {
+    matchScore: components.reduce((total, component) => total + component.contribution, 0),
+    matchBreakdown: {
+      profile: config.name,
+      components,
+      signals
+    }
+  };
+};
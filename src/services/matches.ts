@@ -53,6 +53,7 @@ export interface MatchedUserPost {
   likes: number;
   comments: number;
   createdAt: Date;
+  editedAt?: Date;
   matchId: string;
   matchedAt: Date;
   mediaUrl?: string;
@@ -213,6 +214,7 @@ export const getMatchedUsersPosts = async (userId: string): Promise<MatchedUserP
           likes: post.likes,
           comments: post.comments,
           createdAt: post.createdAt?.toDate?.() || post.createdAt,
+          editedAt: (post.editedAt as any)?.toDate?.() || post.editedAt,
           matchId: match.id,
           matchedAt: match.createdAt,
           mediaUrl: post.mediaUrl,
@@ -11,178 +11,19 @@ import {
   Timestamp
 } from 'firebase/firestore';
 import { db } from '@/services/firebase';
-import { getLastResetTime, getPacificTime } from './timeUtils';
+import { isPostLive } from './postLifecycle';
+import { resolveResetSchedule } from './resetSchedule';
+import { getLastResetTime, getPacificTime, getResetWindowKey } from './timeUtils';
+import { RankingConfig, UserProfile } from './matchScoring';
+import { DocumentLoader, createDocumentLoader, createUserProfileLoader } from './documentLoader';
+import { TasteEvent, computeTasteProfile, selectRecentSwipes, toTasteEvent, toTasteSeed } from './tasteProfile';
+import { loadTracksForPosts } from './tracks';
+import { applyTrackRecord, trackIdOf } from './trackRecords';
+import { PostWithMetadata, buildDiscoverDeck, parseDiscoverPool, rankDiscoverCandidates } from './discoverRanking';
 
 // intelligent user matching and compatibility scoring
 
-// interfaces for the matching algorithm
-interface UserProfile {
-  uid: string;
-  questionnaire: {
-    weekendSoundtrack: string;
-    moodGenre: string;
-    discoveryFrequency: string;
-    favoriteSongMemory: string;
-    preferredMoodTag: string;
-  };
-  musicPreferences?: {
-    genres: string[];
-    audioFeatures: {
-      valence: number;      // happiness/positivity
-      energy: number;       // intensity/power
-      danceability: number; // how danceable
-      acousticness: number; // acoustic vs electric
-      tempo: number;        // BPM
-    };
-    moodTags: string[];
-  };
-  engagementHistory?: {
-    likedPosts: string[];
-    matchedUsers: string[];
-    friendUsers: string[];
-    postedMoods: string[];
-  };
-  friends?: string[];
-}
-
-interface PostWithMetadata {
-  id: string;
-  userId: string;
-  song: {
-    title: string;
-    artist: string;
-    album?: string;
-    coverArtUrl?: string;
-    spotifyId?: string;
-    previewUrl?: string;
-    audioFeatures?: {
-      valence: number;
-      energy: number;
-      danceability: number;
-      acousticness: number;
-      tempo: number;
-    };
-    genres?: string[];
-  };
-  mood: string;
-  moodTags?: string[];
-  caption?: string;
-  mediaUrl?: string; 
-  mediaUrls?: string[]; 
-  createdAt: Date;
-  matchScore?: number; // calculated by algorithm
-}
-
-/**
- * calculates compatibility score between two users based on questionnaire responses
- */
-const calculateQuestionnaireCompatibility = (user1: UserProfile, user2: UserProfile): number => {
-  let score = 0;
-  let totalQuestions = 0;
-
-  // compare questionnaire responses with weighted scoring
-  const questionnaire1 = user1.questionnaire;
-  const questionnaire2 = user2.questionnaire;
-
-  // 3eekend soundtrack similarity (high weight)
-  if (questionnaire1.weekendSoundtrack && questionnaire2.weekendSoundtrack) {
-    const similarity = calculateTextSimilarity(
-      questionnaire1.weekendSoundtrack.toLowerCase(),
-      questionnaire2.weekendSoundtrack.toLowerCase()
-    );
-    score += similarity * 25; // 25% weight
-    totalQuestions += 25;
-  }
-
-  // mood genre preference (high weight)
-  if (questionnaire1.moodGenre && questionnaire2.moodGenre) {
-    const similarity = questionnaire1.moodGenre.toLowerCase() === questionnaire2.moodGenre.toLowerCase() ? 1 : 
-                      calculateTextSimilarity(questionnaire1.moodGenre.toLowerCase(), questionnaire2.moodGenre.toLowerCase());
-    score += similarity * 25; // 25% weight
-    totalQuestions += 25;
-  }
-
-  // discovery frequency (medium weight)
-  if (questionnaire1.discoveryFrequency && questionnaire2.discoveryFrequency) {
-    const similarity = questionnaire1.discoveryFrequency === questionnaire2.discoveryFrequency ? 1 : 0.5;
-    score += similarity * 20; // 20% weight
-    totalQuestions += 20;
-  }
-
-  // preferred mood tag (medium weight)
-  if (questionnaire1.preferredMoodTag && questionnaire2.preferredMoodTag) {
-    const similarity = questionnaire1.preferredMoodTag.toLowerCase() === questionnaire2.preferredMoodTag.toLowerCase() ? 1 : 
-                      calculateTextSimilarity(questionnaire1.preferredMoodTag.toLowerCase(), questionnaire2.preferredMoodTag.toLowerCase());
-    score += similarity * 20; // 20% weight
-    totalQuestions += 20;
-  }
-
-  // memory similarity (lower weight)
-  if (questionnaire1.favoriteSongMemory && questionnaire2.favoriteSongMemory) {
-    const similarity = calculateTextSimilarity(
-      questionnaire1.favoriteSongMemory.toLowerCase(),
-      questionnaire2.favoriteSongMemory.toLowerCase()
-    );
-    score += similarity * 10; // 10% weight
-    totalQuestions += 10;
-  }
-
-  return totalQuestions > 0 ? score / totalQuestions : 0;
-};
-
-/**
- * calculates audio feature compatibility between user preferences and a post
- */
-const calculateAudioFeatureCompatibility = (userPreferences: UserProfile['musicPreferences'], postAudioFeatures: any): number => {
-  if (!userPreferences?.audioFeatures || !postAudioFeatures) return 0.5; // neutral score
-
-  const userFeatures = userPreferences.audioFeatures;
-  let score = 0;
-
-  // compare each audio feature with appropriate weighting
-  const features = [
-    { name: 'valence', weight: 0.25 },      // Mood compatibility
-    { name: 'energy', weight: 0.25 },       // Energy level compatibility  
-    { name: 'danceability', weight: 0.20 }, // Activity level compatibility
-    { name: 'acousticness', weight: 0.15 }, // Style preference
-    { name: 'tempo', weight: 0.15 }         // Rhythm preference
-  ];
-
-  features.forEach(feature => {
-    const userValue = userFeatures[feature.name as keyof typeof userFeatures];
-    const postValue = postAudioFeatures[feature.name];
-    
-    if (userValue !== undefined && postValue !== undefined) {
-      let similarity: number;
-      
-      if (feature.name === 'tempo') {
-        // for tempo, calculate percentage difference
-        const diff = Math.abs(userValue - postValue) / Math.max(userValue, postValue);
-        similarity = Math.max(0, 1 - diff);
-      } else {
-        // for other features (0-1 scale), calculate absolute difference
-        similarity = 1 - Math.abs(userValue - postValue);
-      }
-      
-      score += similarity * feature.weight;
-    }
-  });
-
-  return Math.max(0, Math.min(1, score));
-};
-
-/**
- * simple text similarity calculation using Jaccard similarity
- */
-const calculateTextSimilarity = (text1: string, text2: string): number => {
-  const words1 = new Set(text1.split(/\s+/).filter(word => word.length > 2));
-  const words2 = new Set(text2.split(/\s+/).filter(word => word.length > 2));
-  
-  const intersection = new Set([...words1].filter(x => words2.has(x)));
-  const union = new Set([...words1, ...words2]);
-  
-  return union.size === 0 ? 0 : intersection.size / union.size;
-};
+export type { PostWithMetadata } from './discoverRanking';
 
 /**
  * updates user music preferences based on their engagement patterns
@@ -191,82 +32,50 @@ export const updateUserMusicPreferences = async (userId: string): Promise<void>
   try {
     console.log(` Starting music preference update for user: ${userId}`);
     
+    // both likes and passes count - passes push the profile away from what the user skips
     const swipesQuery = query(
       collection(db, 'swipes'),
-      where('swiperId', '==', userId),
-      where('direction', '==', 'right')
+      where('swiperId', '==', userId)
     );
     
-    const likedSwipes = await getDocs(swipesQuery);
-    const likedPostIds: string[] = [];
-    
-    likedSwipes.forEach(doc => {
-      likedPostIds.push(doc.data().postId);
-    });
+    const swipesSnapshot = await getDocs(swipesQuery);
+    const swipes = selectRecentSwipes(swipesSnapshot.docs.map(swipeDoc => swipeDoc.data()));
 
-    console.log(` Found ${likedPostIds.length} liked posts for preference analysis`);
+    const likedCount = swipes.filter(swipe => swipe.direction === 'right').length;
+    console.log(` Found ${likedCount} liked and ${swipes.length - likedCount} passed posts for preference analysis`);
     
-    if (likedPostIds.length === 0) {
+    if (likedCount === 0) {
       console.log(' No liked posts found - skipping preference update');
       return;
     }
 
-    // fetch full post data for liked posts
-    const audioFeatures: any[] = [];
-    const genres: string[] = [];
-    const moodTags: string[] = [];
-    let processedPosts = 0;
-
-    for (const postId of likedPostIds.slice(-20)) { // Last 20 liked posts
-      try {
-        const postDoc = await getDoc(doc(db, 'posts', postId));
-        if (postDoc.exists()) {
-          const postData = postDoc.data();
-          
-          console.log(` Analyzing post ${postId}:`, {
-            hasAudioFeatures: !!postData.song?.audioFeatures,
-            hasGenres: !!postData.song?.genres,
-            genres: postData.song?.genres || [],
-            hasMoodTags: !!postData.moodTags,
-            moodTags: postData.moodTags || [],
-            mood: postData.mood
-          });
-          
-          if (postData.song?.audioFeatures) {
-            audioFeatures.push(postData.song.audioFeatures);
-          }
-          
-          if (postData.song?.genres) {
-            genres.push(...postData.song.genres);
-          }
-          
-          if (postData.moodTags) {
-            moodTags.push(...postData.moodTags);
-          }
-          
-          processedPosts++;
-        }
-      } catch (error) {
-        console.error(`Error fetching post ${postId}:`, error);
-      }
-    }
+    // fetch the swiped posts in batched reads
+    const postLoader = createDocumentLoader('posts');
+    const swipedPosts = await postLoader.loadMany(swipes.map(swipe => swipe.postId));
+
+    const events: TasteEvent[] = [];
+    const tracks = await loadTracksForPosts(swipedPosts);
+    swipes.forEach((swipe, index) => {
+      const postData = swipedPosts[index];
+      if (!postData) return;
+      const trackId = trackIdOf(postData);
+      events.push(toTasteEvent(swipe, applyTrackRecord(postData, trackId ? tracks.get(trackId) : null)));
+    });
 
-    console.log(` Processed ${processedPosts} posts for preference calculation`);
-    console.log(` Found ${audioFeatures.length} audio features, ${genres.length} genres, ${moodTags.length} mood tags`);
+    console.log(` Processed ${events.length} posts for preference calculation`);
 
-    const preferences = {
-      genres: [...new Set(genres)],
-      audioFeatures: calculateAverageAudioFeatures(audioFeatures),
-      moodTags: [...new Set(moodTags)]
-    };
+    // the imported listening history keeps counting alongside swipes
+    const userRef = doc(db, 'users', userId);
+    const userDoc = await getDoc(userRef);
+    const preferences = computeTasteProfile(events, { seed: toTasteSeed(userDoc.data()?.listeningSeed) });
 
     console.log(` Calculated preferences:`, {
       uniqueGenres: preferences.genres.length,
-      audioFeatures: preferences.audioFeatures,
+      likedAudioFeatures: preferences.audioFeatures,
+      dislikedAudioFeatures: preferences.dislikedAudioFeatures,
       uniqueMoodTags: preferences.moodTags.length
     });
 
-    const userRef = doc(db, 'users', userId);
     await updateDoc(userRef, {
       musicPreferences: preferences,
       lastPreferencesUpdate: getPacificTime()
@@ -320,49 +129,109 @@ export const triggerPreferenceUpdate = async (userId: string): Promise<boolean>
   }
 };
 
+export interface IntelligentMatchOptions {
+  // named profile from RANKING_PROFILES or an inline config;
+  // when omitted the user's discover ranking experiment arm decides
+  ranking?: RankingConfig | string;
+  // share a loader with the caller so author profiles are only read once
+  userLoader?: DocumentLoader;
+}
+
 /**
- * calculates average audio features from an array of feature objects
+ * friends and matched users, whose posts never show up in discover
  */
-const calculateAverageAudioFeatures = (features: any[]): any => {
-  if (features.length === 0) return {};
-
-  const sums = {
-    valence: 0,
-    energy: 0,
-    danceability: 0,
-    acousticness: 0,
-    tempo: 0
-  };
-
-  let validFeatureCount = 0;
-
-  features.forEach(feature => {
-    if (feature && typeof feature === 'object') {
-      Object.keys(sums).forEach(key => {
-        if (feature[key] !== undefined && !isNaN(feature[key])) {
-          sums[key as keyof typeof sums] += feature[key];
-        }
-      });
-      validFeatureCount++;
+const getExcludedUserIds = async (userId: string, userData: any): Promise<string[]> => {
+  const matchesSnapshot = await getDocs(query(
+    collection(db, 'matches'),
+    where('userIds', 'array-contains', userId)
+  ));
+  const matchedUserIds: string[] = [];
+
+  matchesSnapshot.forEach(matchDoc => {
+    const otherUserId = (matchDoc.data().userIds || []).find((id: string) => id !== userId);
+    if (otherUserId) {
+      matchedUserIds.push(otherUserId);
     }
   });
 
-  if (validFeatureCount === 0) return {};
+  return Array.from(new Set([...(userData?.friends || []), ...matchedUserIds]));
+};
 
-  return {
-    valence: sums.valence / validFeatureCount,
-    energy: sums.energy / validFeatureCount,
-    danceability: sums.danceability / validFeatureCount,
-    acousticness: sums.acousticness / validFeatureCount,
-    tempo: sums.tempo / validFeatureCount
-  };
+/**
+ * reads today's precomputed pool for the user and drops posts swiped, expired, archived or
+ * deleted since it was built, along with posts by friends and matches added since. returns
+ * null when there's no pool for the user's current reset window - one built before they
+ * changed schedule doesn't count - or it has run dry
+ */
+export const getPrecomputedMatches = async (userId: string): Promise<PostWithMetadata[] | null> => {
+  try {
+    const [poolDoc, userDoc] = await Promise.all([
+      getDoc(doc(db, 'discoverPools', userId)),
+      getDoc(doc(db, 'users', userId))
+    ]);
+    const pool = poolDoc.exists() ? parseDiscoverPool(poolDoc.data()) : null;
+    const userData = userDoc.exists() ? userDoc.data() : null;
+
+    if (!pool || pool.windowKey !== getResetWindowKey(resolveResetSchedule(userData))) {
+      console.log(' No precomputed discover pool for the current window');
+      return null;
+    }
+
+    const [swipesSnapshot, excludedUserIds] = await Promise.all([
+      getDocs(query(
+        collection(db, 'swipes'),
+        where('swiperId', '==', userId)
+      )),
+      getExcludedUserIds(userId, userData)
+    ]);
+    const swipedPostIds = new Set(swipesSnapshot.docs.map(swipeDoc => swipeDoc.data().postId));
+    const excluded = new Set(excludedUserIds);
+
+    const now = new Date();
+    const candidates = pool.posts.filter(post =>
+      isPostLive(post, now) && !swipedPostIds.has(post.id) && !excluded.has(post.userId)
+    );
+
+    // the pool is only rebuilt on the next run, so re-read the posts to drop any deleted
+    // or archived since
+    const currentPosts = await createDocumentLoader('posts').loadMany(candidates.map(post => post.id));
+    const remaining = candidates.filter((post, index) => {
+      const current = currentPosts[index];
+      return !!current && isPostLive(current, now);
+    });
+    console.log(` Precomputed pool from ${pool.generatedAt}: ${remaining.length} of ${pool.posts.length} posts still live and not yet swiped or excluded`);
+
+    if (remaining.length === 0) return null;
+
+    return buildDiscoverDeck(remaining, pool.rankingConfig);
+  } catch (error: any) {
+    if (error.message?.includes('ERR_BLOCKED_BY_CLIENT') || error.toString().includes('blocked')) {
+      console.warn(' Precomputed pool read blocked by ad blocker - ranking in the browser instead');
+    } else {
+      console.warn(' Could not read precomputed discover pool - ranking in the browser instead:', error);
+    }
+    return null;
+  }
 };
 
 /**
- * main function to get intelligently matched posts for a user 
+ * main function to get intelligently matched posts for a user.
+ * serves the precomputed pool when the daily job has built one, otherwise ranks in the browser
  */
-export const getIntelligentMatches = async (userId: string): Promise<PostWithMetadata[]> => {
+export const getIntelligentMatches = async (
+  userId: string,
+  { ranking, userLoader = createUserProfileLoader() }: IntelligentMatchOptions = {}
+): Promise<PostWithMetadata[]> => {
   try {
+    // an explicit ranking means the caller wants fresh scores, not the pool's
+    if (!ranking) {
+      const precomputed = await getPrecomputedMatches(userId);
+      if (precomputed) {
+        console.log(` Returning ${precomputed.length} precomputed posts for discover feed`);
+        return precomputed;
+      }
+    }
+
     // first, try to update user preferences 
     try {
       await updateUserMusicPreferences(userId);
@@ -383,26 +252,10 @@ export const getIntelligentMatches = async (userId: string): Promise<PostWithMet
       uid: userId,
       ...userDoc.data()
     } as UserProfile;
-
-    const userFriends = currentUser.friends || [];
-    
-    const matchesQuery = query(
-      collection(db, 'matches'),
-      where('userIds', 'array-contains', userId)
-    );
-    const matchesSnapshot = await getDocs(matchesQuery);
-    const matchedUserIds: string[] = [];
-    
-    matchesSnapshot.forEach(doc => {
-      const matchData = doc.data();
-      const otherUserId = matchData.userIds.find((id: string) => id !== userId);
-      if (otherUserId) {
-        matchedUserIds.push(otherUserId);
-      }
-    });
+    userLoader.prime(userId, userDoc.data());
 
     // combine friends and matched users to exclude from discover
-    const excludedUserIds = [...new Set([...userFriends, ...matchedUserIds])];
+    const excludedUserIds = await getExcludedUserIds(userId, currentUser);
     console.log(`Excluding ${excludedUserIds.length} users from discover (friends + matches)`);
 
     // get posts that haven't been swiped yet
@@ -418,8 +271,8 @@ export const getIntelligentMatches = async (userId: string): Promise<PostWithMet
       swipedPostIds.push(doc.data().postId);
     });
 
-    // get all recent posts
-    const lastReset = getLastResetTime();
+    // get all posts since the user's own last reset
+    const lastReset = getLastResetTime(resolveResetSchedule(currentUser));
     const postsQuery = query(
       collection(db, 'posts'),
       where('userId', '!=', userId),
@@ -430,107 +283,38 @@ export const getIntelligentMatches = async (userId: string): Promise<PostWithMet
     );
 
     const postsSnapshot = await getDocs(postsQuery);
-    const candidatePosts: PostWithMetadata[] = [];
 
     console.log(` Found ${postsSnapshot.docs.length} posts from database query`);
     console.log(` Already swiped on ${swipedPostIds.length} posts`);
 
-    // filter and score posts
-    let processedCount = 0;
-    let skippedAlreadySwiped = 0;
-    let skippedExcludedUsers = 0;
-    let skippedMissingAuthor = 0;
-    
-    for (const postDoc of postsSnapshot.docs) {
-      if (swipedPostIds.includes(postDoc.id)) {
-        skippedAlreadySwiped++;
-        continue; // skip already swiped
-      }
-
-      const postData = postDoc.data();
-      
-      // EXCLUDE posts from friends and matched users
-      if (excludedUserIds.includes(postData.userId)) {
-        console.log(`Excluding post from ${postData.userId} (friend/match)`);
-        skippedExcludedUsers++;
-        continue;
-      }
-
-      // get the post author's profile for compatibility scoring
-      const authorDoc = await getDoc(doc(db, 'users', postData.userId));
-      if (!authorDoc.exists()) {
-        skippedMissingAuthor++;
-        continue;
-      }
-
-      const authorProfile: UserProfile = {
-        uid: postData.userId,
-        ...authorDoc.data()
-      } as UserProfile;
-
-      let matchScore = 0;
-
-      // questionnaire compatibility (40% weight)
-      const questionnaireScore = calculateQuestionnaireCompatibility(currentUser, authorProfile);
-      matchScore += questionnaireScore * 0.4;
-
-      // audio feature compatibility (30% weight)
-      const audioScore = calculateAudioFeatureCompatibility(currentUser.musicPreferences, postData.song?.audioFeatures);
-      matchScore += audioScore * 0.3;
-
-      // mood tag compatibility (20% weight)
-      const moodScore = calculateMoodCompatibility(currentUser, postData);
-      matchScore += moodScore * 0.2;
-
-      // engagement pattern bonus (10% weight)
-      const engagementScore = calculateEngagementBonus(currentUser, authorProfile);
-      matchScore += engagementScore * 0.1;
-
-      candidatePosts.push({
-        id: postDoc.id,
-        userId: postData.userId,
-        song: postData.song ? {
-          title: postData.song.title || postData.songTitle || '',
-          artist: postData.song.artist || postData.songArtist || '',
-          album: postData.song.album || '',
-          coverArtUrl: postData.song.coverArtUrl || postData.songAlbumArt || '',
-          spotifyId: postData.song.spotifyId || postData.spotifyId || '',
-          previewUrl: postData.song.previewUrl || postData.previewUrl || '',
-          audioFeatures: postData.song.audioFeatures || postData.audioFeatures,
-          genres: postData.song.genres || []
-        } : {
-          title: postData.songTitle || '',
-          artist: postData.songArtist || '',
-          album: '',
-          coverArtUrl: postData.songAlbumArt || '',
-          spotifyId: postData.spotifyId || '',
-          previewUrl: postData.previewUrl || '',
-          audioFeatures: postData.audioFeatures,
-          genres: []
-        },
-        mood: postData.mood,
-        moodTags: postData.moodTags,
-        caption: postData.caption,
-        mediaUrl: postData.mediaUrl,
-        mediaUrls: postData.mediaUrls,
-        createdAt: postData.createdAt?.toDate() || new Date(),
-        matchScore
-      });
-      
-      processedCount++;
-    }
-
-    console.log(` Processing summary:`);
-    console.log(`  - Posts processed: ${processedCount}`);
-    console.log(`  - Skipped (already swiped): ${skippedAlreadySwiped}`);
-    console.log(`  - Skipped (excluded users): ${skippedExcludedUsers}`);
-    console.log(`  - Skipped (missing author): ${skippedMissingAuthor}`);
-    console.log(`  - Final candidate posts: ${candidatePosts.length}`);
+    // load every candidate author in a handful of batched reads up front
+    const candidateAuthorIds = Array.from(new Set(
+      postsSnapshot.docs
+        .filter(postDoc => !swipedPostIds.includes(postDoc.id))
+        .map(postDoc => postDoc.data().userId as string)
+        .filter(authorId => authorId && !excludedUserIds.includes(authorId))
+    ));
+    const candidateAuthors = await userLoader.loadMany(candidateAuthorIds);
+    const authors = new Map<string, any>();
+    candidateAuthorIds.forEach((authorId, index) => authors.set(authorId, candidateAuthors[index]));
+
+    // score against the canonical track features rather than each post's snapshot
+    const candidatePosts = postsSnapshot.docs
+      .map(postDoc => ({ id: postDoc.id, data: postDoc.data() }))
+      .filter(post => isPostLive(post.data));
+    const tracks = await loadTracksForPosts(candidatePosts.map(post => post.data));
+
+    const { ranked, rankingConfig } = rankDiscoverCandidates({
+      currentUser,
+      posts: candidatePosts,
+      authors,
+      excludedUserIds,
+      swipedPostIds,
+      tracks,
+      ranking
+    });
 
- 
-    candidatePosts.sort((a, b) => (b.matchScore || 0) - (a.matchScore || 0));
-    
-    const finalPosts = candidatePosts.slice(0, 15);
+    const finalPosts = buildDiscoverDeck(ranked, rankingConfig);
     console.log(` Returning ${finalPosts.length} posts for discover feed`);
     
     return finalPosts;
@@ -547,47 +331,3 @@ export const getIntelligentMatches = async (userId: string): Promise<PostWithMet
     return [];
   }
 };
-
-/**
- * calculate mood compatibility between user and post
- */
-const calculateMoodCompatibility = (user: UserProfile, postData: any): number => {
-  const userMoodTags = user.musicPreferences?.moodTags || [];
-  const postMoodTags = postData.moodTags || [postData.mood];
-  
-  if (userMoodTags.length === 0 || postMoodTags.length === 0) return 0.5;
-  
-  const commonMoods = userMoodTags.filter(mood => 
-    postMoodTags.some(postMood => 
-      mood.toLowerCase() === postMood.toLowerCase()
-    )
-  );
-  
-  return commonMoods.length / Math.max(userMoodTags.length, postMoodTags.length);
-};
-
-/**
- * calculate bonus score based on engagement patterns
- */
-const calculateEngagementBonus = (user: UserProfile, author: UserProfile): number => {
-  let bonus = 0;
-  
-  // bonus if user has previously matched with similar users
-  if (user.engagementHistory?.matchedUsers && author.engagementHistory?.matchedUsers) {
-    const commonMatches = user.engagementHistory.matchedUsers.filter(id =>
-      author.engagementHistory?.matchedUsers?.includes(id)
-    );
-    bonus += commonMatches.length * 0.1; 
-  }
-  
-  // bonus for similar posting patterns
-  if (user.engagementHistory?.postedMoods && author.engagementHistory?.postedMoods) {
-    const moodSimilarity = calculateTextSimilarity(
-      user.engagementHistory.postedMoods.join(' '),
-      author.engagementHistory.postedMoods.join(' ')
-    );
-    bonus += moodSimilarity * 0.2;
-  }
-  
-  return Math.min(bonus, 1); 
-}; 
\ No newline at end of file
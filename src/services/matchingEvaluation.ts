@@ -0,0 +1,253 @@
+// offline replay evaluation of discover ranking configurations
+import { RANKING_PROFILES, RankingConfig, UserProfile, resolveRankingConfig } from './matchScoring';
+import { DISCOVER_DECK_SIZE, buildDiscoverDeck, rankDiscoverCandidates } from './discoverRanking';
+import { TasteEvent, computeTasteProfile, toTasteEvent, toTasteSeed } from './tasteProfile';
+
+export interface EvaluationSwipe {
+  swiperId: string;
+  postId: string;
+  direction: 'left' | 'right';
+  timestamp: string | Date;
+  matchId?: string; // set when the right swipe completed a match
+}
+
+export interface EvaluationDataset {
+  users: Array<{ uid: string; [field: string]: any }>;
+  posts: Array<{ id: string; userId: string; createdAt: string | Date; [field: string]: any }>;
+  swipes: EvaluationSwipe[];
+  expectations?: EvaluationExpectation[];
+}
+
+export interface EvaluationOptions {
+  k?: number;            // cutoff for precision / ndcg / match conversion
+  minJudged?: number;    // sessions with fewer swiped posts are skipped
+  sessionHours?: number; // swipes closer together than this belong to one session
+  seed?: number;         // seeds the exploration slots, so replays are repeatable
+  userIds?: string[];    // only replay these users' sessions
+}
+
+/**
+ * a ranking difference the dataset was built to show: on `userId`'s sessions, `better`
+ * must score strictly higher than `than` on `metric`
+ */
+export interface EvaluationExpectation {
+  userId: string;
+  metric: 'precisionAtK' | 'ndcgAtK' | 'matchConversionAtK';
+  better: string;
+  than: string;
+  note?: string;
+}
+
+export interface ExpectationResult {
+  expectation: EvaluationExpectation;
+  betterScore: number;
+  thanScore: number;
+  passed: boolean;
+}
+
+export interface EvaluationResult {
+  profile: string;
+  k: number;
+  sessions: number;            // replayed sessions that had at least one like
+  precisionAtK: number;        // share of the top k that were liked
+  ndcgAtK: number;             // likes near the top score higher; matched likes count double
+  matchConversionAtK: number;  // share of the top k that were liked and became matches
+}
+
+interface ReplaySession {
+  userId: string;
+  start: Date;
+  swipes: EvaluationSwipe[];
+}
+
+const DEFAULT_K = 5;
+const HOUR_MS = 60 * 60 * 1000;
+
+const toDate = (value: string | Date): Date => (value instanceof Date ? value : new Date(value));
+
+/**
+ * mulberry32, seeded from `seed` and a session key. every profile replays a session with
+ * the same sequence, so exploration luck doesn't decide comparisons between them
+ */
+const createSeededRandom = (seed: number, key: string): (() => number) => {
+  let state = seed >>> 0;
+  for (let i = 0; i < key.length; i++) {
+    state = Math.imul(state ^ key.charCodeAt(i), 0x01000193) >>> 0;
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * groups each user's swipes into sessions - a run of swipes with no long gap between them
+ */
+const buildSessions = (swipes: EvaluationSwipe[], sessionHours: number): ReplaySession[] => {
+  const byUser = new Map<string, EvaluationSwipe[]>();
+  swipes.forEach(swipe => {
+    byUser.set(swipe.swiperId, [...(byUser.get(swipe.swiperId) || []), swipe]);
+  });
+
+  const sessions: ReplaySession[] = [];
+  byUser.forEach((userSwipes, userId) => {
+    const ordered = [...userSwipes].sort((a, b) => toDate(a.timestamp).getTime() - toDate(b.timestamp).getTime());
+    let current: ReplaySession | null = null;
+
+    ordered.forEach(swipe => {
+      const time = toDate(swipe.timestamp);
+      const last = current?.swipes[current.swipes.length - 1];
+      if (!current || !last || time.getTime() - toDate(last.timestamp).getTime() > sessionHours * HOUR_MS) {
+        current = { userId, start: time, swipes: [] };
+        sessions.push(current);
+      }
+      current.swipes.push(swipe);
+    });
+  });
+
+  return sessions;
+};
+
+/**
+ * graded relevance of a swiped post: pass 0, like 1, like that became a match 2
+ */
+const relevanceOf = (swipe: EvaluationSwipe | undefined): number => {
+  if (!swipe || swipe.direction !== 'right') return 0;
+  return swipe.matchId ? 2 : 1;
+};
+
+const discountedGain = (relevances: number[]): number => {
+  return relevances.reduce((total, relevance, index) => total + (Math.pow(2, relevance) - 1) / Math.log2(index + 2), 0);
+};
+
+/**
+ * the user's profile as it looked when the session started: taste learned
+ * only from swipes made before then and any listening seed, with recency
+ * measured from that moment
+ */
+const profileAt = (
+  user: { uid: string; [field: string]: any },
+  before: Date,
+  swipes: EvaluationSwipe[],
+  postsById: Map<string, any>
+): UserProfile => {
+  const events: TasteEvent[] = swipes
+    .filter(swipe => swipe.swiperId === user.uid && toDate(swipe.timestamp).getTime() < before.getTime())
+    .filter(swipe => postsById.has(swipe.postId))
+    .map(swipe => toTasteEvent(
+      { postId: swipe.postId, direction: swipe.direction, timestamp: toDate(swipe.timestamp) },
+      postsById.get(swipe.postId)
+    ));
+
+  const seed = toTasteSeed(user.listeningSeed);
+  const profile = { ...user } as UserProfile;
+  if (seed || events.some(event => event.direction === 'right')) {
+    profile.musicPreferences = computeTasteProfile(events, { now: before, seed });
+  } else {
+    delete profile.musicPreferences;
+  }
+  return profile;
+};
+
+/**
+ * replays every session in the dataset: builds the deck discover would have served from
+ * the posts the user actually swiped on - ranking, diversity and exploration slots - as
+ * if `ranking` had been live, and scores that order against what they did
+ */
+export const evaluateRanking = (
+  dataset: EvaluationDataset,
+  ranking: RankingConfig | string,
+  { k = DEFAULT_K, minJudged = 2, sessionHours = 6, seed = 1, userIds }: EvaluationOptions = {}
+): EvaluationResult => {
+  const rankingConfig = resolveRankingConfig(ranking);
+  const usersById = new Map(dataset.users.map(user => [user.uid, user] as [string, any]));
+  const postsById = new Map(dataset.posts.map(post => [post.id, post] as [string, any]));
+
+  let sessions = 0;
+  let precisionTotal = 0;
+  let ndcgTotal = 0;
+  let conversionTotal = 0;
+
+  buildSessions(dataset.swipes, sessionHours).forEach(session => {
+    if (userIds && !userIds.includes(session.userId)) return;
+    const user = usersById.get(session.userId);
+    const judged = session.swipes.filter(swipe => postsById.has(swipe.postId));
+    if (!user || judged.length < minJudged || !judged.some(swipe => swipe.direction === 'right')) return;
+
+    const judgedByPost = new Map(judged.map(swipe => [swipe.postId, swipe] as [string, EvaluationSwipe]));
+    const authors = new Map(dataset.users.map(author => [author.uid, author] as [string, any]));
+
+    const { ranked } = rankDiscoverCandidates({
+      currentUser: profileAt(user, session.start, dataset.swipes, postsById),
+      posts: judged.map(swipe => {
+        const { id, ...data } = postsById.get(swipe.postId);
+        return { id, data: { ...data, createdAt: toDate(data.createdAt) } };
+      }),
+      authors,
+      excludedUserIds: [],
+      swipedPostIds: [],
+      ranking: rankingConfig
+    });
+
+    const deck = buildDiscoverDeck(ranked, rankingConfig, {
+      limit: Math.min(DISCOVER_DECK_SIZE, ranked.length),
+      random: createSeededRandom(seed, `${session.userId}:${session.start.toISOString()}`)
+    });
+
+    const cutoff = Math.min(k, deck.length);
+    const relevances = deck.map(post => relevanceOf(judgedByPost.get(post.id)));
+    const topK = relevances.slice(0, cutoff);
+    const ideal = [...relevances].sort((a, b) => b - a).slice(0, cutoff);
+
+    const idealGain = discountedGain(ideal);
+    sessions++;
+    precisionTotal += topK.filter(relevance => relevance > 0).length / cutoff;
+    ndcgTotal += idealGain > 0 ? discountedGain(topK) / idealGain : 0;
+    conversionTotal += topK.filter(relevance => relevance === 2).length / cutoff;
+  });
+
+  return {
+    profile: rankingConfig.name,
+    k,
+    sessions,
+    precisionAtK: sessions > 0 ? precisionTotal / sessions : 0,
+    ndcgAtK: sessions > 0 ? ndcgTotal / sessions : 0,
+    matchConversionAtK: sessions > 0 ? conversionTotal / sessions : 0
+  };
+};
+
+/**
+ * evaluates several configurations over the same dataset, best ndcg first
+ */
+export const compareRankings = (
+  dataset: EvaluationDataset,
+  rankings: Array<RankingConfig | string>,
+  options: EvaluationOptions = {}
+): EvaluationResult[] => {
+  return rankings
+    .map(ranking => evaluateRanking(dataset, ranking, options))
+    .sort((a, b) => b.ndcgAtK - a.ndcgAtK);
+};
+
+/**
+ * checks each of the dataset's expectations on its user's sessions. an expectation
+ * naming a profile that isn't registered fails
+ */
+export const checkExpectations = (
+  dataset: EvaluationDataset,
+  options: EvaluationOptions = {}
+): ExpectationResult[] => {
+  return (dataset.expectations || []).map(expectation => {
+    const scoreOf = (profile: string) => (
+      RANKING_PROFILES[profile]
+        ? evaluateRanking(dataset, profile, { ...options, userIds: [expectation.userId] })[expectation.metric]
+        : NaN
+    );
+    const betterScore = scoreOf(expectation.better);
+    const thanScore = scoreOf(expectation.than);
+    return { expectation, betterScore, thanScore, passed: betterScore > thanScore };
+  });
+};
@@ -0,0 +1,86 @@
+// provider-neutral music catalog: track references, catalog tracks and the provider registry
+import { spotifyProvider } from './spotifyProvider';
+
+export type MusicProviderId = 'spotify' | 'apple' | 'deezer' | 'youtube';
+
+// which catalog a song came from and its id there; what posts store instead of a spotify id
+export interface TrackRef {
+  provider: MusicProviderId;
+  id: string;
+}
+
+export interface CatalogTrack {
+  ref: TrackRef;
+  title: string;
+  artist: string;        // every artist, comma separated
+  album?: string;
+  coverArtUrl?: string;
+  previewUrl?: string;   // short clip anyone can play, no account needed
+  durationMs?: number;
+  isrc?: string;
+}
+
+export interface MusicProvider {
+  id: MusicProviderId;
+  name: string;  // shown to users, e.g. "Open in Spotify"
+  search: (query: string, limit?: number) => Promise<CatalogTrack[]>;
+  getTrack: (id: string) => Promise<CatalogTrack | null>;
+  getPreview: (track: CatalogTrack) => Promise<string | null>;
+  getDeepLink: (id: string) => string;
+  getEmbedUrl?: (id: string) => string | null;
+}
+
+export const DEFAULT_MUSIC_PROVIDER: MusicProviderId = 'spotify';
+
+const providers = new Map<MusicProviderId, MusicProvider>([
+  [spotifyProvider.id, spotifyProvider]
+]);
+
+/**
+ * adds (or replaces) a catalog provider
+ */
+export const registerMusicProvider = (provider: MusicProvider): void => {
+  providers.set(provider.id, provider);
+};
+
+/**
+ * the provider for a catalog, or null if it isn't supported here
+ */
+export const getMusicProvider = (providerId: MusicProviderId = DEFAULT_MUSIC_PROVIDER): MusicProvider | null => {
+  return providers.get(providerId) || null;
+};
+
+export const getMusicProviders = (): MusicProvider[] => Array.from(providers.values());
+
+/**
+ * the track a post's song points at. older posts only carry a spotify id
+ */
+export const trackRefOf = (postData: any): TrackRef | null => {
+  const track = postData?.song?.track || postData?.track;
+  if (track?.provider && track?.id) return { provider: track.provider, id: track.id };
+
+  const spotifyId = postData?.song?.spotifyId || postData?.spotifyId;
+  return spotifyId ? { provider: 'spotify', id: spotifyId } : null;
+};
+
+/**
+ * stable string key for a track reference. spotify ids stay bare so keys written
+ * before other providers existed still match
+ */
+export const trackRefKey = (ref: TrackRef): string => {
+  return ref.provider === 'spotify' ? ref.id : `${ref.provider}:${ref.id}`;
+};
+
+/**
+ * true when two references point at the same catalog entry
+ */
+export const isSameTrackRef = (a: TrackRef | null | undefined, b: TrackRef | null | undefined): boolean => {
+  return !!a && !!b && a.provider === b.provider && a.id === b.id;
+};
+
+/**
+ * link that opens the track in its provider's app or site
+ */
+export const getTrackDeepLink = (ref: TrackRef): string | null => {
+  return getMusicProvider(ref.provider)?.getDeepLink(ref.id) || null;
+};
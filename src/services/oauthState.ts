@@ -0,0 +1,99 @@
+// signed, expiring oauth state tokens and pkce pairs for connecting third-party accounts
+import crypto from 'crypto';
+
+// how long a user has to finish authorizing on the provider's site
+export const OAUTH_STATE_TTL_MS = 10 * 60 * 1000;
+
+export type OAuthStateFailure = 'missing' | 'invalid' | 'expired' | 'mismatch' | 'replayed';
+
+/**
+ * a callback whose state can't be trusted. `reason` is safe to show in a redirect
+ */
+export class OAuthStateError extends Error {
+  reason: OAuthStateFailure;
+
+  constructor(reason: OAuthStateFailure, message: string) {
+    super(message);
+    this.name = 'OAuthStateError';
+    this.reason = reason;
+  }
+}
+
+export interface OAuthStatePayload {
+  uid: string;    // the firebase user who started the flow
+  nonce: string;  // single-use; also kept in a cookie on the browser that started it
+  exp: number;    // epoch ms
+}
+
+const toBase64Url = (buffer: Buffer): string => {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string): Buffer => {
+  return Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+};
+
+const sign = (data: string, secret: string): Buffer => crypto.createHmac('sha256', secret).update(data).digest();
+
+/**
+ * state for an authorize url: `<payload>.<hmac>`, both base64url
+ */
+export const createOAuthState = (
+  uid: string,
+  secret: string,
+  { now = Date.now(), ttlMs = OAUTH_STATE_TTL_MS }: { now?: number; ttlMs?: number } = {}
+): { state: string; payload: OAuthStatePayload } => {
+  const payload: OAuthStatePayload = {
+    uid,
+    nonce: toBase64Url(crypto.randomBytes(16)),
+    exp: now + ttlMs
+  };
+  const encoded = toBase64Url(Buffer.from(JSON.stringify(payload), 'utf8'));
+  return { state: `${encoded}.${toBase64Url(sign(encoded, secret))}`, payload };
+};
+
+/**
+ * checks the signature and expiry of a state from `createOAuthState` and returns its payload.
+ * whether it was already used is up to the caller
+ */
+export const verifyOAuthState = (state: string | undefined, secret: string, now: number = Date.now()): OAuthStatePayload => {
+  if (!state) {
+    throw new OAuthStateError('missing', 'OAuth state is missing');
+  }
+
+  const [encoded, signature] = state.split('.');
+  if (!encoded || !signature) {
+    throw new OAuthStateError('invalid', 'OAuth state is malformed');
+  }
+
+  const expected = sign(encoded, secret);
+  const actual = fromBase64Url(signature);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    throw new OAuthStateError('invalid', 'OAuth state signature does not match');
+  }
+
+  let payload: OAuthStatePayload;
+  try {
+    payload = JSON.parse(fromBase64Url(encoded).toString('utf8'));
+  } catch {
+    throw new OAuthStateError('invalid', 'OAuth state payload is unreadable');
+  }
+  if (!payload?.uid || !payload?.nonce || typeof payload.exp !== 'number') {
+    throw new OAuthStateError('invalid', 'OAuth state payload is incomplete');
+  }
+
+  if (now > payload.exp) {
+    throw new OAuthStateError('expired', 'OAuth state has expired');
+  }
+
+  return payload;
+};
+
+/**
+ * a pkce verifier and its S256 challenge (rfc 7636)
+ */
+export const createPkcePair = (): { codeVerifier: string; codeChallenge: string } => {
+  const codeVerifier = toBase64Url(crypto.randomBytes(64));
+  const codeChallenge = toBase64Url(crypto.createHash('sha256').update(codeVerifier).digest());
+  return { codeVerifier, codeChallenge };
+};
@@ -0,0 +1,281 @@
+// server job that keeps a user's "Resonate Discoveries" and per-match playlists in step with their swipes
+import crypto from 'crypto';
+import { Firestore } from 'firebase-admin/firestore';
+import { SpotifyClient, getSpotifyClient } from './spotifyClient';
+import { SpotifyUserRequest, createUserSpotifyRequest, getValidUserSpotifyTokens } from './spotifyTokens';
+import {
+  DISCOVERIES_PLAYLIST_NAME,
+  PlaylistDetails,
+  addPlaylistTracks,
+  createPlaylist,
+  getPlaylistTrackUris,
+  missingTrackUris,
+  spotifyUriOf
+} from './spotifyPlaylists';
+
+// firestore's getAll is happiest with modest batches
+const POSTS_PER_READ = 100;
+
+// one sync per playlist at a time; server-only, like `spotifyOAuthStates`
+const LOCKS_COLLECTION = 'playlistSyncLocks';
+
+// a sync that crashed without releasing its lock stops blocking after this long
+const SYNC_LOCK_TTL_MS = 2 * 60 * 1000;
+
+// stored on the user (`discoveriesPlaylist`) or the match (`sharedPlaylist`)
+export interface SyncedPlaylist {
+  playlistId: string;
+  ownerId: string;  // the resonate user whose spotify account holds the playlist
+  url: string | null;
+  trackCount: number;
+  syncedAt: Date;
+}
+
+export interface PlaylistSyncOptions {
+  client?: SpotifyClient;
+  now?: Date;
+}
+
+export interface PlaylistSyncResult {
+  playlistId: string;
+  url: string | null;
+  created: boolean;
+  added: number;    // tracks this sync appended
+  total: number;    // tracks in the playlist afterwards
+  skipped: number;  // liked songs that aren't on spotify or whose post is gone
+}
+
+export interface MatchForPlaylist {
+  id: string;
+  userIds: string[];
+  users?: { [userId: string]: { displayName?: string } };
+  sharedPlaylist?: SyncedPlaylist;
+}
+
+/**
+ * another sync of the same playlist is still running
+ */
+export class PlaylistSyncInProgressError extends Error {
+  constructor(lockId: string) {
+    super(`Playlist sync already running for ${lockId}`);
+    this.name = 'PlaylistSyncInProgressError';
+  }
+}
+
+/**
+ * runs `sync` while holding the lock `lockId`. reading the playlist and appending what it
+ * lacks isn't atomic, so two overlapping syncs would both append the same tracks.
+ * throws PlaylistSyncInProgressError if another sync holds an unexpired lock
+ */
+const withSyncLock = async <T>(db: Firestore, lockId: string, now: Date, sync: () => Promise<T>): Promise<T> => {
+  const lockRef = db.collection(LOCKS_COLLECTION).doc(lockId);
+  const holder = crypto.randomBytes(16).toString('hex');
+
+  await db.runTransaction(async (transaction) => {
+    const lock = (await transaction.get(lockRef)).data();
+    if (lock && lock.expiresAt > now.getTime()) {
+      throw new PlaylistSyncInProgressError(lockId);
+    }
+    transaction.set(lockRef, { holder, expiresAt: now.getTime() + SYNC_LOCK_TTL_MS });
+  });
+
+  try {
+    return await sync();
+  } finally {
+    // only release our own lock; an expired one may have been taken over
+    await db.runTransaction(async (transaction) => {
+      const lock = (await transaction.get(lockRef)).data();
+      if (lock?.holder === holder) transaction.delete(lockRef);
+    }).catch(error => console.warn(` Could not release playlist sync lock ${lockId}:`, error));
+  }
+};
+
+/**
+ * spotify uris of the songs on the given right swipes, oldest like first
+ */
+const likedTrackUris = async (db: Firestore, swipeDocs: any[]): Promise<{ uris: string[]; skipped: number }> => {
+  const postIds = swipeDocs
+    .filter(swipe => swipe.direction === 'right' && swipe.postId)
+    .sort((a, b) => (a.timestamp?.toMillis?.() || 0) - (b.timestamp?.toMillis?.() || 0))
+    .map(swipe => swipe.postId as string);
+
+  const uris: string[] = [];
+  let skipped = 0;
+  for (let i = 0; i < postIds.length; i += POSTS_PER_READ) {
+    const postDocs = await db.getAll(...postIds.slice(i, i + POSTS_PER_READ).map(postId => db.collection('posts').doc(postId)));
+    postDocs.forEach(postDoc => {
+      const uri = postDoc.exists ? spotifyUriOf(postDoc.data()) : null;
+      if (uri) uris.push(uri);
+      else skipped++;
+    });
+  }
+
+  return { uris, skipped };
+};
+
+/**
+ * adds whatever the playlist is missing. re-running with the same tracks adds nothing
+ */
+const fillPlaylist = async (
+  request: SpotifyUserRequest,
+  playlistId: string,
+  existing: string[],
+  desired: string[]
+): Promise<{ added: number; total: number }> => {
+  const missing = missingTrackUris(existing, desired);
+  if (missing.length > 0) {
+    await addPlaylistTracks(request, playlistId, missing);
+  }
+  return { added: missing.length, total: existing.length + missing.length };
+};
+
+/**
+ * brings the user's "Resonate Discoveries" playlist up to date with every song they
+ * swiped right on, creating it on first sync. null when the user hasn't connected spotify.
+ * throws PlaylistSyncInProgressError while another sync of it is running
+ */
+export const syncDiscoveriesPlaylist = async (
+  db: Firestore,
+  uid: string,
+  { client = getSpotifyClient(), now = new Date() }: PlaylistSyncOptions = {}
+): Promise<PlaylistSyncResult | null> => {
+  return withSyncLock(db, `discoveries_${uid}`, now, () => runDiscoveriesSync(db, uid, client, now));
+};
+
+const runDiscoveriesSync = async (
+  db: Firestore,
+  uid: string,
+  client: SpotifyClient,
+  now: Date
+): Promise<PlaylistSyncResult | null> => {
+  const tokens = await getValidUserSpotifyTokens(db, uid, client);
+  if (!tokens) return null;
+  const request = createUserSpotifyRequest(db, uid, tokens, client);
+
+  const swipesSnapshot = await db.collection('swipes')
+    .where('swiperId', '==', uid)
+    .where('direction', '==', 'right')
+    .get();
+  const { uris, skipped } = await likedTrackUris(db, swipesSnapshot.docs.map(swipeDoc => swipeDoc.data()));
+
+  const userRef = db.collection('users').doc(uid);
+  const stored = (await userRef.get()).data()?.discoveriesPlaylist as SyncedPlaylist | undefined;
+
+  // a playlist deleted on spotify's side is created again
+  let existing = stored ? await getPlaylistTrackUris(request, stored.playlistId) : null;
+  let playlist = stored && existing ? { id: stored.playlistId, url: stored.url } : null;
+  const created = !playlist;
+
+  if (!playlist) {
+    playlist = await createPlaylist(request, {
+      name: DISCOVERIES_PLAYLIST_NAME,
+      description: 'Songs you liked on Resonate'
+    });
+    existing = [];
+    // remember it before adding tracks, so a failed sync can't leave a second playlist behind
+    await userRef.update({
+      discoveriesPlaylist: { playlistId: playlist.id, ownerId: uid, url: playlist.url, trackCount: 0, syncedAt: now }
+    });
+  }
+
+  const { added, total } = await fillPlaylist(request, playlist.id, existing || [], uris);
+
+  await userRef.update({
+    discoveriesPlaylist: { playlistId: playlist.id, ownerId: uid, url: playlist.url, trackCount: total, syncedAt: now }
+  });
+
+  console.log(` Synced discoveries playlist for ${uid}: ${added} added, ${total} total, ${skipped} skipped`);
+  return { playlistId: playlist.id, url: playlist.url, created, added, total, skipped };
+};
+
+/**
+ * brings a match's shared playlist up to date with the songs that made the match: each
+ * member's right swipes on the other's posts. the first member to sync creates it as a
+ * collaborative playlist on their account; the other member follows it so they can add
+ * to it too. null when the user hasn't connected spotify. both members share one lock,
+ * so PlaylistSyncInProgressError is thrown while either of them is syncing it
+ */
+export const syncMatchPlaylist = async (
+  db: Firestore,
+  uid: string,
+  match: MatchForPlaylist,
+  { client = getSpotifyClient(), now = new Date() }: PlaylistSyncOptions = {}
+): Promise<PlaylistSyncResult | null> => {
+  const otherUserId = match.userIds.find(userId => userId !== uid);
+  if (!otherUserId || !match.userIds.includes(uid)) {
+    throw new Error(`User ${uid} is not part of match ${match.id}`);
+  }
+
+  return withSyncLock(db, `match_${match.id}`, now, () => runMatchSync(db, uid, otherUserId, match, client, now));
+};
+
+const runMatchSync = async (
+  db: Firestore,
+  uid: string,
+  otherUserId: string,
+  match: MatchForPlaylist,
+  client: SpotifyClient,
+  now: Date
+): Promise<PlaylistSyncResult | null> => {
+  const tokens = await getValidUserSpotifyTokens(db, uid, client);
+  if (!tokens) return null;
+  const request = createUserSpotifyRequest(db, uid, tokens, client);
+
+  const [mySwipes, theirSwipes] = await Promise.all([
+    db.collection('swipes').where('swiperId', '==', uid).where('postUserId', '==', otherUserId).get(),
+    db.collection('swipes').where('swiperId', '==', otherUserId).where('postUserId', '==', uid).get()
+  ]);
+  const { uris, skipped } = await likedTrackUris(db, [...mySwipes.docs, ...theirSwipes.docs].map(swipeDoc => swipeDoc.data()));
+
+  const matchRef = db.collection('matches').doc(match.id);
+  const stored = match.sharedPlaylist;
+
+  let existing = stored ? await getPlaylistTrackUris(request, stored.playlistId) : null;
+  let playlist = stored && existing ? { id: stored.playlistId, url: stored.url, ownerId: stored.ownerId } : null;
+  let created = false;
+
+  if (!playlist) {
+    const myName = match.users?.[uid]?.displayName || 'You';
+    const theirName = match.users?.[otherUserId]?.displayName || 'your match';
+    const details: PlaylistDetails = {
+      name: `Resonate: ${myName} & ${theirName}`,
+      description: `Songs that matched ${myName} and ${theirName} on Resonate`,
+      collaborative: true
+    };
+    const newPlaylist = await createPlaylist(request, details);
+
+    // both members may sync at once; whoever stores their playlist first wins
+    const winner = await db.runTransaction(async (transaction) => {
+      const current = (await transaction.get(matchRef)).data()?.sharedPlaylist as SyncedPlaylist | undefined;
+      if (current && current.playlistId !== stored?.playlistId) return current;
+      const sharedPlaylist: SyncedPlaylist = { playlistId: newPlaylist.id, ownerId: uid, url: newPlaylist.url, trackCount: 0, syncedAt: now };
+      transaction.update(matchRef, { sharedPlaylist });
+      return sharedPlaylist;
+    });
+
+    if (winner.playlistId !== newPlaylist.id) {
+      // spotify has no delete; unfollowing removes it from the user's library
+      await request(`/playlists/${encodeURIComponent(newPlaylist.id)}/followers`, { method: 'DELETE' });
+      existing = await getPlaylistTrackUris(request, winner.playlistId) || [];
+      playlist = { id: winner.playlistId, url: winner.url, ownerId: winner.ownerId };
+    } else {
+      existing = [];
+      playlist = { id: newPlaylist.id, url: newPlaylist.url, ownerId: uid };
+      created = true;
+    }
+  }
+
+  if (playlist.ownerId !== uid) {
+    // following is idempotent, and lets this member add to the collaborative playlist
+    await request(`/playlists/${encodeURIComponent(playlist.id)}/followers`, { method: 'PUT', body: { public: false } });
+  }
+
+  const { added, total } = await fillPlaylist(request, playlist.id, existing || [], uris);
+
+  await matchRef.update({
+    sharedPlaylist: { playlistId: playlist.id, ownerId: playlist.ownerId, url: playlist.url, trackCount: total, syncedAt: now }
+  });
+
+  console.log(` Synced playlist for match ${match.id}: ${added} added, ${total} total, ${skipped} skipped`);
+  return { playlistId: playlist.id, url: playlist.url, created, added, total, skipped };
+};
@@ -0,0 +1,65 @@
+// when posts stop being live, and how long swipes are kept. shared by the browser, api routes and jobs
+import { DEFAULT_RESET_SCHEDULE, getNextReset } from './resetSchedule';
+
+// live posts show in the feeds and discover; archived ones only in profile history and analytics
+export type PostStatus = 'active' | 'archived';
+
+// no daily window is longer than this (a 25-hour day when clocks go back), so every
+// live post was created within it
+export const LIVE_POST_LOOKBACK_MS = 25 * 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDate = (value: any): Date | null => {
+  if (!value) return null;
+  const date = value.toDate ? value.toDate() : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * when a post leaves the live feeds: the `expiresAt` stamped at creation (the author's
+ * next reset), or the default schedule's next reset for posts from before that
+ */
+export const getPostExpiry = (postData: any): Date | null => {
+  const expiresAt = toDate(postData?.expiresAt);
+  if (expiresAt) return expiresAt;
+
+  const createdAt = toDate(postData?.createdAt);
+  return createdAt ? getNextReset(DEFAULT_RESET_SCHEDULE, createdAt) : null;
+};
+
+/**
+ * whether a post belongs in the live feeds at `now`. archived posts never do, and
+ * active ones drop out at their expiry even before the archive job reaches them
+ */
+export const isPostLive = (postData: any, now: Date = new Date()): boolean => {
+  if (postData?.status === 'archived') return false;
+  const expiry = getPostExpiry(postData);
+  return !!expiry && now.getTime() < expiry.getTime();
+};
+
+/**
+ * the earliest creation time a live post can have, for narrowing feed queries
+ */
+export const getLivePostsSince = (now: Date = new Date()): Date => new Date(now.getTime() - LIVE_POST_LOOKBACK_MS);
+
+export interface SwipeRetentionPolicy {
+  leftSwipeDays: number;   // passes only matter while the post is live and for recent taste
+  rightSwipeDays: number;  // likes feed matches, playlists and weekly analytics
+}
+
+export const DEFAULT_SWIPE_RETENTION: SwipeRetentionPolicy = {
+  leftSwipeDays: 30,
+  rightSwipeDays: 365
+};
+
+/**
+ * swipes older than these times are past the policy's retention
+ */
+export const getSwipeRetentionCutoffs = (
+  policy: SwipeRetentionPolicy,
+  now: Date = new Date()
+): { left: Date; right: Date } => ({
+  left: new Date(now.getTime() - policy.leftSwipeDays * DAY_MS),
+  right: new Date(now.getTime() - policy.rightSwipeDays * DAY_MS)
+});
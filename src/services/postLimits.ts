@@ -0,0 +1,30 @@
+// the one-post-per-reset-window rule, shared by the post creation api and the browser
+import { resolveResetSchedule } from './resetSchedule';
+import { getNextResetTime, hasPostedToday } from './timeUtils';
+
+// `error` field of the api's 409 response
+export const ALREADY_POSTED_ERROR = 'already_posted';
+
+/**
+ * the user already posted in the current daily window
+ */
+export class AlreadyPostedError extends Error {
+  nextResetAt: Date; // when they can post again
+
+  constructor(nextResetAt: Date) {
+    super('You have already posted today');
+    this.name = 'AlreadyPostedError';
+    this.nextResetAt = nextResetAt;
+  }
+}
+
+/**
+ * throws AlreadyPostedError if the user document shows a post since the last reset
+ * of the user's own schedule
+ */
+export const assertCanPost = (userData: any, now: Date = new Date()): void => {
+  const schedule = resolveResetSchedule(userData);
+  if (hasPostedToday(userData?.lastPostDate, userData?.lastPostDateManual, schedule, now)) {
+    throw new AlreadyPostedError(getNextResetTime(schedule, now));
+  }
+};
@@ -0,0 +1,93 @@
+// server jobs for post expiry and swipe retention: posts are archived rather than deleted, old swipes are pruned
+import { FieldPath, Firestore, Timestamp } from 'firebase-admin/firestore';
+import { BATCH_WRITE_LIMIT, deleteQueryInBatches, updateQueryInBatches } from './firestoreBatches';
+import { DEFAULT_SWIPE_RETENTION, SwipeRetentionPolicy, getPostExpiry, getSwipeRetentionCutoffs } from './postLifecycle';
+
+/**
+ * archives every active post whose window has ended. archived posts keep all their data
+ * (swipes, comments, media) and stay in profile history and analytics. returns how many
+ */
+export const archiveExpiredPosts = async (db: Firestore, { now = new Date() }: { now?: Date } = {}): Promise<number> => {
+  const archived = await updateQueryInBatches(
+    db,
+    db.collection('posts')
+      .where('status', '==', 'active')
+      .where('expiresAt', '<=', Timestamp.fromDate(now)),
+    { status: 'archived', archivedAt: Timestamp.fromDate(now) }
+  );
+
+  console.log(` Archived ${archived} expired posts`);
+  return archived;
+};
+
+/**
+ * gives posts from before post statuses a `status` and `expiresAt`, so the archive job
+ * can find them. only touches posts missing a status; safe to re-run
+ */
+export const backfillPostLifecycle = async (
+  db: Firestore,
+  { now = new Date() }: { now?: Date } = {}
+): Promise<{ scanned: number; updated: number }> => {
+  let scanned = 0;
+  let updated = 0;
+  let lastId: string | null = null;
+
+  // page through every post by id; the filter can't be a query because the field is missing
+  while (true) {
+    let page = db.collection('posts').orderBy(FieldPath.documentId()).limit(BATCH_WRITE_LIMIT);
+    if (lastId) page = page.startAfter(lastId);
+
+    const snapshot = await page.get();
+    if (snapshot.empty) break;
+    scanned += snapshot.size;
+    lastId = snapshot.docs[snapshot.docs.length - 1].id;
+
+    const batch = db.batch();
+    let writes = 0;
+    snapshot.docs.forEach(postDoc => {
+      const postData = postDoc.data();
+      if (postData.status) return;
+
+      const expiresAt = getPostExpiry(postData);
+      if (!expiresAt) return;
+
+      const live = now.getTime() < expiresAt.getTime();
+      batch.update(postDoc.ref, {
+        expiresAt: Timestamp.fromDate(expiresAt),
+        status: live ? 'active' : 'archived',
+        ...(live ? {} : { archivedAt: Timestamp.fromDate(now) })
+      });
+      writes++;
+    });
+
+    if (writes > 0) {
+      await batch.commit();
+      updated += writes;
+    }
+    if (snapshot.size < BATCH_WRITE_LIMIT) break;
+  }
+
+  console.log(` Backfilled post status on ${updated} of ${scanned} posts`);
+  return { scanned, updated };
+};
+
+/**
+ * deletes swipes older than the policy allows. passes and likes are kept for different
+ * lengths of time. returns how many of each were deleted
+ */
+export const applySwipeRetention = async (
+  db: Firestore,
+  { policy = DEFAULT_SWIPE_RETENTION, now = new Date() }: { policy?: SwipeRetentionPolicy; now?: Date } = {}
+): Promise<{ left: number; right: number }> => {
+  const cutoffs = getSwipeRetentionCutoffs(policy, now);
+
+  const left = await deleteQueryInBatches(db, db.collection('swipes')
+    .where('direction', '==', 'left')
+    .where('timestamp', '<', Timestamp.fromDate(cutoffs.left)));
+  const right = await deleteQueryInBatches(db, db.collection('swipes')
+    .where('direction', '==', 'right')
+    .where('timestamp', '<', Timestamp.fromDate(cutoffs.right)));
+
+  console.log(` Swipe retention removed ${left} passes older than ${policy.leftSwipeDays} days and ${right} likes older than ${policy.rightSwipeDays} days`);
+  return { left, right };
+};
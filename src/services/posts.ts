@@ -1,7 +1,6 @@
 // daily song posts with 24-hour lifecycle management
 import { 
   collection, 
-  addDoc, 
   updateDoc, 
   doc, 
   getDoc, 
@@ -11,11 +10,19 @@ import {
   orderBy, 
   limit, 
   deleteDoc,
-  writeBatch,
+  increment,
   Timestamp 
 } from 'firebase/firestore';
-import { db } from './firebase';
-import { getLastResetTime, isAfterLastReset, getPacificTime } from './timeUtils';
+import { auth, db } from './firebase';
+import { getPacificTime } from './timeUtils';
+import { PostStatus, getLivePostsSince, isPostLive } from './postLifecycle';
+import { TrackProvenance } from './trackRecords';
+import { TrackRef } from './musicProvider';
+import { ALREADY_POSTED_ERROR, AlreadyPostedError } from './postLimits';
+import type { CreatePostInput, EditPostInput, PostDeletionSummary } from './postsAdmin';
+
+export { AlreadyPostedError };
+export type { CreatePostInput, EditPostInput, PostDeletionSummary };
 
 export interface Post {
   id: string;
@@ -40,36 +47,48 @@ export interface Post {
     artist: string;
     album?: string;
     coverArtUrl?: string;
-    spotifyId?: string;
+    spotifyId?: string;  // set for spotify tracks, kept for older readers
+    track?: TrackRef;    // which catalog the song is from
+    isrc?: string;
+    durationMs?: number;
+    identityId?: string; // the recording in `trackIdentities`, shared across catalogs
     previewUrl?: string;
     audioFeatures?: any;
     genres?: string[];
+    parentGenres?: string[];
+    trackProvenance?: TrackProvenance; // provenance of the features at post time
   };
   audioFeatures?: any;
   moodTags?: string[];
+  impressions?: number; // times shown in discover, drives exploration
+  rightSwipes?: number; // times liked from discover
+  editedAt?: Date;        // set once the author edits the post
+  revisionCount?: number; // earlier versions kept in `posts/{id}/revisions`
+  status?: PostStatus;    // archived once its window ends; missing on posts from before statuses
+  expiresAt?: any;        // the author's next reset after posting
 }
 
-export interface Comment {
-  id: string;
-  userId: string;
-  userDisplayName: string;
-  userPhotoURL: string;
-  content: string;
-  createdAt: Date;
+// an earlier version of an edited post
+export interface PostRevisionEntry {
+  revision: number;
+  caption: string;
+  mood: string;
+  mediaUrls: string[];
+  replacedAt: Date;
 }
 
 /**
- * Check if a post is still active
+ * Check if a post is still active: not archived and still inside its author's window
  */
-export const isPostActive = (postCreatedAt: any): boolean => {
-  return isAfterLastReset(postCreatedAt);
+export const isPostActive = (post: Post | any): boolean => {
+  return isPostLive(post);
 };
 
 /**
- * Filter out expired posts from an array
+ * Filter out expired and archived posts from an array
  */
 export const filterActivePosts = (posts: Post[]): Post[] => {
-  return posts.filter(post => isPostActive(post.createdAt));
+  return posts.filter(post => isPostActive(post));
 };
 
 /**
@@ -77,11 +96,9 @@ export const filterActivePosts = (posts: Post[]): Post[] => {
  */
 export const getActivePosts = async (): Promise<Post[]> => {
   try {
-    const lastReset = getLastResetTime();
-    
     const postsQuery = query(
       collection(db, 'posts'),
-      where('createdAt', '>', Timestamp.fromDate(lastReset)),
+      where('createdAt', '>', Timestamp.fromDate(getLivePostsSince())),
       orderBy('createdAt', 'desc'),
       limit(100) 
     );
@@ -96,7 +113,7 @@ export const getActivePosts = async (): Promise<Post[]> => {
       } as Post);
     });
 
-    return posts;
+    return filterActivePosts(posts);
   } catch (error) {
     console.error('Error fetching active posts:', error);
     return [];
@@ -108,12 +125,10 @@ export const getActivePosts = async (): Promise<Post[]> => {
  */
 export const getUserPosts = async (userId: string): Promise<Post[]> => {
   try {
-    const lastReset = getLastResetTime();
-    
     const postsQuery = query(
       collection(db, 'posts'),
       where('userId', '==', userId),
-      where('createdAt', '>', Timestamp.fromDate(lastReset)),
+      where('createdAt', '>', Timestamp.fromDate(getLivePostsSince())),
       orderBy('createdAt', 'desc')
     );
 
@@ -127,7 +142,7 @@ export const getUserPosts = async (userId: string): Promise<Post[]> => {
       } as Post);
     });
 
-    return posts;
+    return filterActivePosts(posts);
   } catch (error) {
     console.error('Error fetching user posts:', error);
     return [];
@@ -135,193 +150,120 @@ export const getUserPosts = async (userId: string): Promise<Post[]> => {
 };
 
 /**
- * clean up expired posts 
+ * create today's post through the server, which enforces one post per daily window.
+ * throws AlreadyPostedError if the user already posted since the last reset
  */
-export const cleanupExpiredPosts = async (): Promise<void> => {
+export const createPost = async (input: CreatePostInput): Promise<string> => {
+  if (!auth.currentUser) {
+    throw new Error('Must be signed in to post');
+  }
+
   try {
-    const lastReset = getLastResetTime();
-    
-    // get all posts older than last reset
-    const expiredPostsQuery = query(
-      collection(db, 'posts'),
-      where('createdAt', '<', Timestamp.fromDate(lastReset))
-    );
+    const idToken = await auth.currentUser.getIdToken();
+    const response = await fetch('/api/posts/create', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${idToken}`,
+      },
+      body: JSON.stringify(input),
+    });
 
-    const snapshot = await getDocs(expiredPostsQuery);
-    
-    if (snapshot.empty) {
-      console.log('No expired posts to clean up');
-      return;
+    const data = await response.json().catch(() => null);
+    if (response.status === 409 && data?.error === ALREADY_POSTED_ERROR) {
+      throw new AlreadyPostedError(new Date(data.nextResetAt));
+    }
+    if (!response.ok) {
+      throw new Error(data?.error || `Post creation failed with status ${response.status}`);
     }
 
-    // use batch to delete expired posts efficiently
-    const batch = writeBatch(db);
-    let deleteCount = 0;
-
-    snapshot.forEach((postDoc) => {
-      batch.delete(postDoc.ref);
-      deleteCount++;
-    });
+    return data.postId;
+  } catch (error) {
+    console.error('Error creating post:', error);
+    throw error;
+  }
+};
 
-    await batch.commit();
-    console.log(`Cleaned up ${deleteCount} expired posts`);
+/**
+ * send a post request to one of the author-only post routes with the user's id token
+ */
+const postAsAuthor = async (route: string, body: any): Promise<any> => {
+  if (!auth.currentUser) {
+    throw new Error('Must be signed in to change posts');
+  }
 
-    // also clean up related swipes and comments for expired posts
-    await cleanupRelatedData(snapshot.docs.map(doc => doc.id));
+  const idToken = await auth.currentUser.getIdToken();
+  const response = await fetch(route, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${idToken}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  const data = await response.json().catch(() => null);
+  if (response.status === 404) {
+    throw new Error('Post not found');
+  }
+  if (response.status === 403) {
+    throw new Error('You can only change your own posts');
+  }
+  if (!response.ok) {
+    throw new Error(data?.error || `Request failed with status ${response.status}`);
+  }
+  return data;
+};
 
+/**
+ * change the caption, mood or media of the user's own post. the previous version is
+ * kept as a revision. returns the new revision number, or null if nothing changed
+ */
+export const editPost = async (postId: string, changes: EditPostInput): Promise<number | null> => {
+  try {
+    const data = await postAsAuthor('/api/posts/edit', { postId, ...changes });
+    return data.revision;
   } catch (error) {
-    console.error('Error cleaning up expired posts:', error);
+    console.error('Error editing post:', error);
+    throw error;
   }
 };
 
 /**
- * clean up swipes and comments for expired posts
+ * delete the user's own post, along with its swipes, comments, revisions and uploaded media
  */
-const cleanupRelatedData = async (expiredPostIds: string[]): Promise<void> => {
+export const deletePost = async (postId: string): Promise<PostDeletionSummary> => {
   try {
-    const batch = writeBatch(db);
-    let cleanupCount = 0;
-
-
-    for (const postId of expiredPostIds) {
-      const swipesQuery = query(
-        collection(db, 'swipes'),
-        where('postId', '==', postId)
-      );
-      
-      const swipesSnapshot = await getDocs(swipesQuery);
-      swipesSnapshot.forEach((swipeDoc) => {
-        batch.delete(swipeDoc.ref);
-        cleanupCount++;
-      });
-
-      const commentsQuery = query(
-        collection(db, 'comments'),
-        where('postId', '==', postId)
-      );
-      
-      const commentsSnapshot = await getDocs(commentsQuery);
-      commentsSnapshot.forEach((commentDoc) => {
-        batch.delete(commentDoc.ref);
-        cleanupCount++;
-      });
-    }
-
-    if (cleanupCount > 0) {
-      await batch.commit();
-      console.log(`Cleaned up ${cleanupCount} related swipes and comments`);
-    }
-
+    const data = await postAsAuthor('/api/posts/delete', { postId });
+    return data.deleted;
   } catch (error) {
-    console.error('Error cleaning up related data:', error);
+    console.error('Error deleting post:', error);
+    throw error;
   }
 };
 
 /**
- * create a new post with optional audio features
+ * earlier versions of an edited post, oldest first
  */
-export const createPost = async (
-  userId: string,
-  userDisplayName: string,
-  userPhotoURL: string,
-  songTitle: string,
-  songArtist: string,
-  songAlbumArt: string,
-  spotifyId: string = '',
-  previewUrl: string = '',
-  mood: string,
-  caption: string,
-  audioFeatures?: any,
-  songObject?: {
-    title: string;
-    artist: string;
-    album?: string;
-    coverArtUrl?: string;
-    spotifyId?: string;
-    previewUrl?: string;
-    audioFeatures?: any;
-    genres?: string[];
-  },
-  mediaUrls?: string[] 
-): Promise<string> => {
+export const getPostRevisions = async (postId: string): Promise<PostRevisionEntry[]> => {
   try {
-    const postData: any = {
-      userId,
-      userDisplayName,
-      userPhotoURL,
-      songTitle,
-      songArtist,
-      songAlbumArt,
-      mood,
-      caption,
-      likes: 0,
-      comments: 0,
-      createdAt: Timestamp.fromDate(getPacificTime()),
-      updatedAt: Timestamp.fromDate(getPacificTime()),
-      moodTags: [mood] 
-    };
-    
-    // add optional Spotify fields if they exist
-    if (spotifyId) {
-      postData.spotifyId = spotifyId;
-    }
-    
-    if (previewUrl) {
-      postData.previewUrl = previewUrl;
-    }
-    
- 
-    if (mediaUrls && mediaUrls.length > 0) {
-      postData.mediaUrls = mediaUrls;
-
-      postData.mediaUrl = mediaUrls[0];
-    }
-    
-    if (audioFeatures) {
-      postData.audioFeatures = audioFeatures;
-    }
-    
-    if (songObject) {
-      postData.song = songObject;
-    } else {
-      const songData: any = {
-        title: songTitle,
-        artist: songArtist,
-        album: songArtist, 
-        coverArtUrl: songAlbumArt,
-        genres: [] 
-      };
-      
-      // only add optional fields if they have values
-      if (spotifyId) {
-        songData.spotifyId = spotifyId;
-      }
-      
-      if (previewUrl) {
-        songData.previewUrl = previewUrl;
-      }
-      
-      if (audioFeatures) {
-        songData.audioFeatures = audioFeatures;
-      }
-      
-      postData.song = songData;
-    }
-    
-    console.log('Creating post with audio features:', !!audioFeatures);
-    const postRef = await addDoc(collection(db, 'posts'), postData);
-
-    return postRef.id;
+    const revisionsSnapshot = await getDocs(query(
+      collection(db, 'posts', postId, 'revisions'),
+      orderBy('revision', 'asc')
+    ));
+
+    return revisionsSnapshot.docs.map(revisionDoc => ({
+      ...revisionDoc.data(),
+      replacedAt: revisionDoc.data().replacedAt?.toDate()
+    }) as PostRevisionEntry);
   } catch (error) {
-    console.error('Error creating post:', error);
+    console.error('Error fetching post revisions:', error);
     throw error;
   }
 };
 
 export const getFeedPosts = async (userId: string): Promise<Post[]> => {
   try {
-    const lastReset = getLastResetTime();
-    
     // get user's friends
     const userRef = doc(db, 'users', userId);
     const userDoc = await getDoc(userRef);
@@ -336,17 +278,18 @@ export const getFeedPosts = async (userId: string): Promise<Post[]> => {
     const postsQuery = query(
       collection(db, 'posts'),
       where('userId', 'in', friendIds),
-      where('createdAt', '>', Timestamp.fromDate(lastReset)),
+      where('createdAt', '>', Timestamp.fromDate(getLivePostsSince())),
       orderBy('createdAt', 'desc'),
       limit(50)
     );
 
     const postsSnapshot = await getDocs(postsQuery);
-    const posts = postsSnapshot.docs.map(doc => ({
+    const posts = filterActivePosts(postsSnapshot.docs.map(doc => ({
       id: doc.id,
       ...doc.data(),
-      createdAt: doc.data().createdAt?.toDate()
-    })) as Post[];
+      createdAt: doc.data().createdAt?.toDate(),
+      editedAt: doc.data().editedAt?.toDate()
+    })) as Post[]);
     
     // get the actual comment counts for each post
     // by querying the comments collection
@@ -357,7 +300,7 @@ export const getFeedPosts = async (userId: string): Promise<Post[]> => {
       );
       
       const commentsSnapshot = await getDocs(commentsQuery);
-      (post as any).comments = commentsSnapshot.size;
+      (post as any).comments = commentsSnapshot.docs.filter(commentDoc => !commentDoc.data().deleted).length;
     }
 
     return posts;
@@ -404,74 +347,20 @@ export const likePost = async (postId: string, userId: string): Promise<void> =>
 };
 
 /**
- * add a comment to a post
+ * count one discover impression for a post so exploration knows how exposed it is
  */
-export const addComment = async (
-  postId: string,
-  userId: string,
-  content: string
-): Promise<string> => {
+export const recordPostImpression = async (postId: string): Promise<void> => {
   try {
-    // add comment document
-    const commentRef = await addDoc(collection(db, 'comments'), {
-      postId,
-      userId,
-      content,
-      createdAt: Timestamp.fromDate(getPacificTime())
+    await updateDoc(doc(db, 'posts', postId), {
+      impressions: increment(1)
     });
-
-    // update post comment count
-    const postRef = doc(db, 'posts', postId);
-    const postDoc = await getDoc(postRef);
-    
-    if (postDoc.exists()) {
-      const currentComments = postDoc.data().comments || 0;
-      await updateDoc(postRef, {
-        comments: currentComments + 1
-      });
+  } catch (error: any) {
+    if (error.message?.includes('ERR_BLOCKED_BY_CLIENT') || error.toString().includes('blocked')) {
+      console.warn(' Impression tracking blocked by ad blocker - this is non-critical');
+    } else {
+      console.error('Error recording post impression:', error);
     }
-
-    return commentRef.id;
-  } catch (error) {
-    console.error('Error adding comment:', error);
-    throw error;
-  }
-};
-
-/**
- * get comments for a post
- */
-export const getPostComments = async (postId: string): Promise<Comment[]> => {
-  try {
-    const commentsQuery = query(
-      collection(db, 'comments'),
-      where('postId', '==', postId),
-      orderBy('createdAt', 'asc')
-    );
-
-    const commentsSnapshot = await getDocs(commentsQuery);
-    const comments = await Promise.all(
-      commentsSnapshot.docs.map(async (docSnapshot) => {
-        const commentData = docSnapshot.data();
-        const userRef = doc(db, 'users', commentData.userId);
-        const userDoc = await getDoc(userRef);
-        const userData = userDoc.data();
-
-        return {
-          id: docSnapshot.id,
-          userId: commentData.userId,
-          userDisplayName: userData?.displayName || 'Anonymous',
-          userPhotoURL: userData?.photoURL || '',
-          content: commentData.content,
-          createdAt: commentData.createdAt?.toDate()
-        };
-      })
-    );
-
-    return comments;
-  } catch (error) {
-    console.error('Error fetching comments:', error);
-    throw error;
+    // don't throw - a missed impression shouldn't break discover
   }
 };
 
@@ -487,7 +376,8 @@ export const getPostById = async (postId: string): Promise<Post | null> => {
     return {
       id: postDoc.id,
       ...postDoc.data(),
-      createdAt: postDoc.data().createdAt?.toDate()
+      createdAt: postDoc.data().createdAt?.toDate(),
+      editedAt: postDoc.data().editedAt?.toDate()
     } as Post;
   } catch (error) {
     console.error('Error fetching post:', error);
@@ -500,13 +390,11 @@ export const getPostById = async (postId: string): Promise<Post | null> => {
  */
 export const getDiscoverPosts = async (userId: string, limitCount: number = 15): Promise<Post[]> => {
   try {
-    const lastReset = getLastResetTime();
-    
     // get active posts excluding user's own posts
     const postsQuery = query(
       collection(db, 'posts'),
       where('userId', '!=', userId),
-      where('createdAt', '>', Timestamp.fromDate(lastReset)),
+      where('createdAt', '>', Timestamp.fromDate(getLivePostsSince())),
       orderBy('userId'), // Required for inequality filter
       orderBy('createdAt', 'desc'),
       limit(limitCount)
@@ -522,7 +410,7 @@ export const getDiscoverPosts = async (userId: string, limitCount: number = 15):
       } as Post);
     });
 
-    return posts;
+    return filterActivePosts(posts);
   } catch (error) {
     console.error('Error fetching discover posts:', error);
     return [];
@@ -556,6 +444,7 @@ export const getMatchFeedPosts = async (userId: string): Promise<Post[]> => {
       likes: matchedPost.likes,
       comments: matchedPost.comments,
       createdAt: matchedPost.createdAt,
+      editedAt: matchedPost.editedAt,
       likedBy: [],
       mediaUrl: matchedPost.mediaUrl, 
       mediaUrls: matchedPost.mediaUrls 
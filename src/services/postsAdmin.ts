@@ -0,0 +1,439 @@
+// server-side post writes: creation with the daily limit, and author edits (kept as revisions) and deletes
+import { FieldValue, Firestore, Timestamp } from 'firebase-admin/firestore';
+import { Storage } from 'firebase-admin/storage';
+import { deleteQueryInBatches } from './firestoreBatches';
+import { stripUndefined } from './firestoreFields';
+import { enrichTrackGenres } from './genreEnrichment';
+import { classifyGenres } from './genreTaxonomy';
+import { TrackRef } from './musicProvider';
+import { assertCanPost } from './postLimits';
+import { SpotifyClient, getSpotifyClient } from './spotifyClient';
+import { resolveResetSchedule } from './resetSchedule';
+import { getNextResetTime, getPacificTime } from './timeUtils';
+import { saveTrackIdentity, saveTrackRecord } from './tracksAdmin';
+
+export interface CreatePostInput {
+  songTitle: string;
+  songArtist: string;
+  songAlbumArt: string;
+  spotifyId?: string;
+  previewUrl?: string;
+  mood: string;
+  caption: string;
+  audioFeatures?: any;
+  song?: {
+    title: string;
+    artist: string;
+    album?: string;
+    coverArtUrl?: string;
+    spotifyId?: string;
+    track?: TrackRef;
+    isrc?: string;
+    durationMs?: number;
+    previewUrl?: string;
+    audioFeatures?: any;
+    genres?: string[];
+  };
+  mediaUrls?: string[];
+}
+
+export interface CreatePostOptions {
+  client?: SpotifyClient;
+}
+
+/**
+ * features sent with a post are the browser's own guess or a copy of what the server
+ * already stored, so they only ever count as a placeholder. analyzed features reach
+ * the track store through the analyze route, never through a post
+ */
+const requestFeatures = (audioFeatures: any): any => {
+  if (!audioFeatures || typeof audioFeatures !== 'object') return undefined;
+  return { ...audioFeatures, source: 'placeholder' };
+};
+
+/**
+ * the song fields a client may set. genres, parent genres and the isrc end up on the
+ * shared track record, so they only come from spotify
+ */
+const songFromRequest = (song: NonNullable<CreatePostInput['song']>): any => {
+  const track = song.track && typeof song.track.provider === 'string' && typeof song.track.id === 'string'
+    ? { provider: song.track.provider, id: song.track.id }
+    : undefined;
+
+  return {
+    title: song.title,
+    artist: song.artist,
+    album: song.album,
+    coverArtUrl: song.coverArtUrl,
+    spotifyId: song.spotifyId,
+    track,
+    durationMs: typeof song.durationMs === 'number' ? song.durationMs : undefined,
+    previewUrl: song.previewUrl,
+    audioFeatures: requestFeatures(song.audioFeatures),
+    genres: []
+  };
+};
+
+/**
+ * the post document for `input`, with its song enriched from spotify, linked to its
+ * recording and read through the canonical track store
+ */
+const buildPostData = async (db: Firestore, userId: string, userData: any, input: CreatePostInput, client: SpotifyClient): Promise<any> => {
+  const { songTitle, songArtist, songAlbumArt, spotifyId, previewUrl, mood, caption, mediaUrls } = input;
+  const audioFeatures = requestFeatures(input.audioFeatures);
+
+  const postData: any = {
+    userId,
+    userDisplayName: userData?.displayName || 'Anonymous',
+    userPhotoURL: userData?.photoURL || '',
+    songTitle,
+    songArtist,
+    songAlbumArt,
+    mood,
+    caption,
+    likes: 0,
+    comments: 0,
+    createdAt: Timestamp.fromDate(getPacificTime()),
+    updatedAt: Timestamp.fromDate(getPacificTime()),
+    moodTags: [mood],
+    // live until the author's next reset, then archived
+    status: 'active',
+    expiresAt: Timestamp.fromDate(getNextResetTime(resolveResetSchedule(userData)))
+  };
+
+  // add optional Spotify fields if they exist
+  if (spotifyId) {
+    postData.spotifyId = spotifyId;
+  }
+
+  if (previewUrl) {
+    postData.previewUrl = previewUrl;
+  }
+
+  if (mediaUrls && mediaUrls.length > 0) {
+    postData.mediaUrls = mediaUrls;
+    postData.mediaUrl = mediaUrls[0];
+  }
+
+  if (audioFeatures) {
+    postData.audioFeatures = audioFeatures;
+  }
+
+  if (input.song) {
+    postData.song = songFromRequest(input.song);
+  } else {
+    const songData: any = {
+      title: songTitle,
+      artist: songArtist,
+      coverArtUrl: songAlbumArt,
+      genres: []
+    };
+
+    // only add optional fields if they have values
+    if (spotifyId) {
+      songData.spotifyId = spotifyId;
+    }
+
+    if (previewUrl) {
+      songData.previewUrl = previewUrl;
+    }
+
+    if (audioFeatures) {
+      songData.audioFeatures = audioFeatures;
+    }
+
+    postData.song = songData;
+  }
+
+  // every post records which catalog its song came from
+  if (!postData.song.track && (postData.song.spotifyId || spotifyId)) {
+    postData.song.track = { provider: 'spotify', id: postData.song.spotifyId || spotifyId };
+  }
+  if (postData.song.track?.provider === 'spotify' && !postData.song.spotifyId) {
+    postData.song.spotifyId = postData.song.track.id;
+  }
+
+  // fill in genres, the album name and the ISRC from the song's spotify track and artists.
+  // the track store and enrichment only cover spotify's catalog so far
+  const trackId = postData.song.track?.provider === 'spotify' ? postData.song.track.id : null;
+  if (trackId) {
+    try {
+      const enrichment = await enrichTrackGenres(trackId, endpoint => client.get(endpoint));
+      const { genres, parentGenres } = classifyGenres([...(postData.song.genres || []), ...enrichment.genres]);
+      postData.song.genres = genres;
+      postData.song.parentGenres = parentGenres;
+      if (!postData.song.album && enrichment.album) {
+        postData.song.album = enrichment.album;
+      }
+      if (!postData.song.isrc && enrichment.isrc) {
+        postData.song.isrc = enrichment.isrc;
+      }
+      if (!postData.song.durationMs && enrichment.durationMs) {
+        postData.song.durationMs = enrichment.durationMs;
+      }
+    } catch (enrichmentError) {
+      console.warn('Could not enrich song genres - posting without them:', enrichmentError);
+    }
+  }
+
+  // link the song to its recording, so the same song from any catalog is treated as one
+  try {
+    const { identity } = await saveTrackIdentity(db, {
+      ref: postData.song.track,
+      title: postData.song.title,
+      artist: postData.song.artist,
+      durationMs: postData.song.durationMs,
+      isrc: postData.song.isrc
+    });
+    postData.song.identityId = identity.id;
+  } catch (identityError) {
+    console.warn('Could not resolve track identity - posting without one:', identityError);
+  }
+
+  // record the song in the canonical track store and post with its best known features,
+  // so everyone sharing the same song is matched on the same values
+  if (trackId) {
+    try {
+      const track = await saveTrackRecord(db, {
+        spotifyId: trackId,
+        title: postData.song.title,
+        artist: postData.song.artist,
+        album: postData.song.album,
+        coverArtUrl: postData.song.coverArtUrl,
+        previewUrl: postData.song.previewUrl || previewUrl || undefined,
+        genres: postData.song.genres || [],
+        parentGenres: postData.song.parentGenres,
+        isrc: postData.song.isrc,
+        identityId: postData.song.identityId,
+        audioFeatures: postData.song.audioFeatures || audioFeatures || undefined,
+        provenance: 'placeholder'
+      });
+
+      if (track.audioFeatures) {
+        postData.audioFeatures = track.audioFeatures;
+        postData.song.audioFeatures = track.audioFeatures;
+      }
+      postData.song.genres = track.genres;
+      if (track.parentGenres) postData.song.parentGenres = track.parentGenres;
+      postData.song.trackProvenance = track.provenance;
+    } catch (trackError) {
+      console.warn('Could not update track store - posting with local song data:', trackError);
+    }
+  }
+
+  postData.song = stripUndefined(postData.song);
+  return postData;
+};
+
+/**
+ * creates `userId`'s post for the current daily window. the window check, the post and
+ * the user's last-post marker are one transaction, so two requests racing each other
+ * still only create one post. throws AlreadyPostedError if they already posted
+ */
+export const createPostForUser = async (
+  db: Firestore,
+  userId: string,
+  input: CreatePostInput,
+  { client = getSpotifyClient() }: CreatePostOptions = {}
+): Promise<string> => {
+  const userRef = db.collection('users').doc(userId);
+
+  // fail fast before spending spotify calls; the transaction checks again
+  const userDoc = await userRef.get();
+  assertCanPost(userDoc.data());
+
+  const postData = await buildPostData(db, userId, userDoc.data(), input, client);
+  const postRef = db.collection('posts').doc();
+
+  await db.runTransaction(async (transaction) => {
+    const currentUser = await transaction.get(userRef);
+    assertCanPost(currentUser.data());
+
+    transaction.create(postRef, postData);
+    transaction.update(userRef, {
+      hasPostedToday: true,
+      lastPostDate: FieldValue.serverTimestamp(),
+      lastPostDateManual: new Date(),
+      posts: FieldValue.arrayUnion(postRef.id)
+    });
+  });
+
+  console.log(` Created post ${postRef.id} for ${userId} (audio features: ${!!postData.audioFeatures})`);
+  return postRef.id;
+};
+
+export interface EditPostInput {
+  caption?: string;
+  mood?: string;
+  mediaUrls?: string[];
+}
+
+// what a post looked like before an edit, in `posts/{postId}/revisions/{revision}`
+export interface PostRevision {
+  revision: number;   // 1 for the first edit
+  caption: string;
+  mood: string;
+  mediaUrls: string[];
+  replacedAt: Timestamp;
+}
+
+export type PostAccessFailure = 'not_found' | 'forbidden';
+
+/**
+ * the post doesn't exist, or the user isn't its author
+ */
+export class PostAccessError extends Error {
+  reason: PostAccessFailure;
+
+  constructor(reason: PostAccessFailure, message: string) {
+    super(message);
+    this.name = 'PostAccessError';
+    this.reason = reason;
+  }
+}
+
+const mediaUrlsOf = (postData: any): string[] => {
+  if (Array.isArray(postData?.mediaUrls)) return postData.mediaUrls;
+  return postData?.mediaUrl ? [postData.mediaUrl] : [];
+};
+
+const sameList = (a: string[], b: string[]): boolean => a.length === b.length && a.every((value, index) => value === b[index]);
+
+/**
+ * changes `userId`'s post. the version it replaces is kept as a revision, and the post
+ * records when it was last edited. returns the new revision number, or null when
+ * nothing actually changed
+ */
+export const editPostForUser = async (
+  db: Firestore,
+  userId: string,
+  postId: string,
+  changes: EditPostInput,
+  { now = new Date() }: { now?: Date } = {}
+): Promise<number | null> => {
+  const postRef = db.collection('posts').doc(postId);
+
+  const revision = await db.runTransaction(async (transaction) => {
+    const postDoc = await transaction.get(postRef);
+    if (!postDoc.exists) {
+      throw new PostAccessError('not_found', `Post ${postId} not found`);
+    }
+
+    const postData = postDoc.data() as any;
+    if (postData.userId !== userId) {
+      throw new PostAccessError('forbidden', `Post ${postId} belongs to another user`);
+    }
+
+    const previous = { caption: postData.caption || '', mood: postData.mood || '', mediaUrls: mediaUrlsOf(postData) };
+    const next = {
+      caption: changes.caption ?? previous.caption,
+      mood: changes.mood ?? previous.mood,
+      mediaUrls: changes.mediaUrls ?? previous.mediaUrls
+    };
+
+    if (next.caption === previous.caption && next.mood === previous.mood && sameList(next.mediaUrls, previous.mediaUrls)) {
+      return null;
+    }
+
+    // numbered documents, so two edits racing each other can't both claim a revision
+    const revision = (postData.revisionCount || 0) + 1;
+    const saved: PostRevision = { revision, ...previous, replacedAt: Timestamp.fromDate(now) };
+    transaction.create(postRef.collection('revisions').doc(String(revision)), saved);
+
+    const update: any = {
+      caption: next.caption,
+      mood: next.mood,
+      mediaUrls: next.mediaUrls,
+      mediaUrl: next.mediaUrls.length > 0 ? next.mediaUrls[0] : FieldValue.delete(),
+      editedAt: Timestamp.fromDate(now),
+      updatedAt: Timestamp.fromDate(now),
+      revisionCount: revision
+    };
+    if (next.mood !== previous.mood) {
+      update.moodTags = [next.mood];
+    }
+    transaction.update(postRef, update);
+
+    return revision;
+  });
+
+  if (revision) {
+    console.log(` Edited post ${postId} (revision ${revision})`);
+  }
+  return revision;
+};
+
+/**
+ * bucket and object path of a firebase storage download url, or null for anything else
+ */
+const storageObjectOf = (url: string): { bucket: string; path: string } | null => {
+  const match = /^https:\/\/firebasestorage\.googleapis\.com\/v0\/b\/([^/]+)\/o\/([^?]+)/.exec(url);
+  if (!match) return null;
+  try {
+    return { bucket: match[1], path: decodeURIComponent(match[2]) };
+  } catch {
+    return null;
+  }
+};
+
+export interface PostDeletionSummary {
+  swipes: number;
+  comments: number;
+  notifications: number;
+  revisions: number;
+  media: number;
+}
+
+/**
+ * deletes `userId`'s post with everything hanging off it: swipes (likes from discover),
+ * comments, notifications about it, its revisions and its uploaded media. the post
+ * itself goes last, so a failure part way can be retried. deleting today's post
+ * doesn't give back the day's post
+ */
+export const deletePostForUser = async (
+  db: Firestore,
+  storage: Storage,
+  userId: string,
+  postId: string
+): Promise<PostDeletionSummary> => {
+  const postRef = db.collection('posts').doc(postId);
+  const postDoc = await postRef.get();
+  if (!postDoc.exists) {
+    throw new PostAccessError('not_found', `Post ${postId} not found`);
+  }
+  const postData = postDoc.data() as any;
+  if (postData.userId !== userId) {
+    throw new PostAccessError('forbidden', `Post ${postId} belongs to another user`);
+  }
+
+  const revisionsSnapshot = await postRef.collection('revisions').get();
+  const mediaUrls = new Set<string>(mediaUrlsOf(postData));
+  revisionsSnapshot.forEach(revisionDoc => mediaUrlsOf(revisionDoc.data()).forEach(url => mediaUrls.add(url)));
+
+  // only the author's own uploads in the app's bucket - a post can link to any url,
+  // including download urls for other buckets the service account may be able to reach
+  const bucket = storage.bucket();
+  let media = 0;
+  for (const url of Array.from(mediaUrls)) {
+    const object = storageObjectOf(url);
+    if (!object || object.bucket !== bucket.name || !object.path.startsWith(`posts/${userId}/`)) continue;
+    await bucket.file(object.path).delete({ ignoreNotFound: true });
+    media++;
+  }
+
+  const summary: PostDeletionSummary = {
+    swipes: await deleteQueryInBatches(db, db.collection('swipes').where('postId', '==', postId)),
+    comments: await deleteQueryInBatches(db, db.collection('comments').where('postId', '==', postId)),
+    notifications: await deleteQueryInBatches(db, db.collection('notifications').where('relatedId', '==', postId)),
+    revisions: await deleteQueryInBatches(db, postRef.collection('revisions')),
+    media
+  };
+
+  const batch = db.batch();
+  batch.delete(postRef);
+  batch.update(db.collection('users').doc(userId), { posts: FieldValue.arrayRemove(postId) });
+  await batch.commit();
+
+  console.log(` Deleted post ${postId}:`, summary);
+  return summary;
+};
@@ -0,0 +1,165 @@
+// server-side download, decode and analysis of spotify preview clips, cached per track
+import { MPEGDecoder } from 'mpg123-decoder';
+import { Firestore } from 'firebase-admin/firestore';
+import { AnalyzedAudioFeatures, analyzeAudioSamples, mixToMono } from './audioAnalysis';
+import { SpotifyApiError, SpotifyClient, getSpotifyClient } from './spotifyClient';
+import { TrackRecord } from './trackRecords';
+import { saveTrackRecord } from './tracksAdmin';
+
+// only fetch from spotify's preview cdn
+const ALLOWED_PREVIEW_HOSTS = ['p.scdn.co'];
+
+// a 30 second 96-160 kbps preview is well under this
+const MAX_PREVIEW_BYTES = 5 * 1024 * 1024;
+
+// bump when the analysis changes enough that cached results should be recomputed
+export const AUDIO_ANALYSIS_VERSION = 1;
+
+/**
+ * true for https urls on the preview cdn
+ */
+export const isAllowedPreviewUrl = (previewUrl: string): boolean => {
+  try {
+    const url = new URL(previewUrl);
+    return url.protocol === 'https:' && ALLOWED_PREVIEW_HOSTS.includes(url.hostname);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * downloads a preview clip, refusing anything that isn't small audio from the preview cdn
+ */
+const downloadPreview = async (previewUrl: string, fetchImpl: typeof fetch): Promise<Uint8Array> => {
+  if (!isAllowedPreviewUrl(previewUrl)) {
+    throw new Error(`Preview URL is not on an allowed host: ${previewUrl}`);
+  }
+
+  const response = await fetchImpl(previewUrl, { redirect: 'error' });
+  if (!response.ok) {
+    throw new Error(`Preview download failed with status ${response.status}`);
+  }
+
+  const declaredLength = Number(response.headers.get('content-length') || 0);
+  if (declaredLength > MAX_PREVIEW_BYTES) {
+    throw new Error(`Preview is too large to analyze (${declaredLength} bytes)`);
+  }
+
+  const buffer = new Uint8Array(await response.arrayBuffer());
+  if (buffer.byteLength > MAX_PREVIEW_BYTES) {
+    throw new Error(`Preview is too large to analyze (${buffer.byteLength} bytes)`);
+  }
+
+  return buffer;
+};
+
+/**
+ * decodes an mp3 clip to mono pcm
+ */
+export const decodePreview = async (mp3Data: Uint8Array): Promise<{ samples: Float32Array; sampleRate: number }> => {
+  const decoder = new MPEGDecoder();
+  await decoder.ready;
+
+  try {
+    const { channelData, samplesDecoded, sampleRate, errors } = decoder.decode(mp3Data);
+    if (errors.length > 0) {
+      console.warn(` Preview decoded with ${errors.length} frame errors`);
+    }
+    if (samplesDecoded === 0) {
+      throw new Error('Preview contained no decodable audio');
+    }
+
+    return { samples: mixToMono(channelData), sampleRate };
+  } finally {
+    decoder.free();
+  }
+};
+
+/**
+ * download, decode and analyze one preview clip
+ */
+export const analyzePreview = async (previewUrl: string, fetchImpl: typeof fetch = fetch): Promise<AnalyzedAudioFeatures> => {
+  const mp3Data = await downloadPreview(previewUrl, fetchImpl);
+  const { samples, sampleRate } = await decodePreview(mp3Data);
+  return analyzeAudioSamples(samples, sampleRate);
+};
+
+/**
+ * the preview clip of `spotifyId`, looked up from spotify rather than taken from the caller,
+ * so a clip can only ever be analyzed as the track it belongs to. spotify leaves
+ * preview_url empty for many tracks; the preview finder then reads it off the track's own page
+ */
+export const findPreviewUrl = async (spotifyId: string, client: SpotifyClient = getSpotifyClient()): Promise<string | null> => {
+  let track: any;
+  try {
+    track = await client.get(`/tracks/${encodeURIComponent(spotifyId)}`);
+  } catch (error) {
+    // an unknown or removed track has no preview to find
+    if (error instanceof SpotifyApiError && (error.status === 404 || error.status === 400)) return null;
+    throw error;
+  }
+  if (track?.preview_url && isAllowedPreviewUrl(track.preview_url)) {
+    return track.preview_url;
+  }
+
+  try {
+    const spotifyPreviewFinder = require('spotify-preview-finder');
+    const searchQuery = `${track?.name || ''} ${track?.artists?.[0]?.name || ''}`.trim();
+    const previewResult = await spotifyPreviewFinder(searchQuery, 5);
+    const match = (previewResult.results || []).find((result: any) =>
+      typeof result.spotifyUrl === 'string' && result.spotifyUrl.split('?')[0].endsWith(`/track/${spotifyId}`)
+    );
+    return (match?.previewUrls || []).find(isAllowedPreviewUrl) || null;
+  } catch (error) {
+    console.log(` Could not find a preview for track ${spotifyId}:`, error);
+    return null;
+  }
+};
+
+/**
+ * true when a stored track already has features at least as good as a fresh analysis
+ */
+const hasCurrentFeatures = (track: TrackRecord): boolean => {
+  if (!track.audioFeatures) return false;
+  if (track.provenance === 'imported') return true;
+  return track.provenance === 'analyzed' && track.analysisVersion === AUDIO_ANALYSIS_VERSION;
+};
+
+/**
+ * analysis for a track, from `tracks/{spotifyId}` when it already holds imported or
+ * current-version analyzed features, otherwise analyzed now from the track's own preview
+ * clip and merged into the track. returns null when spotify has no preview for it
+ */
+export const getOrAnalyzePreview = async (
+  db: Firestore,
+  spotifyId: string,
+  { client = getSpotifyClient() }: { client?: SpotifyClient } = {}
+): Promise<{ features: AnalyzedAudioFeatures; cached: boolean } | null> => {
+  const trackDoc = await db.collection('tracks').doc(spotifyId).get();
+
+  if (trackDoc.exists) {
+    const track = trackDoc.data() as TrackRecord;
+    if (hasCurrentFeatures(track)) {
+      return { features: track.audioFeatures as AnalyzedAudioFeatures, cached: true };
+    }
+  }
+
+  const previewUrl = await findPreviewUrl(spotifyId, client);
+  if (!previewUrl) {
+    console.log(` No preview to analyze for track ${spotifyId}`);
+    return null;
+  }
+
+  console.log(` Analyzing preview for track ${spotifyId}`);
+  const features = await analyzePreview(previewUrl);
+
+  await saveTrackRecord(db, {
+    spotifyId,
+    previewUrl,
+    audioFeatures: features,
+    provenance: 'analyzed',
+    analysisVersion: AUDIO_ANALYSIS_VERSION
+  });
+
+  return { features, cached: false };
+};
@@ -0,0 +1,223 @@
+// daily reset windows in any IANA timezone. pure - every function takes the current time, so it can run against a fixed clock
+
+export interface ResetSchedule {
+  timeZone: string;   // IANA zone, e.g. "Europe/Berlin"
+  resetHour: number;  // local hour the window opens, 0-23
+}
+
+// the original schedule: 9 AM Pacific. used for anyone who hasn't picked their own
+export const DEFAULT_RESET_SCHEDULE: ResetSchedule = {
+  timeZone: 'America/Los_Angeles',
+  resetHour: 9
+};
+
+// wall-clock date and time in a zone
+interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// moving the reset can open a new window early, so users can only do it once a week
+export const RESET_SCHEDULE_CHANGE_COOLDOWN_MS = 7 * 24 * HOUR_MS;
+
+// `error` field of the api's 429 response
+export const RESET_SCHEDULE_COOLDOWN_ERROR = 'reset_schedule_cooldown';
+
+/**
+ * the user changed their schedule too recently to change it again
+ */
+export class ResetScheduleCooldownError extends Error {
+  nextChangeAt: Date; // when they can change it again
+
+  constructor(nextChangeAt: Date) {
+    super('You can only change your daily reset once a week');
+    this.name = 'ResetScheduleCooldownError';
+    this.nextChangeAt = nextChangeAt;
+  }
+}
+
+// building a formatter is slow, and every reset calculation needs one
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const getZonedParts = (instant: Date, timeZone: string): ZonedParts => {
+  const values: Record<string, number> = {};
+  getFormatter(timeZone).formatToParts(instant).forEach(part => {
+    if (part.type !== 'literal') values[part.type] = parseInt(part.value, 10);
+  });
+  return {
+    year: values.year,
+    month: values.month,
+    day: values.day,
+    // some engines still print midnight as 24 with h23
+    hour: values.hour % 24,
+    minute: values.minute,
+    second: values.second
+  };
+};
+
+/**
+ * how far the zone's wall clock is ahead of UTC at `instant`, in ms
+ */
+const getZoneOffset = (instant: number, timeZone: string): number => {
+  const parts = getZonedParts(new Date(instant), timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(instant / 1000) * 1000;
+};
+
+/**
+ * the instant the zone's clocks read `hour`:00 on the given date. when the clocks
+ * skip that hour (spring forward) it's the moment they jump past it; when they show
+ * it twice (fall back) it's the first time
+ */
+const zonedHourToInstant = (year: number, month: number, day: number, hour: number, timeZone: string): Date => {
+  const wallClock = Date.UTC(year, month - 1, day, hour);
+
+  // the offset either side of the change gives the two readings worth trying
+  const candidates = [
+    wallClock - getZoneOffset(wallClock - 12 * HOUR_MS, timeZone),
+    wallClock - getZoneOffset(wallClock + 12 * HOUR_MS, timeZone)
+  ].sort((a, b) => a - b);
+
+  const matching = candidates.filter(candidate => {
+    const parts = getZonedParts(new Date(candidate), timeZone);
+    return parts.day === day && parts.hour === hour;
+  });
+
+  if (matching.length > 0) return new Date(matching[0]);
+
+  // the hour doesn't exist that day - the clocks jumped from the earlier offset
+  return new Date(candidates[1]);
+};
+
+// calendar arithmetic on a zone's date, independent of any offset
+const shiftDate = (year: number, month: number, day: number, days: number): { year: number; month: number; day: number } => {
+  const shifted = new Date(Date.UTC(year, month - 1, day + days));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+};
+
+const formatDateKey = ({ year, month, day }: { year: number; month: number; day: number }): string => {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * the window open at `now`: when it opened, and the local date it opened on
+ */
+const getCurrentWindow = (schedule: ResetSchedule, now: Date): { openedAt: Date; date: { year: number; month: number; day: number } } => {
+  const local = getZonedParts(now, schedule.timeZone);
+  let date = { year: local.year, month: local.month, day: local.day };
+  let openedAt = zonedHourToInstant(date.year, date.month, date.day, schedule.resetHour, schedule.timeZone);
+
+  // before today's reset, the window is the one that opened yesterday
+  if (now.getTime() < openedAt.getTime()) {
+    date = shiftDate(date.year, date.month, date.day, -1);
+    openedAt = zonedHourToInstant(date.year, date.month, date.day, schedule.resetHour, schedule.timeZone);
+  }
+
+  return { openedAt, date };
+};
+
+export const isValidTimeZone = (timeZone: unknown): timeZone is string => {
+  if (typeof timeZone !== 'string' || !timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const isValidResetHour = (resetHour: unknown): resetHour is number => {
+  return typeof resetHour === 'number' && Number.isInteger(resetHour) && resetHour >= 0 && resetHour <= 23;
+};
+
+/**
+ * the schedule that applies to a user: their own `resetSchedule` if they set one, otherwise
+ * `fallback` (their community's schedule, or the default). invalid fields fall back one by one
+ */
+export const resolveResetSchedule = (userData: any, fallback: ResetSchedule = DEFAULT_RESET_SCHEDULE): ResetSchedule => {
+  const own = userData?.resetSchedule;
+  return {
+    timeZone: isValidTimeZone(own?.timeZone) ? own.timeZone : fallback.timeZone,
+    resetHour: isValidResetHour(own?.resetHour) ? own.resetHour : fallback.resetHour
+  };
+};
+
+/**
+ * throws ResetScheduleCooldownError if the user document shows a schedule change within the
+ * cooldown. picking a schedule for the first time is always allowed
+ */
+export const assertCanChangeResetSchedule = (userData: any, now: Date): void => {
+  const updatedAt = userData?.resetScheduleUpdatedAt;
+  if (!updatedAt) return;
+
+  const lastChange = updatedAt.toDate ? updatedAt.toDate() : new Date(updatedAt);
+  const nextChangeAt = new Date(lastChange.getTime() + RESET_SCHEDULE_CHANGE_COOLDOWN_MS);
+  if (now.getTime() < nextChangeAt.getTime()) {
+    throw new ResetScheduleCooldownError(nextChangeAt);
+  }
+};
+
+/**
+ * the default reset hour in `timeZone`, e.g. the zone a browser reports. unknown zones
+ * get the default schedule
+ */
+export const scheduleForTimeZone = (timeZone: string | undefined): ResetSchedule => {
+  return isValidTimeZone(timeZone)
+    ? { timeZone, resetHour: DEFAULT_RESET_SCHEDULE.resetHour }
+    : DEFAULT_RESET_SCHEDULE;
+};
+
+/**
+ * when the window open at `now` started
+ */
+export const getLastReset = (schedule: ResetSchedule, now: Date): Date => {
+  return getCurrentWindow(schedule, now).openedAt;
+};
+
+/**
+ * when the window open at `now` ends
+ */
+export const getNextReset = (schedule: ResetSchedule, now: Date): Date => {
+  const { date } = getCurrentWindow(schedule, now);
+  const next = shiftDate(date.year, date.month, date.day, 1);
+  return zonedHourToInstant(next.year, next.month, next.day, schedule.resetHour, schedule.timeZone);
+};
+
+/**
+ * id of the window open at `now`: the local date it opened on, e.g. "2024-03-07".
+ * the same on every machine whatever its own timezone
+ */
+export const getWindowKey = (schedule: ResetSchedule, now: Date): string => {
+  return formatDateKey(getCurrentWindow(schedule, now).date);
+};
+
+/**
+ * whether `instant` falls after the reset that opened the window open at `now`
+ */
+export const isInCurrentWindow = (instant: Date, schedule: ResetSchedule, now: Date): boolean => {
+  return instant.getTime() > getLastReset(schedule, now).getTime();
+};
@@ -0,0 +1,43 @@
+// server side of per-user reset schedules: changes go through here so the cooldown can't be skipped
+import { Firestore } from 'firebase-admin/firestore';
+import { ResetSchedule, assertCanChangeResetSchedule, isValidResetHour, isValidTimeZone } from './resetSchedule';
+
+/**
+ * sets `uid`'s reset schedule. the first schedule a user picks is free; after that
+ * changes throw ResetScheduleCooldownError within a week of the last one
+ */
+export const updateResetSchedule = async (
+  db: Firestore,
+  uid: string,
+  schedule: ResetSchedule,
+  { now = new Date() }: { now?: Date } = {}
+): Promise<ResetSchedule> => {
+  if (!isValidTimeZone(schedule.timeZone) || !isValidResetHour(schedule.resetHour)) {
+    throw new Error('Invalid reset schedule');
+  }
+
+  const userRef = db.collection('users').doc(uid);
+  const saved: ResetSchedule = { timeZone: schedule.timeZone, resetHour: schedule.resetHour };
+
+  await db.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+    if (!userDoc.exists) {
+      throw new Error(`User ${uid} not found`);
+    }
+
+    const userData = userDoc.data();
+    const current = userData?.resetSchedule;
+    if (current?.timeZone === saved.timeZone && current?.resetHour === saved.resetHour) return;
+
+    if (!current) {
+      transaction.update(userRef, { resetSchedule: saved });
+      return;
+    }
+
+    assertCanChangeResetSchedule(userData, now);
+    transaction.update(userRef, { resetSchedule: saved, resetScheduleUpdatedAt: now });
+  });
+
+  console.log(` Reset schedule for ${uid} is ${saved.resetHour}:00 ${saved.timeZone}`);
+  return saved;
+};
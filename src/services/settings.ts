@@ -0,0 +1,40 @@
+// account settings the server has to check before saving
+import { auth } from './firebase';
+import { RESET_SCHEDULE_COOLDOWN_ERROR, ResetSchedule, ResetScheduleCooldownError } from './resetSchedule';
+
+export { ResetScheduleCooldownError };
+
+/**
+ * saves when the user's daily window resets. throws ResetScheduleCooldownError if they
+ * already changed it within the last week
+ */
+export const saveResetSchedule = async (schedule: ResetSchedule): Promise<ResetSchedule> => {
+  if (!auth.currentUser) {
+    throw new Error('Must be signed in to change settings');
+  }
+
+  try {
+    const idToken = await auth.currentUser.getIdToken();
+    const response = await fetch('/api/users/reset-schedule', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${idToken}`,
+      },
+      body: JSON.stringify(schedule),
+    });
+
+    const data = await response.json().catch(() => null);
+    if (response.status === 429 && data?.error === RESET_SCHEDULE_COOLDOWN_ERROR) {
+      throw new ResetScheduleCooldownError(new Date(data.nextChangeAt));
+    }
+    if (!response.ok) {
+      throw new Error(data?.error || `Saving reset schedule failed with status ${response.status}`);
+    }
+
+    return data.resetSchedule;
+  } catch (error) {
+    console.error('Error saving reset schedule:', error);
+    throw error;
+  }
+};
@@ -1,17 +1,8 @@
 // spotify api integration for music search and playback
-import { db, auth } from './firebase';
-import { doc, getDoc, updateDoc } from 'firebase/firestore';
+import { auth } from './firebase';
+import { SPOTIFY_API_BASE_URL, fetchWithRetry } from './spotifyClient';
 
 // types
-export interface SpotifyToken {
-  access_token: string;
-  token_type: string;
-  expires_in: number;
-  refresh_token: string;
-  scope: string;
-  expiresAt: number;
-}
-
 export interface SpotifyTrack {
   id: string;
   name: string;
@@ -42,17 +33,18 @@ export interface SpotifyAudioFeatures {
   key: number;
   loudness: number;
   mode: number;
-  speechiness: number;
+  speechiness?: number;      // not estimated by preview analysis
   acousticness: number;
-  instrumentalness: number;
-  liveness: number;
+  instrumentalness?: number; // not estimated by preview analysis
+  liveness?: number;         // not estimated by preview analysis
   valence: number;
   tempo: number;
   duration_ms: number;
-  time_signature: number;
+  time_signature?: number;   // not estimated by preview analysis
+  source?: 'analyzed' | 'placeholder'; // measured from the preview clip or guessed from mood
 }
 
-const SPOTIFY_API_BASE = 'https://api.spotify.com/v1';
+const SPOTIFY_API_BASE = SPOTIFY_API_BASE_URL;
 
 let clientCredentialsToken = {
   access_token: '',
@@ -94,98 +86,16 @@ export const getClientCredentialsToken = async (): Promise<string> => {
 };
 
 /**
- * get Spotify tokens from user document in Firestore
- */
-export const getSpotifyTokens = async (): Promise<SpotifyToken | null> => {
-  if (!auth.currentUser) return null;
-  
-  try {
-    const userDocRef = doc(db, 'users', auth.currentUser.uid);
-    const userDoc = await getDoc(userDocRef);
-    
-    if (userDoc.exists() && userDoc.data().spotify?.tokens) {
-      const tokens = userDoc.data().spotify.tokens as SpotifyToken;
-      
-      // check if token is expired
-      if (Date.now() > tokens.expiresAt) {
-        // token is expired, refresh it
-        return refreshSpotifyToken(tokens.refresh_token);
-      }
-      
-      return tokens;
-    }
-    
-    return null;
-  } catch (error) {
-    console.error('Error getting Spotify tokens:', error);
-    return null;
-  }
-};
-
-/**
- * refresh the Spotify access token
+ * make a request to the Spotify API with the app's client credentials.
+ * users' own tokens stay on the server
  */
-export const refreshSpotifyToken = async (refreshToken: string): Promise<SpotifyToken | null> => {
-  if (!auth.currentUser) return null;
-  
-  try {
-
-    
-    const response = await fetch('/api/spotify/refresh-token', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ refreshToken }),
-    });
-    
-    if (!response.ok) {
-      throw new Error('Failed to refresh Spotify token');
-    }
-    
-    const data = await response.json();
-    
-    // calculate expiration time
-    const expiresAt = Date.now() + data.expires_in * 1000;
-    const tokens: SpotifyToken = {
-      ...data,
-      expiresAt,
-    };
-    
-    // update tokens in Firestore
-    const userDocRef = doc(db, 'users', auth.currentUser.uid);
-    await updateDoc(userDocRef, {
-      'spotify.tokens': tokens,
-      'spotifyConnected': true,
-    });
-    
-    return tokens;
-  } catch (error) {
-    console.error('Error refreshing Spotify token:', error);
-    return null;
-  }
-};
-
-/**
- * make authenticated request to Spotify API 
- */
-export const spotifyFetch = async (endpoint: string, options: RequestInit = {}, useClientCredentials = false): Promise<any> => {
-  let accessToken = '';
-  
-  if (useClientCredentials) {
-    accessToken = await getClientCredentialsToken();
-  } else {
-    const tokens = await getSpotifyTokens();
-    if (!tokens) {
-      accessToken = await getClientCredentialsToken();
-    } else {
-      accessToken = tokens.access_token;
-    }
-  }
+export const spotifyFetch = async (endpoint: string, options: RequestInit = {}): Promise<any> => {
+  const accessToken = await getClientCredentialsToken();
   
   const url = endpoint.startsWith('http') ? endpoint : `${SPOTIFY_API_BASE}${endpoint}`;
   
-  const response = await fetch(url, {
+  // waits out rate limits and retries spotify's transient 5xx errors
+  const response = await fetchWithRetry(fetch, url, {
     ...options,
     headers: {
       ...options.headers,
@@ -193,11 +103,11 @@ export const spotifyFetch = async (endpoint: string, options: RequestInit = {},
     },
   });
   
-  const data = await response.json();
+  const data = await response.json().catch(() => null);
   
   if (!response.ok) {
-    console.error('Spotify API error:', data);
-    throw new Error(data.error?.message || 'Error from Spotify API');
+    console.error('Spotify API error:', response.status, data);
+    throw new Error(data?.error?.message || 'Error from Spotify API');
   }
   
   return data;
@@ -207,9 +117,7 @@ export const spotifyFetch = async (endpoint: string, options: RequestInit = {},
 export const searchTracks = async (query: string, limit = 10): Promise<SpotifyTrack[]> => {
   try {
     const data = await spotifyFetch(
-      `/search?q=${encodeURIComponent(query)}&type=track&limit=${limit}`,
-      {},
-      true 
+      `/search?q=${encodeURIComponent(query)}&type=track&limit=${limit}`
     );
     
     return data.tracks.items;
@@ -220,14 +128,44 @@ export const searchTracks = async (query: string, limit = 10): Promise<SpotifyTr
 };
 
 
-export const getAudioFeatures = async (trackId: string, mood?: string, genre?: string): Promise<SpotifyAudioFeatures | null> => {
+export const getAudioFeatures = async (
+  trackId: string,
+  mood?: string,
+  genre?: string
+): Promise<SpotifyAudioFeatures | null> => {
   try {
     console.log(' Getting audio features for track:', trackId);
+
+    // measure the real clip when spotify has one; the server looks the clip up from the track id
+    // (many tracks only have one on their page, not in search results) and caches the analysis
+    if (trackId && auth.currentUser) {
+      try {
+        const idToken = await auth.currentUser.getIdToken();
+        const response = await fetch('/api/audio/analyze', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${idToken}`,
+          },
+          body: JSON.stringify({ spotifyId: trackId }),
+        });
+
+        if (!response.ok) {
+          throw new Error(`Audio analysis failed with status ${response.status}`);
+        }
+
+        const { features, cached } = await response.json();
+        console.log(` Using ${cached ? 'cached' : 'fresh'} analyzed audio features:`, features);
+        return { id: trackId, ...features, source: 'analyzed' };
+      } catch (analysisError) {
+        console.warn(' Preview analysis unavailable - falling back to estimated features:', analysisError);
+      }
+    }
     
     const placeholderFeatures = generatePlaceholderAudioFeatures(trackId, mood, genre);
     
     console.log(' Using placeholder audio features:', placeholderFeatures);
-    return placeholderFeatures;
+    return { ...placeholderFeatures, source: 'placeholder' };
     
   } catch (error) {
     console.error('Error getting audio features:', error);
@@ -337,7 +275,7 @@ const createSeededRandom = (seed: number) => {
 export const getTrack = async (trackId: string): Promise<SpotifyTrack | null> => {
   try {
     // use client credentials by default 
-    return await spotifyFetch(`/tracks/${trackId}`, {}, true);
+    return await spotifyFetch(`/tracks/${trackId}`);
   } catch (error) {
     console.error('Error getting track:', error);
     return null;
@@ -345,28 +283,115 @@ export const getTrack = async (trackId: string): Promise<SpotifyTrack | null> =>
 };
 
 /**
- * connect user to Spotify
+ * re-import the signed-in user's Spotify listening history (it also runs when they connect)
  */
-export const connectToSpotify = (): void => {
-  const clientId = process.env.SPOTIFY_CLIENT_ID;
-  const redirectUri = process.env.SPOTIFY_REDIRECT_URI || 'http://localhost:3000/api/auth/callback/spotify';
-  
-  // define scopes needed for the application
-  const scopes = [
-    'user-read-private',
-    'user-read-email',
-    'user-top-read',
-    'user-library-read',
-  ].join(' ');
-  
-  // create the authorization URL
-  const authUrl = new URL('https://accounts.spotify.com/authorize');
-  authUrl.searchParams.append('client_id', clientId as string);
-  authUrl.searchParams.append('response_type', 'code');
-  authUrl.searchParams.append('redirect_uri', redirectUri);
-  authUrl.searchParams.append('scope', scopes);
-  
-  window.location.href = authUrl.toString();
+export const importSpotifyHistory = async (): Promise<boolean> => {
+  if (!auth.currentUser) return false;
+
+  try {
+    const idToken = await auth.currentUser.getIdToken();
+    const response = await fetch('/api/spotify/import-history', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${idToken}`,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Listening history import failed with status ${response.status}`);
+    }
+    return true;
+  } catch (error) {
+    console.error('Error importing Spotify listening history:', error);
+    return false;
+  }
+};
+
+/**
+ * sync the signed-in user's "Resonate Discoveries" playlist, or a match's shared playlist.
+ * returns the playlist's link
+ */
+export const syncSpotifyPlaylist = async (matchId?: string): Promise<string | null> => {
+  if (!auth.currentUser) return null;
+
+  try {
+    const idToken = await auth.currentUser.getIdToken();
+    const response = await fetch('/api/spotify/sync-playlist', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${idToken}`,
+      },
+      body: JSON.stringify(matchId ? { matchId } : {}),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Playlist sync failed with status ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.url || null;
+  } catch (error) {
+    console.error('Error syncing Spotify playlist:', error);
+    return null;
+  }
+};
+
+/**
+ * disconnect the signed-in user's Spotify account. returns where they can also remove
+ * the app's access on Spotify, or null if disconnecting failed
+ */
+export const disconnectSpotify = async (): Promise<string | null> => {
+  if (!auth.currentUser) return null;
+
+  try {
+    const idToken = await auth.currentUser.getIdToken();
+    const response = await fetch('/api/spotify/disconnect', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${idToken}`,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Disconnect failed with status ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.manageAccessUrl;
+  } catch (error) {
+    console.error('Error disconnecting Spotify:', error);
+    return null;
+  }
+};
+
+/**
+ * connect user to Spotify. the server builds the authorize url, with a signed state
+ * tied to this user and browser. resolves false if it couldn't start
+ */
+export const connectToSpotify = async (): Promise<boolean> => {
+  if (!auth.currentUser) return false;
+
+  try {
+    const idToken = await auth.currentUser.getIdToken();
+    const response = await fetch('/api/spotify/connect', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${idToken}`,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Connect failed with status ${response.status}`);
+    }
+
+    const { url } = await response.json();
+    window.location.href = url;
+    return true;
+  } catch (error) {
+    console.error('Error connecting to Spotify:', error);
+    return false;
+  }
 };
 
 
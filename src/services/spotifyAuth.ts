@@ -0,0 +1,104 @@
+// server side of the spotify connect flow: authorize urls with signed state and pkce, and checking them on return
+import { Firestore } from 'firebase-admin/firestore';
+import { OAuthStateError, createOAuthState, createPkcePair, verifyOAuthState } from './oauthState';
+import { SPOTIFY_ACCOUNTS_BASE_URL } from './spotifyClient';
+
+// pending authorizations; server-only, like `spotifyTokens`
+const STATES_COLLECTION = 'spotifyOAuthStates';
+
+// holds the state's nonce on the browser that started the flow
+export const OAUTH_STATE_COOKIE = 'spotify_oauth_state';
+
+export const SPOTIFY_SCOPES = [
+  'user-read-private',
+  'user-read-email',
+  'user-top-read',
+  'user-library-read',
+  'user-read-recently-played',
+  'playlist-modify-private',
+];
+
+interface PendingAuthorization {
+  uid: string;
+  codeVerifier: string;
+  expiresAt: number;
+  createdAt: Date;
+}
+
+export const getSpotifyRedirectUri = (): string => {
+  return process.env.SPOTIFY_REDIRECT_URI || 'http://localhost:3000/api/auth/callback/spotify';
+};
+
+const getStateSecret = (): string => {
+  const secret = process.env.SPOTIFY_OAUTH_STATE_SECRET;
+  if (!secret) {
+    throw new Error('SPOTIFY_OAUTH_STATE_SECRET is not configured');
+  }
+  return secret;
+};
+
+/**
+ * starts connecting `uid`'s spotify account: records a single-use state with its pkce
+ * verifier and returns the url to send the user to. starting again cancels earlier attempts
+ */
+export const beginSpotifyAuthorization = async (
+  db: Firestore,
+  uid: string,
+  { now = Date.now() }: { now?: number } = {}
+): Promise<{ authorizeUrl: string; nonce: string; expiresAt: number }> => {
+  const { state, payload } = createOAuthState(uid, getStateSecret(), { now });
+  const { codeVerifier, codeChallenge } = createPkcePair();
+
+  const earlier = await db.collection(STATES_COLLECTION).where('uid', '==', uid).get();
+  const batch = db.batch();
+  earlier.docs.forEach(stateDoc => batch.delete(stateDoc.ref));
+  const pending: PendingAuthorization = { uid, codeVerifier, expiresAt: payload.exp, createdAt: new Date(now) };
+  batch.set(db.collection(STATES_COLLECTION).doc(payload.nonce), pending);
+  await batch.commit();
+
+  const authorizeUrl = new URL(`${process.env.SPOTIFY_ACCOUNTS_BASE_URL || SPOTIFY_ACCOUNTS_BASE_URL}/authorize`);
+  authorizeUrl.searchParams.append('client_id', process.env.SPOTIFY_CLIENT_ID as string);
+  authorizeUrl.searchParams.append('response_type', 'code');
+  authorizeUrl.searchParams.append('redirect_uri', getSpotifyRedirectUri());
+  authorizeUrl.searchParams.append('scope', SPOTIFY_SCOPES.join(' '));
+  authorizeUrl.searchParams.append('state', state);
+  authorizeUrl.searchParams.append('code_challenge_method', 'S256');
+  authorizeUrl.searchParams.append('code_challenge', codeChallenge);
+
+  return { authorizeUrl: authorizeUrl.toString(), nonce: payload.nonce, expiresAt: payload.exp };
+};
+
+/**
+ * checks the state spotify sent back and consumes it, so it can't be used twice. the
+ * browser has to be the one that started the flow (its cookie carries the nonce).
+ * returns who is connecting and the pkce verifier for the code exchange
+ */
+export const completeSpotifyAuthorization = async (
+  db: Firestore,
+  state: string | undefined,
+  browserNonce: string | undefined,
+  { now = Date.now() }: { now?: number } = {}
+): Promise<{ uid: string; codeVerifier: string }> => {
+  const payload = verifyOAuthState(state, getStateSecret(), now);
+
+  if (!browserNonce || browserNonce !== payload.nonce) {
+    throw new OAuthStateError('mismatch', 'OAuth state was not started by this browser');
+  }
+
+  const stateRef = db.collection(STATES_COLLECTION).doc(payload.nonce);
+  const pending = await db.runTransaction(async (transaction) => {
+    const stateDoc = await transaction.get(stateRef);
+    if (!stateDoc.exists) return null;
+    transaction.delete(stateRef);
+    return stateDoc.data() as PendingAuthorization;
+  });
+
+  if (!pending) {
+    throw new OAuthStateError('replayed', 'OAuth state was already used or replaced');
+  }
+  if (pending.uid !== payload.uid) {
+    throw new OAuthStateError('mismatch', 'OAuth state belongs to a different user');
+  }
+
+  return { uid: pending.uid, codeVerifier: pending.codeVerifier };
+};
@@ -0,0 +1,318 @@
+// spotify web api client: token caching, rate-limit aware retries and short-lived response caching
+export const SPOTIFY_API_BASE_URL = 'https://api.spotify.com/v1';
+export const SPOTIFY_ACCOUNTS_BASE_URL = 'https://accounts.spotify.com';
+
+// refresh the client-credentials token a little before spotify expires it
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+// bounded so a burst of distinct searches can't grow the cache forever
+const MAX_CACHE_ENTRIES = 500;
+
+export interface RetryOptions {
+  maxRetries?: number;       // attempts after the first one
+  baseBackoffMs?: number;    // 5xx and network errors wait base * 2^attempt (plus jitter)
+  maxRetryAfterMs?: number;  // give up instead of waiting longer than this on a 429
+  retryNonIdempotent?: boolean; // also retry 5xx and network errors for POST and PATCH
+  sleep?: (ms: number) => Promise<void>;
+}
+
+// a 5xx or dropped connection may still have been applied, so only these are sent again by default
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS'];
+
+export interface SpotifyClientOptions extends RetryOptions {
+  clientId?: string;
+  clientSecret?: string;
+  apiBaseUrl?: string;
+  accountsBaseUrl?: string;
+  fetch?: typeof fetch;
+  cacheTtlMs?: number;       // how long GET responses are reused; 0 disables caching
+  now?: () => number;
+}
+
+export interface SpotifyClientToken {
+  access_token: string;
+  token_type: string;
+  expires_in: number; // seconds left on the cached token
+}
+
+// what spotify's accounts service returns for user grants (refresh, authorization code)
+export interface SpotifyUserTokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in: number;
+  scope: string;
+  refresh_token?: string; // only sent when spotify rotates it
+}
+
+export interface SpotifyRequestOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: any;            // objects are sent as json
+  accessToken?: string;  // a user's token; client credentials are used when omitted
+  cacheTtlMs?: number;   // per-request override of the client's GET cache ttl
+  retryNonIdempotent?: boolean; // retry a POST after a 5xx or network error; only when repeating it is harmless
+}
+
+export interface SpotifyClient {
+  isConfigured: () => boolean;
+  getClientToken: () => Promise<SpotifyClientToken>;
+  refreshUserToken: (refreshToken: string) => Promise<SpotifyUserTokenResponse>;
+  exchangeAuthorizationCode: (code: string, redirectUri: string, codeVerifier: string) => Promise<SpotifyUserTokenResponse>;
+  request: <T = any>(endpoint: string, options?: SpotifyRequestOptions) => Promise<T>;
+  get: <T = any>(endpoint: string, options?: Omit<SpotifyRequestOptions, 'method' | 'body'>) => Promise<T>;
+  clearCache: () => void;
+}
+
+/**
+ * a non-OK response from spotify, after retries
+ */
+export class SpotifyApiError extends Error {
+  status: number;
+  body: any;
+
+  constructor(message: string, status: number, body?: any) {
+    super(message);
+    this.name = 'SpotifyApiError';
+    this.status = status;
+    this.body = body;
+  }
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * seconds from a Retry-After header (spotify sends seconds, but dates are legal too)
+ */
+const parseRetryAfterMs = (header: string | null, now: number): number | null => {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - now);
+};
+
+const readBody = async (response: Response): Promise<any> => {
+  const text = await response.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+/**
+ * fetch that waits out 429s for as long as spotify asks (up to `maxRetryAfterMs`) and
+ * retries 5xx responses and network errors with exponential backoff. a 429 was never
+ * applied, so it is retried for every method; 5xx and network errors only for idempotent
+ * methods unless `retryNonIdempotent` is set. returns the last response either way, so
+ * callers still see the final status
+ */
+export const fetchWithRetry = async (
+  fetchImpl: typeof fetch,
+  url: string,
+  init: RequestInit = {},
+  { maxRetries = 3, baseBackoffMs = 500, maxRetryAfterMs = 30 * 1000, retryNonIdempotent = false, sleep = defaultSleep }: RetryOptions = {}
+): Promise<Response> => {
+  const retryFailures = retryNonIdempotent || IDEMPOTENT_METHODS.includes((init.method || 'GET').toUpperCase());
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response;
+    try {
+      response = await fetchImpl(url, init);
+    } catch (error) {
+      if (!retryFailures || attempt >= maxRetries) throw error;
+      const delay = baseBackoffMs * Math.pow(2, attempt) * (1 + Math.random() * 0.25);
+      console.warn(` Spotify request failed (${error}), retrying in ${Math.round(delay)}ms`);
+      await sleep(delay);
+      continue;
+    }
+
+    if (attempt >= maxRetries) return response;
+
+    if (response.status === 429) {
+      const retryAfterMs = parseRetryAfterMs(response.headers.get('retry-after'), Date.now()) ?? baseBackoffMs * Math.pow(2, attempt);
+      if (retryAfterMs > maxRetryAfterMs) {
+        console.warn(` Spotify rate limited for ${Math.round(retryAfterMs / 1000)}s - not waiting`);
+        return response;
+      }
+      console.warn(` Spotify rate limited, retrying in ${retryAfterMs}ms`);
+      await sleep(retryAfterMs);
+      continue;
+    }
+
+    if (response.status >= 500 && retryFailures) {
+      const delay = baseBackoffMs * Math.pow(2, attempt) * (1 + Math.random() * 0.25);
+      console.warn(` Spotify returned ${response.status}, retrying in ${Math.round(delay)}ms`);
+      await sleep(delay);
+      continue;
+    }
+
+    return response;
+  }
+};
+
+/**
+ * builds a spotify client. everything it talks to is injectable, so it can point
+ * at a local fake spotify server instead of the real one
+ */
+export const createSpotifyClient = (options: SpotifyClientOptions = {}): SpotifyClient => {
+  const {
+    clientId,
+    clientSecret,
+    apiBaseUrl = SPOTIFY_API_BASE_URL,
+    accountsBaseUrl = SPOTIFY_ACCOUNTS_BASE_URL,
+    fetch: fetchImpl = fetch,
+    cacheTtlMs = 60 * 1000,
+    now = Date.now
+  } = options;
+  const retry: RetryOptions = options;
+
+  let token: { accessToken: string; tokenType: string; expiresAt: number } | null = null;
+  let pendingToken: Promise<SpotifyClientToken> | null = null;
+  const cache = new Map<string, { expiresAt: number; data: any }>();
+
+  const isConfigured = () => !!clientId && !!clientSecret;
+
+  /**
+   * posts a grant to the accounts service's token endpoint, authenticated as the app.
+   * `repeatable` grants may be retried after a server error; an authorization code is single-use
+   */
+  const requestToken = async (params: Record<string, string>, failureMessage: string, repeatable: boolean): Promise<any> => {
+    if (!isConfigured()) {
+      throw new Error('Spotify credentials not configured');
+    }
+
+    const response = await fetchWithRetry(fetchImpl, `${accountsBaseUrl}/api/token`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Authorization': `Basic ${btoa(`${clientId}:${clientSecret}`)}`,
+      },
+      body: new URLSearchParams(params).toString(),
+    }, { ...retry, retryNonIdempotent: repeatable });
+
+    const data = await readBody(response);
+    if (!response.ok) {
+      throw new SpotifyApiError(data?.error_description || data?.error || failureMessage, response.status, data);
+    }
+    return data;
+  };
+
+  const fetchClientToken = async (): Promise<SpotifyClientToken> => {
+    const data = await requestToken({ grant_type: 'client_credentials' }, 'Failed to get Spotify client token', true);
+
+    token = {
+      accessToken: data.access_token,
+      tokenType: data.token_type || 'Bearer',
+      expiresAt: now() + data.expires_in * 1000
+    };
+    console.log(' Obtained Spotify client credentials token');
+
+    return { access_token: token.accessToken, token_type: token.tokenType, expires_in: data.expires_in };
+  };
+
+  /**
+   * the cached client-credentials token, fetching a new one when it is about to expire.
+   * concurrent callers share one token request
+   */
+  const getClientToken = async (): Promise<SpotifyClientToken> => {
+    if (token && now() < token.expiresAt - TOKEN_EXPIRY_MARGIN_MS) {
+      return {
+        access_token: token.accessToken,
+        token_type: token.tokenType,
+        expires_in: Math.floor((token.expiresAt - now()) / 1000)
+      };
+    }
+
+    if (!pendingToken) {
+      pendingToken = fetchClientToken().finally(() => {
+        pendingToken = null;
+      });
+    }
+    return pendingToken;
+  };
+
+  const request = async <T = any>(endpoint: string, requestOptions: SpotifyRequestOptions = {}): Promise<T> => {
+    const method = (requestOptions.method || 'GET').toUpperCase();
+    const url = endpoint.startsWith('http') ? endpoint : `${apiBaseUrl}${endpoint}`;
+    const ttl = requestOptions.cacheTtlMs ?? cacheTtlMs;
+
+    // only app-level reads are shared; a user's own data stays out of the cache
+    const cacheable = method === 'GET' && !requestOptions.accessToken && ttl > 0;
+    if (cacheable) {
+      const cached = cache.get(url);
+      if (cached && now() < cached.expiresAt) return cached.data as T;
+      cache.delete(url);
+    }
+
+    const send = async (accessToken: string) => {
+      const headers: Record<string, string> = { ...requestOptions.headers, 'Authorization': `Bearer ${accessToken}` };
+      let body = requestOptions.body;
+      if (body !== undefined && typeof body !== 'string') {
+        headers['Content-Type'] = headers['Content-Type'] || 'application/json';
+        body = JSON.stringify(body);
+      }
+      return fetchWithRetry(fetchImpl, url, { method, headers, body }, { ...retry, retryNonIdempotent: requestOptions.retryNonIdempotent });
+    };
+
+    let response = await send(requestOptions.accessToken || (await getClientToken()).access_token);
+
+    // spotify can revoke a client token early; get a fresh one and try once more
+    if (response.status === 401 && !requestOptions.accessToken) {
+      token = null;
+      response = await send((await getClientToken()).access_token);
+    }
+
+    const data = await readBody(response);
+    if (!response.ok) {
+      throw new SpotifyApiError(data?.error?.message || `Spotify API error ${response.status}`, response.status, data);
+    }
+
+    if (cacheable) {
+      if (cache.size >= MAX_CACHE_ENTRIES) {
+        // maps iterate in insertion order, so this drops the oldest entry
+        cache.delete(cache.keys().next().value as string);
+      }
+      cache.set(url, { expiresAt: now() + ttl, data });
+    }
+
+    return data as T;
+  };
+
+  return {
+    isConfigured,
+    getClientToken,
+    refreshUserToken: (refreshToken: string) => requestToken(
+      { grant_type: 'refresh_token', refresh_token: refreshToken },
+      'Failed to refresh Spotify token',
+      true
+    ),
+    exchangeAuthorizationCode: (code: string, redirectUri: string, codeVerifier: string) => requestToken(
+      { grant_type: 'authorization_code', code, redirect_uri: redirectUri, code_verifier: codeVerifier },
+      'Failed to exchange Spotify authorization code',
+      false
+    ),
+    request,
+    get: (endpoint, getOptions = {}) => request(endpoint, { ...getOptions, method: 'GET' }),
+    clearCache: () => cache.clear()
+  };
+};
+
+let defaultClient: SpotifyClient | null = null;
+
+/**
+ * the shared server-side client, configured from the environment.
+ * SPOTIFY_API_BASE_URL and SPOTIFY_ACCOUNTS_BASE_URL can point it at a fake server
+ */
+export const getSpotifyClient = (): SpotifyClient => {
+  if (!defaultClient) {
+    defaultClient = createSpotifyClient({
+      clientId: process.env.SPOTIFY_CLIENT_ID,
+      clientSecret: process.env.SPOTIFY_CLIENT_SECRET,
+      apiBaseUrl: process.env.SPOTIFY_API_BASE_URL || SPOTIFY_API_BASE_URL,
+      accountsBaseUrl: process.env.SPOTIFY_ACCOUNTS_BASE_URL || SPOTIFY_ACCOUNTS_BASE_URL
+    });
+  }
+  return defaultClient;
+};
@@ -0,0 +1,92 @@
+// creating and filling playlists on a user's spotify account
+import type { SpotifyUserRequest } from './spotifyTokens';
+import { SpotifyApiError } from './spotifyClient';
+import { trackRefOf } from './musicProvider';
+
+// spotify accepts at most this many tracks per add request
+const MAX_TRACKS_PER_REQUEST = 100;
+
+export const DISCOVERIES_PLAYLIST_NAME = 'Resonate Discoveries';
+
+export interface PlaylistDetails {
+  name: string;
+  description: string;
+  collaborative?: boolean; // collaborative playlists must also be private
+}
+
+/**
+ * `spotify:track:...` uri of a post's song, or null for songs from other catalogs
+ */
+export const spotifyUriOf = (postData: any): string | null => {
+  const ref = trackRefOf(postData);
+  return ref?.provider === 'spotify' ? `spotify:track:${ref.id}` : null;
+};
+
+/**
+ * every uri of `desired` that the playlist doesn't hold yet, in order and without repeats
+ */
+export const missingTrackUris = (existing: string[], desired: string[]): string[] => {
+  const present = new Set(existing);
+  return desired.filter(uri => {
+    if (present.has(uri)) return false;
+    present.add(uri);
+    return true;
+  });
+};
+
+/**
+ * every track uri in a playlist, following spotify's pagination. null when the
+ * playlist no longer exists
+ */
+export const getPlaylistTrackUris = async (request: SpotifyUserRequest, playlistId: string): Promise<string[] | null> => {
+  const uris: string[] = [];
+  let endpoint: string | null = `/playlists/${encodeURIComponent(playlistId)}/tracks?fields=items(track(uri)),next&limit=100`;
+
+  try {
+    while (endpoint) {
+      const page: any = await request(endpoint);
+      (page?.items || []).forEach((item: any) => {
+        if (item?.track?.uri) uris.push(item.track.uri);
+      });
+      endpoint = page?.next || null;
+    }
+  } catch (error) {
+    if (error instanceof SpotifyApiError && error.status === 404) return null;
+    throw error;
+  }
+
+  return uris;
+};
+
+/**
+ * creates a private playlist on the user's account and returns its id and link
+ */
+export const createPlaylist = async (request: SpotifyUserRequest, details: PlaylistDetails): Promise<{ id: string; url: string | null }> => {
+  const playlist = await request('/me/playlists', {
+    method: 'POST',
+    body: {
+      name: details.name,
+      description: details.description,
+      public: false,
+      collaborative: !!details.collaborative
+    }
+  });
+
+  console.log(` Created Spotify playlist "${details.name}" (${playlist.id})`);
+  return { id: playlist.id, url: playlist.external_urls?.spotify || null };
+};
+
+/**
+ * appends tracks in batches spotify accepts. returns the playlist's latest snapshot id
+ */
+export const addPlaylistTracks = async (request: SpotifyUserRequest, playlistId: string, uris: string[]): Promise<string | null> => {
+  let snapshotId: string | null = null;
+  for (let i = 0; i < uris.length; i += MAX_TRACKS_PER_REQUEST) {
+    const result = await request(`/playlists/${encodeURIComponent(playlistId)}/tracks`, {
+      method: 'POST',
+      body: { uris: uris.slice(i, i + MAX_TRACKS_PER_REQUEST) }
+    });
+    snapshotId = result?.snapshot_id || snapshotId;
+  }
+  return snapshotId;
+};
@@ -0,0 +1,67 @@
+// spotify as a music catalog provider, through our server-side spotify api routes
+import type { CatalogTrack, MusicProvider } from './musicProvider';
+
+/**
+ * converts a spotify web api track object into a catalog track
+ */
+export const toCatalogTrack = (track: any): CatalogTrack => ({
+  ref: { provider: 'spotify', id: track.id },
+  title: track.name,
+  artist: (track.artists || []).map((artist: any) => artist.name).join(', '),
+  album: track.album?.name || undefined,
+  coverArtUrl: track.album?.images?.[0]?.url || undefined,
+  previewUrl: track.preview_url || undefined,
+  durationMs: track.duration_ms || undefined,
+  isrc: track.external_ids?.isrc || undefined
+});
+
+const search = async (query: string, limit = 10): Promise<CatalogTrack[]> => {
+  const response = await fetch(`/api/spotify/search?q=${encodeURIComponent(query)}&limit=${limit}`);
+  if (!response.ok) {
+    throw new Error(`Spotify search failed with status ${response.status}`);
+  }
+
+  const data = await response.json();
+  return (data.tracks?.items || []).map(toCatalogTrack);
+};
+
+const getTrack = async (id: string): Promise<CatalogTrack | null> => {
+  const response = await fetch(`/api/spotify/track?id=${encodeURIComponent(id)}`);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Spotify track lookup failed with status ${response.status}`);
+  }
+
+  return toCatalogTrack(await response.json());
+};
+
+/**
+ * spotify leaves preview_url empty for many tracks; the preview finder can usually
+ * still locate one by title and artist
+ */
+const getPreview = async (track: CatalogTrack): Promise<string | null> => {
+  if (track.previewUrl) return track.previewUrl;
+
+  try {
+    const response = await fetch(
+      `/api/spotify/search-with-previews?query=${encodeURIComponent(`${track.title} ${track.artist}`)}&limit=1`
+    );
+    if (!response.ok) return null;
+
+    const data = await response.json();
+    return data.tracks?.items?.[0]?.preview_url || null;
+  } catch (error) {
+    console.log(` Could not find a preview for "${track.title}":`, error);
+    return null;
+  }
+};
+
+export const spotifyProvider: MusicProvider = {
+  id: 'spotify',
+  name: 'Spotify',
+  search,
+  getTrack,
+  getPreview,
+  getDeepLink: (id: string) => `https://open.spotify.com/track/${id}`,
+  getEmbedUrl: (id: string) => `https://open.spotify.com/embed/track/${id}`
+};
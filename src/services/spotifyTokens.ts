@@ -0,0 +1,212 @@
+// server-only store for users' spotify tokens: encrypted at rest in `spotifyTokens/{uid}`, refreshed near expiry
+import { FieldValue, Firestore } from 'firebase-admin/firestore';
+import { SpotifyApiError, SpotifyClient, SpotifyRequestOptions, SpotifyUserTokenResponse, getSpotifyClient } from './spotifyClient';
+import { decryptSecret, encryptSecret, parseEncryptionKey } from './tokenEncryption';
+
+// refresh a little early so a token doesn't expire halfway through a job
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// clients have no access to this collection; only the admin sdk reads it
+const TOKENS_COLLECTION = 'spotifyTokens';
+
+/**
+ * calls the spotify web api as a specific user
+ */
+export type SpotifyUserRequest = <T = any>(endpoint: string, options?: Omit<SpotifyRequestOptions, 'accessToken'>) => Promise<T>;
+
+// decrypted tokens; never leave the server
+export interface SpotifyUserTokens {
+  access_token: string;
+  token_type: string;
+  scope: string;
+  refresh_token: string;
+  expiresAt: number; // epoch ms
+}
+
+// what `spotifyTokens/{uid}` holds
+interface EncryptedSpotifyTokens {
+  accessToken: string;   // encrypted
+  refreshToken: string;  // encrypted
+  tokenType: string;
+  scope: string;
+  expiresAt: number;
+  updatedAt: Date;
+}
+
+let encryptionKey: Buffer | null = null;
+
+/**
+ * the key from SPOTIFY_TOKEN_ENCRYPTION_KEY. tokens are never stored unencrypted, so
+ * there is deliberately no fallback
+ */
+const getEncryptionKey = (): Buffer => {
+  if (!encryptionKey) {
+    const value = process.env.SPOTIFY_TOKEN_ENCRYPTION_KEY;
+    if (!value) {
+      throw new Error('SPOTIFY_TOKEN_ENCRYPTION_KEY is not configured');
+    }
+    encryptionKey = parseEncryptionKey(value);
+  }
+  return encryptionKey;
+};
+
+/**
+ * encrypts and stores the tokens from an authorization or refresh grant. spotify doesn't
+ * always send a new refresh token, so the previous one can be passed to keep
+ */
+export const saveUserSpotifyTokens = async (
+  db: Firestore,
+  uid: string,
+  tokenData: SpotifyUserTokenResponse,
+  previousRefreshToken?: string
+): Promise<SpotifyUserTokens> => {
+  const refreshToken = tokenData.refresh_token || previousRefreshToken;
+  if (!refreshToken) {
+    throw new Error('Spotify did not return a refresh token');
+  }
+
+  const key = getEncryptionKey();
+  const tokens: SpotifyUserTokens = {
+    access_token: tokenData.access_token,
+    token_type: tokenData.token_type,
+    scope: tokenData.scope,
+    refresh_token: refreshToken,
+    expiresAt: Date.now() + tokenData.expires_in * 1000
+  };
+
+  const stored: EncryptedSpotifyTokens = {
+    accessToken: encryptSecret(tokens.access_token, key, uid),
+    refreshToken: encryptSecret(tokens.refresh_token, key, uid),
+    tokenType: tokens.token_type,
+    scope: tokens.scope,
+    expiresAt: tokens.expiresAt,
+    updatedAt: new Date()
+  };
+  await db.collection(TOKENS_COLLECTION).doc(uid).set(stored);
+
+  return tokens;
+};
+
+/**
+ * trades the user's refresh token for a new access token and stores the result
+ */
+export const refreshUserSpotifyTokens = async (
+  db: Firestore,
+  uid: string,
+  refreshToken: string,
+  client: SpotifyClient = getSpotifyClient()
+): Promise<SpotifyUserTokens> => {
+  const tokenData = await client.refreshUserToken(refreshToken);
+  return saveUserSpotifyTokens(db, uid, tokenData, refreshToken);
+};
+
+/**
+ * the user's decrypted tokens as stored, or null when they haven't connected spotify.
+ * tokens written in plain text on the user document by older versions are moved
+ * into the encrypted store the first time they are read
+ */
+const loadUserSpotifyTokens = async (db: Firestore, uid: string): Promise<SpotifyUserTokens | null> => {
+  const tokenDoc = await db.collection(TOKENS_COLLECTION).doc(uid).get();
+  if (tokenDoc.exists) {
+    const stored = tokenDoc.data() as EncryptedSpotifyTokens;
+    const key = getEncryptionKey();
+    return {
+      access_token: decryptSecret(stored.accessToken, key, uid),
+      refresh_token: decryptSecret(stored.refreshToken, key, uid),
+      token_type: stored.tokenType,
+      scope: stored.scope,
+      expiresAt: stored.expiresAt
+    };
+  }
+
+  const userRef = db.collection('users').doc(uid);
+  const legacy = (await userRef.get()).data()?.spotify?.tokens;
+  if (!legacy?.access_token || !legacy?.refresh_token) return null;
+
+  console.log(` Moving plain-text Spotify tokens for ${uid} into the encrypted store`);
+  const tokens = await saveUserSpotifyTokens(db, uid, {
+    access_token: legacy.access_token,
+    token_type: legacy.token_type || 'Bearer',
+    scope: legacy.scope || '',
+    expires_in: Math.max(0, Math.floor(((legacy.expiresAt || 0) - Date.now()) / 1000)),
+    refresh_token: legacy.refresh_token
+  });
+  await userRef.update({ 'spotify.tokens': FieldValue.delete() });
+  return tokens;
+};
+
+/**
+ * moves every remaining plain-text token on user documents into the encrypted store.
+ * returns how many users were migrated
+ */
+export const migratePlainTextSpotifyTokens = async (db: Firestore): Promise<number> => {
+  const usersSnapshot = await db.collection('users').where('spotifyConnected', '==', true).get();
+
+  let migrated = 0;
+  for (const userDoc of usersSnapshot.docs) {
+    if (!userDoc.data().spotify?.tokens) continue;
+    try {
+      await loadUserSpotifyTokens(db, userDoc.id);
+      // the plain-text copy goes even if it was unusable or an encrypted one already existed
+      await userDoc.ref.update({ 'spotify.tokens': FieldValue.delete() });
+      migrated++;
+    } catch (error) {
+      console.error(` Could not migrate Spotify tokens for ${userDoc.id}:`, error);
+    }
+  }
+  return migrated;
+};
+
+/**
+ * the user's tokens, refreshed first if they are about to expire.
+ * null when the user hasn't connected spotify
+ */
+export const getValidUserSpotifyTokens = async (
+  db: Firestore,
+  uid: string,
+  client: SpotifyClient = getSpotifyClient()
+): Promise<SpotifyUserTokens | null> => {
+  const tokens = await loadUserSpotifyTokens(db, uid);
+  if (!tokens) return null;
+
+  if (Date.now() < tokens.expiresAt - TOKEN_REFRESH_MARGIN_MS) return tokens;
+
+  console.log(` Refreshing Spotify tokens for ${uid}`);
+  return refreshUserSpotifyTokens(db, uid, tokens.refresh_token, client);
+};
+
+/**
+ * forgets the user's spotify connection: their stored tokens, any plain-text copy from
+ * older versions, and their spotify profile. spotify has no api to revoke a grant, so
+ * the app also stays listed under the user's spotify account apps until they remove it
+ */
+export const deleteUserSpotifyTokens = async (db: Firestore, uid: string): Promise<void> => {
+  await db.collection(TOKENS_COLLECTION).doc(uid).delete();
+  await db.collection('users').doc(uid).update({
+    spotify: FieldValue.delete(),
+    spotifyConnected: false
+  });
+};
+
+/**
+ * requests made with the user's token. the stored expiry can be wrong when spotify
+ * revokes a token early, so a 401 refreshes the token once and retries
+ */
+export const createUserSpotifyRequest = (
+  db: Firestore,
+  uid: string,
+  tokens: SpotifyUserTokens,
+  client: SpotifyClient = getSpotifyClient()
+): SpotifyUserRequest => {
+  let current = tokens;
+
+  return async <T = any>(endpoint: string, options: Omit<SpotifyRequestOptions, 'accessToken'> = {}): Promise<T> => {
+    try {
+      return await client.request<T>(endpoint, { ...options, accessToken: current.access_token });
+    } catch (error) {
+      if (!(error instanceof SpotifyApiError) || error.status !== 401) throw error;
+      current = await refreshUserSpotifyTokens(db, uid, current.refresh_token, client);
+      return client.request<T>(endpoint, { ...options, accessToken: current.access_token });
+    }
+  };
+};
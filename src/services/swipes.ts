@@ -10,10 +10,10 @@ import {
   limit,
   Timestamp
 } from 'firebase/firestore';
-import { db } from './firebase';
-import { createMatch } from './matches';
+import { auth, db } from './firebase';
 import { getActivePosts } from './posts';
 import { getPacificTime } from './timeUtils';
+import { ExperimentAssignment } from './experiments';
 
 // tinder-style swipe mechanics and tracking
 
@@ -24,16 +24,21 @@ export interface Swipe {
   postUserId: string;
   direction: 'left' | 'right';
   timestamp: Date;
+  experimentId?: string; // ranking experiment the swiped deck came from
+  experimentArm?: string;
+  matchId?: string;      // set on both users' right swipes once they match
 }
 
 /**
  * record a swipe and check for matches
+ * pass the deck's experiment assignment so the swipe counts towards that arm
  */
 export const recordSwipe = async (
   swiperId: string,
   postId: string,
   postUserId: string,
-  direction: 'left' | 'right'
+  direction: 'left' | 'right',
+  experiment?: ExperimentAssignment | null
 ): Promise<string | null> => {
   try {
     // record the swipe
@@ -45,12 +50,17 @@ export const recordSwipe = async (
       timestamp: getPacificTime()
     };
 
-    await addDoc(collection(db, 'swipes'), swipeData);
+    if (experiment) {
+      swipeData.experimentId = experiment.experimentId;
+      swipeData.experimentArm = experiment.arm;
+    }
+
+    const swipeRef = await addDoc(collection(db, 'swipes'), swipeData);
 
-    // if it's a right swipe (like), check for a match
+    // the like counter and match check run on the server, which also tags both
+    // users' swipes with the match
     if (direction === 'right') {
-      const matchId = await checkForMatch(swiperId, postUserId);
-      return matchId;
+      return await completeRightSwipe(swipeRef.id);
     }
 
     return null;
@@ -60,49 +70,32 @@ export const recordSwipe = async (
   }
 };
 
+/**
+ * asks the server to count a right swipe and check it for a match. the swipe is already
+ * recorded, so a failure here only costs the counter and match, and is logged instead
+ */
+const completeRightSwipe = async (swipeId: string): Promise<string | null> => {
+  if (!auth.currentUser) return null;
 
-const checkForMatch = async (swiperId: string, postUserId: string): Promise<string | null> => {
   try {
-    const swiperPostsQuery = query(
-      collection(db, 'posts'),
-      where('userId', '==', swiperId)
-    );
-    const swiperPosts = await getDocs(swiperPostsQuery);
-    
-    if (swiperPosts.empty) {
-      return null; 
-    }
+    const idToken = await auth.currentUser.getIdToken();
+    const response = await fetch('/api/swipes/right', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${idToken}`,
+      },
+      body: JSON.stringify({ swipeId }),
+    });
 
-    const swiperPostIds = swiperPosts.docs.map(doc => doc.id);
-    
-    for (const swiperPostId of swiperPostIds) {
-      const mutualSwipeQuery = query(
-        collection(db, 'swipes'),
-        where('swiperId', '==', postUserId),
-        where('postId', '==', swiperPostId),
-        where('direction', '==', 'right')
-      );
-      
-      const mutualSwipes = await getDocs(mutualSwipeQuery);
-      
-      if (!mutualSwipes.empty) {
-
-        try {
-          const matchId = await createMatch(swiperId, postUserId);
-          console.log(`Match created: ${matchId} between ${swiperId} and ${postUserId}`);
-          return matchId;
-        } catch (matchError) {
-          console.error('Error creating match:', matchError);
-
-          if (matchError instanceof Error && matchError.message.includes('already exists')) {
-            return null;
-          }
-          throw matchError;
-        }
-      }
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(data?.error || `Request failed with status ${response.status}`);
     }
-
-    return null; 
+    if (data?.matchId) {
+      console.log(`Match created: ${data.matchId}`);
+    }
+    return data?.matchId || null;
   } catch (error) {
     console.error('Error checking for match:', error);
     return null;
@@ -0,0 +1,107 @@
+// server side of a right swipe: the post's like counter, match detection and tagging both swipes of a match
+import { FieldValue, Firestore } from 'firebase-admin/firestore';
+import { getPacificTime } from './timeUtils';
+
+/**
+ * the swipe doesn't exist, or isn't a right swipe by the caller
+ */
+export class SwipeAccessError extends Error {
+  reason: 'not_found' | 'forbidden';
+
+  constructor(reason: 'not_found' | 'forbidden') {
+    super(reason === 'not_found' ? 'Swipe not found' : 'Not your right swipe');
+    this.name = 'SwipeAccessError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * counts `uid`'s right swipe towards the post's `rightSwipes` (once, however often it is
+ * called) and checks whether the post's author already liked one of the swiper's posts.
+ * a new match is tagged on this swipe and on the author's earlier likes, so both sides of
+ * the match count towards their experiment arm. returns the new match's id, or null
+ */
+export const completeRightSwipe = async (db: Firestore, uid: string, swipeId: string): Promise<string | null> => {
+  const swipeRef = db.collection('swipes').doc(swipeId);
+
+  const swipe = await db.runTransaction(async (transaction) => {
+    const swipeDoc = await transaction.get(swipeRef);
+    if (!swipeDoc.exists) throw new SwipeAccessError('not_found');
+
+    const swipeData = swipeDoc.data() as any;
+    if (swipeData.swiperId !== uid || swipeData.direction !== 'right') {
+      throw new SwipeAccessError('forbidden');
+    }
+
+    if (!swipeData.counted) {
+      // like count feeds the exploration policy's estimate of how well the post lands
+      const postRef = db.collection('posts').doc(swipeData.postId);
+      const postDoc = await transaction.get(postRef);
+      if (postDoc.exists) {
+        transaction.update(postRef, { rightSwipes: FieldValue.increment(1) });
+      }
+      transaction.update(swipeRef, { counted: true });
+    }
+
+    return swipeData;
+  });
+
+  if (swipe.matchId) return swipe.matchId;
+
+  const postUserId: string = swipe.postUserId;
+  const mutualQuery = db.collection('swipes')
+    .where('swiperId', '==', postUserId)
+    .where('postUserId', '==', uid)
+    .where('direction', '==', 'right');
+
+  const matchId = await db.runTransaction(async (transaction) => {
+    const mutualSwipes = await transaction.get(mutualQuery);
+    if (mutualSwipes.empty) return null;
+
+    const existingMatches = await transaction.get(
+      db.collection('matches').where('userIds', 'array-contains', uid)
+    );
+    if (existingMatches.docs.some(matchDoc => (matchDoc.data().userIds || []).includes(postUserId))) {
+      return null;
+    }
+
+    const [swiperDoc, authorDoc] = await transaction.getAll(
+      db.collection('users').doc(uid),
+      db.collection('users').doc(postUserId)
+    );
+    if (!swiperDoc.exists || !authorDoc.exists) {
+      console.warn(` Cannot match ${uid} and ${postUserId}: one of them has no user document`);
+      return null;
+    }
+
+    const matchRef = db.collection('matches').doc();
+    const memberOf = (userData: any) => ({
+      displayName: userData?.displayName || 'User',
+      photoURL: userData?.photoURL || null,
+      bio: userData?.bio || null
+    });
+    transaction.create(matchRef, {
+      userIds: [uid, postUserId],
+      users: {
+        [uid]: memberOf(swiperDoc.data()),
+        [postUserId]: memberOf(authorDoc.data())
+      },
+      createdAt: getPacificTime(),
+      lastMessage: getPacificTime(),
+      isActive: true
+    });
+
+    // both sides of the match, so experiment reports see it from either arm
+    transaction.update(swipeRef, { matchId: matchRef.id });
+    mutualSwipes.docs
+      .filter(mutualSwipe => !mutualSwipe.data().matchId)
+      .forEach(mutualSwipe => transaction.update(mutualSwipe.ref, { matchId: matchRef.id }));
+
+    return matchRef.id;
+  });
+
+  if (matchId) {
+    console.log(` Match created: ${matchId} between ${uid} and ${postUserId}`);
+  }
+  return matchId;
+};
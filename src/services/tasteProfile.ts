@@ -0,0 +1,204 @@
+// recency-weighted taste profile learned from likes and passes
+
+export interface AudioFeatureVector {
+  valence: number;
+  energy: number;
+  danceability: number;
+  acousticness: number;
+  tempo: number;
+}
+
+/**
+ * one swipe joined with the features of the post that was swiped
+ */
+export interface TasteEvent {
+  direction: 'left' | 'right';
+  timestamp: Date;
+  audioFeatures?: Partial<AudioFeatureVector> | null;
+  genres?: string[];
+  moodTags?: string[];
+}
+
+export interface TasteProfile {
+  genres: string[];   // liked genres, strongest first
+  moodTags: string[]; // liked moods, strongest first
+  audioFeatures: AudioFeatureVector | {};          // centroid of liked songs
+  dislikedAudioFeatures: AudioFeatureVector | {};  // centroid of passed songs
+  likedWeight: number;    // total decayed weight behind each centroid,
+  dislikedWeight: number; // used to judge how much to trust it
+  halfLifeDays: number;
+}
+
+export const AUDIO_FEATURE_KEYS: Array<keyof AudioFeatureVector> = ['valence', 'energy', 'danceability', 'acousticness', 'tempo'];
+
+// a swipe from two weeks ago counts half as much as one from today
+export const TASTE_HALF_LIFE_DAYS = 14;
+
+// most recent swipes considered when rebuilding the profile
+export const MAX_TASTE_EVENTS = 60;
+
+// a seed counts as this many likes made when it was seeded, so a few swipes can outweigh it
+export const TASTE_SEED_WEIGHT = 5;
+
+/**
+ * a profile learned outside discover - from the listening history import - stored
+ * beside `musicPreferences` so every rebuild from swipes blends it back in
+ */
+export interface TasteSeed {
+  profile: TasteProfile;
+  seededAt: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * exponential decay weight for an event of the given age
+ */
+export const recencyWeight = (timestamp: Date, now: Date, halfLifeDays: number = TASTE_HALF_LIFE_DAYS): number => {
+  const ageDays = Math.max(0, (now.getTime() - timestamp.getTime()) / DAY_MS);
+  return Math.pow(0.5, ageDays / halfLifeDays);
+};
+
+/**
+ * true when the value holds every audio feature as a number
+ */
+export const isAudioFeatureVector = (value: any): value is AudioFeatureVector => {
+  return !!value && AUDIO_FEATURE_KEYS.every(key => typeof value[key] === 'number' && !isNaN(value[key]));
+};
+
+/**
+ * weighted mean of each audio feature, skipping features a post doesn't have
+ */
+const weightedCentroid = (samples: Array<{ features: Partial<AudioFeatureVector>; weight: number }>): AudioFeatureVector | {} => {
+  const sums: { [key: string]: number } = {};
+  const weights: { [key: string]: number } = {};
+
+  samples.forEach(({ features, weight }) => {
+    AUDIO_FEATURE_KEYS.forEach(key => {
+      const value = features[key];
+      if (typeof value === 'number' && !isNaN(value)) {
+        sums[key] = (sums[key] || 0) + value * weight;
+        weights[key] = (weights[key] || 0) + weight;
+      }
+    });
+  });
+
+  if (!AUDIO_FEATURE_KEYS.every(key => weights[key] > 0)) return {};
+
+  const centroid = {} as AudioFeatureVector;
+  AUDIO_FEATURE_KEYS.forEach(key => {
+    centroid[key] = sums[key] / weights[key];
+  });
+  return centroid;
+};
+
+/**
+ * ranks labels by decayed like weight minus decayed pass weight, keeping only net-positive ones
+ */
+const rankLabels = (events: TasteEvent[], weights: number[], pick: (event: TasteEvent) => string[] | undefined): string[] => {
+  const scores = new Map<string, number>();
+
+  events.forEach((event, index) => {
+    const sign = event.direction === 'right' ? 1 : -0.5;
+    (pick(event) || []).forEach(label => {
+      if (!label) return;
+      scores.set(label, (scores.get(label) || 0) + sign * weights[index]);
+    });
+  });
+
+  return Array.from(scores.entries())
+    .filter(([, score]) => score > 0)
+    .sort((a, b) => b[1] - a[1])
+    .map(([label]) => label);
+};
+
+export interface TasteSwipe {
+  postId: string;
+  direction: 'left' | 'right';
+  timestamp: Date;
+}
+
+/**
+ * normalizes raw swipe documents and keeps the most recent ones the profile is built from
+ */
+export const selectRecentSwipes = (swipeDocs: any[], maxEvents: number = MAX_TASTE_EVENTS): TasteSwipe[] => {
+  return swipeDocs
+    .filter(swipe => swipe?.postId && (swipe.direction === 'right' || swipe.direction === 'left'))
+    .map(swipe => ({
+      postId: swipe.postId as string,
+      direction: swipe.direction as 'left' | 'right',
+      timestamp: swipe.timestamp?.toDate?.() || new Date(swipe.timestamp || Date.now())
+    }))
+    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+    .slice(0, maxEvents);
+};
+
+/**
+ * joins a swipe with the post document it was made on
+ */
+export const toTasteEvent = (swipe: TasteSwipe, postData: any): TasteEvent => ({
+  direction: swipe.direction,
+  timestamp: swipe.timestamp,
+  audioFeatures: postData.song?.audioFeatures || postData.audioFeatures,
+  genres: postData.song?.genres || [],
+  moodTags: postData.moodTags || (postData.mood ? [postData.mood] : [])
+});
+
+/**
+ * reads a stored seed, with `seededAt` as a firestore timestamp or date string
+ */
+export const toTasteSeed = (data: any): TasteSeed | null => {
+  if (!data?.profile) return null;
+  const seededAt: Date = data.seededAt?.toDate?.() || new Date(data.seededAt);
+  if (isNaN(seededAt.getTime())) return null;
+  return { profile: data.profile, seededAt };
+};
+
+/**
+ * builds liked and disliked centroids from swipe history, weighting recent swipes more.
+ * a seed joins as one more like, worth TASTE_SEED_WEIGHT swipes
+ */
+export const computeTasteProfile = (
+  swipeEvents: TasteEvent[],
+  { now = new Date(), halfLifeDays = TASTE_HALF_LIFE_DAYS, seed = null }: {
+    now?: Date;
+    halfLifeDays?: number;
+    seed?: TasteSeed | null;
+  } = {}
+): TasteProfile => {
+  const events = seed
+    ? [...swipeEvents, {
+      direction: 'right' as const,
+      timestamp: seed.seededAt,
+      audioFeatures: isAudioFeatureVector(seed.profile.audioFeatures) ? seed.profile.audioFeatures : null,
+      genres: seed.profile.genres || [],
+      moodTags: seed.profile.moodTags || []
+    }]
+    : swipeEvents;
+  const weights = events.map((event, index) => (
+    recencyWeight(event.timestamp, now, halfLifeDays) * (seed && index === swipeEvents.length ? TASTE_SEED_WEIGHT : 1)
+  ));
+
+  const liked: Array<{ features: Partial<AudioFeatureVector>; weight: number }> = [];
+  const disliked: Array<{ features: Partial<AudioFeatureVector>; weight: number }> = [];
+
+  events.forEach((event, index) => {
+    if (!event.audioFeatures) return;
+    const sample = { features: event.audioFeatures, weight: weights[index] };
+    if (event.direction === 'right') {
+      liked.push(sample);
+    } else {
+      disliked.push(sample);
+    }
+  });
+
+  return {
+    genres: rankLabels(events, weights, event => event.genres),
+    moodTags: rankLabels(events, weights, event => event.moodTags),
+    audioFeatures: weightedCentroid(liked),
+    dislikedAudioFeatures: weightedCentroid(disliked),
+    likedWeight: liked.reduce((total, sample) => total + sample.weight, 0),
+    dislikedWeight: disliked.reduce((total, sample) => total + sample.weight, 0),
+    halfLifeDays
+  };
+};
@@ -0,0 +1,218 @@
+// offline tf-idf text similarity tuned for free-text music answers
+
+export interface TextSimilarityModel {
+  similarity: (text1: string, text2: string) => number; // 0-1 cosine similarity
+}
+
+const STOPWORDS = new Set([
+  'a', 'about', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'being',
+  'but', 'by', 'can', 'could', 'do', 'does', 'doing', 'for', 'from', 'get', 'gets', 'had', 'has',
+  'have', 'having', 'he', 'her', 'him', 'his', 'how', 'i', 'if', 'im', 'in', 'into', 'is', 'it',
+  'its', 'just', 'kind', 'kinda', 'like', 'lot', 'lots', 'me', 'more', 'most', 'my', 'of', 'on',
+  'or', 'our', 'out', 'really', 'she', 'so', 'some', 'sort', 'stuff', 'that', 'the', 'their', 'them',
+  'then', 'there', 'these', 'they', 'thing', 'things', 'this', 'those', 'to', 'too', 'up', 'usually',
+  'very', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'will', 'with',
+  'would', 'you', 'your', 'music', 'song', 'songs', 'listen', 'listening', 'track', 'tracks'
+]);
+
+// phrases that have to be joined before splitting on whitespace/punctuation
+const PHRASE_ALIASES: { [phrase: string]: string } = {
+  'hip hop': 'hiphop',
+  'hip-hop': 'hiphop',
+  'r&b': 'rnb',
+  'r and b': 'rnb',
+  'rhythm and blues': 'rnb',
+  'lo fi': 'lofi',
+  'lo-fi': 'lofi',
+  'drum and bass': 'dnb',
+  "drum 'n' bass": 'dnb',
+  'k pop': 'kpop',
+  'k-pop': 'kpop',
+  'laid back': 'laidback',
+  'laid-back': 'laidback',
+  'singer songwriter': 'singersongwriter',
+  'singer-songwriter': 'singersongwriter',
+  'sing along': 'singalong',
+  'road trip': 'roadtrip',
+  'late night': 'latenight'
+};
+
+/**
+ * canonical music concepts and the words that mean roughly the same thing.
+ * a word may expand to several concepts (singer-songwriter is both folk and acoustic)
+ */
+const MUSIC_LEXICON: { [concept: string]: string[] } = {
+  // moods
+  chill: ['mellow', 'relax', 'relaxed', 'relaxing', 'calm', 'laidback', 'chilled', 'chillout', 'lofi', 'downtempo', 'easygoing', 'soothing', 'cozy', 'cosy', 'peaceful', 'serene', 'gentle'],
+  energetic: ['energy', 'upbeat', 'hype', 'hyped', 'pumped', 'intense', 'powerful', 'loud', 'fast', 'banger', 'bangers', 'adrenaline', 'excited', 'exciting'],
+  happy: ['joyful', 'cheerful', 'uplifting', 'feelgood', 'sunny', 'bright', 'fun', 'positive'],
+  sad: ['melancholy', 'melancholic', 'gloomy', 'heartbreak', 'heartbroken', 'crying', 'depressing', 'somber', 'sombre'],
+  nostalgic: ['nostalgia', 'throwback', 'throwbacks', 'childhood', 'retro', 'memories', 'oldies'],
+  romantic: ['love', 'romance', 'sensual', 'slowjam', 'intimate'],
+  angry: ['rage', 'aggressive', 'heavy', 'furious'],
+  reflective: ['thoughtful', 'introspective', 'moody', 'dreamy', 'contemplative', 'emotional'],
+  dance: ['dancing', 'danceable', 'club', 'clubbing', 'party', 'partying', 'rave', 'festival', 'groovy', 'groove'],
+  // genres
+  electronic: ['edm', 'electronica', 'techno', 'house', 'trance', 'dubstep', 'dnb', 'synth', 'synthwave', 'electro'],
+  hiphop: ['rap', 'rapper', 'trap', 'drill', 'boombap'],
+  rnb: ['soul', 'neosoul', 'motown'],
+  rock: ['punk', 'grunge', 'metal', 'alternative', 'alt', 'garage', 'emo', 'hardcore'],
+  folk: ['folky', 'americana', 'bluegrass', 'country', 'singersongwriter'],
+  acoustic: ['unplugged', 'guitar', 'singersongwriter', 'stripped'],
+  indie: ['indiepop', 'indierock', 'bedroom', 'underground'],
+  pop: ['mainstream', 'kpop', 'jpop', 'catchy', 'singalong', 'charts'],
+  jazz: ['swing', 'bebop', 'bossa', 'blues'],
+  classical: ['orchestral', 'orchestra', 'piano', 'symphony', 'instrumental', 'opera'],
+  latin: ['reggaeton', 'salsa', 'bachata', 'cumbia'],
+  ambient: ['atmospheric', 'soundscape', 'drone']
+};
+
+/**
+ * light porter-style suffix stripping - enough to fold "dancing", "danced" and "dances" together
+ */
+export const stemWord = (word: string): string => {
+  if (word.length <= 3) return word;
+
+  const rules: Array<[string, string]> = [
+    ['ational', 'ate'],
+    ['ization', 'ize'],
+    ['fulness', 'ful'],
+    ['iveness', 'ive'],
+    ['ousness', 'ous'],
+    ['ingly', ''],
+    ['edly', ''],
+    ['ness', ''],
+    ['ment', ''],
+    ['ing', ''],
+    ['ies', 'y'],
+    ['ied', 'y'],
+    ['ed', ''],
+    ['ly', ''],
+    ['es', ''],
+    ['s', ''],
+    ['e', '']
+  ];
+
+  for (const [suffix, replacement] of rules) {
+    if (word.endsWith(suffix) && !(suffix === 's' && word.endsWith('ss'))) {
+      const stemmed = word.slice(0, word.length - suffix.length) + replacement;
+      if (stemmed.length >= 3) return stemmed;
+    }
+  }
+
+  return word;
+};
+
+// alias -> concepts, keyed by both the raw and the stemmed alias
+const aliasLookup = new Map<string, string[]>();
+Object.keys(MUSIC_LEXICON).forEach(concept => {
+  [concept, ...MUSIC_LEXICON[concept]].forEach(alias => {
+    [alias, stemWord(alias)].forEach(key => {
+      const concepts = aliasLookup.get(key) || [];
+      if (!concepts.includes(concept)) concepts.push(concept);
+      aliasLookup.set(key, concepts);
+    });
+  });
+});
+
+/**
+ * turns free text into normalized terms: phrases joined, stopwords dropped,
+ * words stemmed and music synonyms folded onto their canonical concept
+ */
+export const tokenizeMusicText = (text: string): string[] => {
+  let normalized = (text || '').toLowerCase();
+
+  Object.keys(PHRASE_ALIASES).forEach(phrase => {
+    normalized = normalized.split(phrase).join(` ${PHRASE_ALIASES[phrase]} `);
+  });
+
+  const terms: string[] = [];
+
+  normalized
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 1 && !STOPWORDS.has(word))
+    .forEach(word => {
+      const concepts = aliasLookup.get(word) || aliasLookup.get(stemWord(word));
+      if (concepts) {
+        terms.push(...concepts);
+      } else {
+        terms.push(stemWord(word));
+      }
+    });
+
+  return terms;
+};
+
+const termFrequencies = (terms: string[]): Map<string, number> => {
+  const frequencies = new Map<string, number>();
+  terms.forEach(term => frequencies.set(term, (frequencies.get(term) || 0) + 1));
+  return frequencies;
+};
+
+/**
+ * smoothed inverse document frequency over a corpus of documents
+ */
+export const buildInverseDocumentFrequency = (documents: string[]): Map<string, number> => {
+  const documentFrequency = new Map<string, number>();
+
+  documents.forEach(document => {
+    new Set(tokenizeMusicText(document)).forEach(term => {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    });
+  });
+
+  const idf = new Map<string, number>();
+  documentFrequency.forEach((count, term) => {
+    idf.set(term, Math.log((documents.length + 1) / (count + 1)) + 1);
+  });
+
+  return idf;
+};
+
+/**
+ * builds a similarity model whose term weights come from `corpus`. terms never
+ * seen in the corpus get the highest weight, as if they appeared in no document
+ */
+export const createTextSimilarityModel = (corpus: string[] = []): TextSimilarityModel => {
+  const idf = buildInverseDocumentFrequency(corpus);
+  const unseenWeight = Math.log(corpus.length + 1) + 1;
+
+  const vectorize = (text: string): Map<string, number> => {
+    const vector = new Map<string, number>();
+    termFrequencies(tokenizeMusicText(text)).forEach((count, term) => {
+      vector.set(term, count * (idf.get(term) ?? unseenWeight));
+    });
+    return vector;
+  };
+
+  return {
+    similarity: (text1: string, text2: string): number => {
+      const vector1 = vectorize(text1);
+      const vector2 = vectorize(text2);
+      if (vector1.size === 0 || vector2.size === 0) return 0;
+
+      let dot = 0;
+      let norm1 = 0;
+      let norm2 = 0;
+
+      vector1.forEach((weight, term) => {
+        norm1 += weight * weight;
+        dot += weight * (vector2.get(term) || 0);
+      });
+      vector2.forEach(weight => {
+        norm2 += weight * weight;
+      });
+
+      return dot / (Math.sqrt(norm1) * Math.sqrt(norm2));
+    }
+  };
+};
+
+const defaultModel = createTextSimilarityModel();
+
+/**
+ * similarity without corpus statistics - every term weighted equally
+ */
+export const calculateTextSimilarity = (text1: string, text2: string): number => {
+  return defaultModel.similarity(text1, text2);
+};
@@ -1,81 +1,77 @@
-// pacific timezone calculations and temporal logic
+// daily reset windows and temporal logic. the calculations live in resetSchedule; these default to 9 AM Pacific and the real clock
+import { DEFAULT_RESET_SCHEDULE, ResetSchedule, getLastReset, getNextReset, getWindowKey, isInCurrentWindow } from './resetSchedule';
 
 /**
- * gets the current Pacific Time Date object
+ * the current time. a Date is an instant, so it's the same in every timezone - zone-specific
+ * calculations go through a ResetSchedule instead of shifting the Date
  */
 export const getPacificTime = (): Date => {
-  return new Date(new Date().toLocaleString("en-US", { timeZone: "America/Los_Angeles" }));
+  return new Date();
 };
 
 /**
- * Gets the most recent 9 AM Pacific reset time
+ * gets the most recent reset time (9 AM Pacific unless a schedule is given)
+ */
+export const getLastResetTime = (schedule: ResetSchedule = DEFAULT_RESET_SCHEDULE, now: Date = new Date()): Date => {
+  return getLastReset(schedule, now);
+};
 
+/**
+ * gets the next reset time (9 AM Pacific unless a schedule is given)
  */
-export const getLastResetTime = (): Date => {
-  const pacificNow = getPacificTime();
-  const resetTime = new Date(pacificNow);
-  
-  // set to 9 AM today
-  resetTime.setHours(9, 0, 0, 0);
-  
-  // if current time is before 9 AM today, use yesterday's 9 AM
-  if (pacificNow.getTime() < resetTime.getTime()) {
-    resetTime.setDate(resetTime.getDate() - 1);
-  }
-  
-  return resetTime;
+export const getNextResetTime = (schedule: ResetSchedule = DEFAULT_RESET_SCHEDULE, now: Date = new Date()): Date => {
+  return getNextReset(schedule, now);
 };
 
 /**
- * gets the next 9 AM Pacific reset time
+ * id of the current daily window, e.g. "2024-03-07" for the window that opened at 9 AM on March 7.
+ * built from the schedule's calendar date so server and browser agree regardless of their own timezone
  */
-export const getNextResetTime = (): Date => {
-  const pacificNow = getPacificTime();
-  const nextReset = new Date(pacificNow);
-  
-  nextReset.setHours(9, 0, 0, 0);
-  
-  if (pacificNow.getTime() >= nextReset.getTime()) {
-    nextReset.setDate(nextReset.getDate() + 1);
-  }
-  
-  return nextReset;
+export const getResetWindowKey = (schedule: ResetSchedule = DEFAULT_RESET_SCHEDULE, now: Date = new Date()): string => {
+  return getWindowKey(schedule, now);
 };
 
 /**
- * checks if a given timestamp is after the most recent 9 AM Pacific reset
+ * checks if a given timestamp is after the most recent reset
  */
-export const isAfterLastReset = (timestamp: Date | any): boolean => {
-  const lastReset = getLastResetTime();
-  
+export const isAfterLastReset = (
+  timestamp: Date | any,
+  schedule: ResetSchedule = DEFAULT_RESET_SCHEDULE,
+  now: Date = new Date()
+): boolean => {
   const dateToCheck = timestamp?.toDate ? timestamp.toDate() : new Date(timestamp);
-  
-  return dateToCheck.getTime() > lastReset.getTime();
+
+  return isInCurrentWindow(dateToCheck, schedule, now);
 };
 
 /**
- * checks if the user has posted today (after 9 AM Pacific reset)
+ * checks if the user has posted in the current window of their schedule
  */
-export const hasPostedToday = (lastPostDate: Date | any | null, lastPostDateManual?: Date | any | null): boolean => {
+export const hasPostedToday = (
+  lastPostDate: Date | any | null,
+  lastPostDateManual?: Date | any | null,
+  schedule: ResetSchedule = DEFAULT_RESET_SCHEDULE,
+  now: Date = new Date()
+): boolean => {
   if (!lastPostDate && !lastPostDateManual) return false;
   
   // try primary timestamp first
   if (lastPostDate) {
-    const result = isAfterLastReset(lastPostDate);
+    const result = isAfterLastReset(lastPostDate, schedule, now);
     console.log(' hasPostedToday check (primary):', {
       lastPostDate,
       isAfterReset: result,
-      lastResetTime: getLastResetTime()
+      lastResetTime: getLastResetTime(schedule, now)
     });
     if (result) return true;
   }
   
   if (lastPostDateManual) {
-    const result = isAfterLastReset(lastPostDateManual);
+    const result = isAfterLastReset(lastPostDateManual, schedule, now);
     console.log(' hasPostedToday check (fallback):', {
       lastPostDateManual,
       isAfterReset: result,
-      lastResetTime: getLastResetTime()
+      lastResetTime: getLastResetTime(schedule, now)
     });
     return result;
   }
@@ -86,9 +82,8 @@ export const hasPostedToday = (lastPostDate: Date | any | null, lastPostDateManu
 /**
  * gets a human-readable time until next reset
  */
-export const getTimeUntilReset = (): string => {
-  const now = getPacificTime();
-  const nextReset = getNextResetTime();
+export const getTimeUntilReset = (schedule: ResetSchedule = DEFAULT_RESET_SCHEDULE, now: Date = new Date()): string => {
+  const nextReset = getNextResetTime(schedule, now);
   const diff = nextReset.getTime() - now.getTime();
   
   const hours = Math.floor(diff / (1000 * 60 * 60));
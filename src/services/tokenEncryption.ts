@@ -0,0 +1,49 @@
+// aes-256-gcm encryption for secrets kept in firestore
+import crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+// prefix of every encrypted value, so the format can change without guessing
+const FORMAT_VERSION = 'v1';
+
+/**
+ * a 256-bit key given as 64 hex characters or base64
+ */
+export const parseEncryptionKey = (value: string): Buffer => {
+  const trimmed = value.trim();
+  const key = /^[0-9a-fA-F]{64}$/.test(trimmed) ? Buffer.from(trimmed, 'hex') : Buffer.from(trimmed, 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`Encryption key must be ${KEY_BYTES} bytes (64 hex characters or base64)`);
+  }
+  return key;
+};
+
+/**
+ * encrypts `plaintext` as `v1.<iv>.<tag>.<ciphertext>`. `context` (e.g. the owner's uid) is
+ * authenticated but not stored, so a value copied onto another record won't decrypt
+ */
+export const encryptSecret = (plaintext: string, key: Buffer, context = ''): string => {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(context, 'utf8'));
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [FORMAT_VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join('.');
+};
+
+/**
+ * decrypts a value from `encryptSecret`. throws if it was tampered with, encrypted
+ * under another key or for another context
+ */
+export const decryptSecret = (payload: string, key: Buffer, context = ''): string => {
+  const [version, iv, tag, ciphertext] = payload.split('.');
+  if (version !== FORMAT_VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error('Unrecognized encrypted value');
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+  decipher.setAAD(Buffer.from(context, 'utf8'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+};
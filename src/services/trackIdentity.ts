@@ -0,0 +1,214 @@
+// recognizes the same recording across catalogs: by ISRC when known, otherwise by title, artist and duration
+import { TrackRef, isSameTrackRef, trackRefKey } from './musicProvider';
+
+// the least a fuzzy match has to score to count as the same recording
+export const FUZZY_MATCH_THRESHOLD = 0.85;
+
+// catalogs round durations differently and some add a second of silence
+export const DURATION_TOLERANCE_MS = 3000;
+
+// anything further apart than this is a different cut (live, extended, radio edit...)
+const MAX_DURATION_DIFFERENCE_MS = 15000;
+
+export interface IdentityTrack {
+  ref?: TrackRef | null;
+  title: string;
+  artist: string;      // every artist, comma separated
+  durationMs?: number;
+  isrc?: string;
+}
+
+export interface TrackIdentity {
+  id: string;          // `isrc:...` when the ISRC was known at creation; never changes afterwards
+  isrc?: string;
+  title: string;
+  artist: string;
+  durationMs?: number;
+  refs: TrackRef[];    // every catalog entry known to be this recording
+}
+
+export type IdentityMatch = 'isrc' | 'ref' | 'fuzzy' | 'new';
+
+export interface IdentityResolution {
+  identity: TrackIdentity;
+  matchedBy: IdentityMatch;
+  score: number;       // 1 for isrc/ref matches and new identities
+}
+
+/**
+ * uppercase ISRC without separators, or null when it isn't shaped like one (CC-XXX-YY-NNNNN)
+ */
+export const normalizeIsrc = (isrc?: string | null): string | null => {
+  if (!isrc) return null;
+  const cleaned = isrc.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return /^[A-Z]{2}[A-Z0-9]{3}\d{7}$/.test(cleaned) ? cleaned : null;
+};
+
+const stripAccents = (value: string): string => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+/**
+ * title without the decorations catalogs disagree on: featured artists,
+ * "remastered 2011", "- single version" and punctuation
+ */
+export const normalizeTrackTitle = (title: string): string => {
+  return stripAccents(title.toLowerCase())
+    .replace(/\((feat|ft|with)\.?[^)]*\)|\[(feat|ft|with)\.?[^\]]*\]/g, ' ')
+    .replace(/\s-\s.*(remaster|version|edit|mono|stereo|single|deluxe).*$/g, ' ')
+    .replace(/[([][^)\]]*(remaster|version|edit|mono|stereo|single|deluxe)[^)\]]*[)\]]/g, ' ')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+/**
+ * lead artist only, lowercased and without a leading "the"
+ */
+export const normalizeArtistName = (artist: string): string => {
+  const lead = artist.split(/,|\s(?:feat\.?|ft\.?|featuring|with|x|&)\s/i)[0] || artist;
+  return stripAccents(lead.toLowerCase())
+    .replace(/^the\s+/, '')
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const tokenSimilarity = (a: string, b: string): number => {
+  if (a === b) return a.length > 0 ? 1 : 0;
+  const tokensA = new Set(a.split(' ').filter(Boolean));
+  const tokensB = new Set(b.split(' ').filter(Boolean));
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+  const shared = Array.from(tokensA).filter(token => tokensB.has(token)).length;
+  return shared / (tokensA.size + tokensB.size - shared);
+};
+
+/**
+ * 0-1 confidence that two tracks are the same recording, from title, lead artist and duration
+ */
+export const trackMatchScore = (a: IdentityTrack, b: IdentityTrack): number => {
+  const titleScore = tokenSimilarity(normalizeTrackTitle(a.title), normalizeTrackTitle(b.title));
+  const artistScore = tokenSimilarity(normalizeArtistName(a.artist), normalizeArtistName(b.artist));
+  if (titleScore === 0 || artistScore === 0) return 0;
+
+  // unknown durations neither help nor hurt
+  let durationScore = 1;
+  if (a.durationMs && b.durationMs) {
+    const difference = Math.abs(a.durationMs - b.durationMs);
+    if (difference > MAX_DURATION_DIFFERENCE_MS) return 0;
+    durationScore = difference <= DURATION_TOLERANCE_MS
+      ? 1
+      : 1 - (difference - DURATION_TOLERANCE_MS) / (MAX_DURATION_DIFFERENCE_MS - DURATION_TOLERANCE_MS);
+  }
+
+  return 0.5 * titleScore + 0.3 * artistScore + 0.2 * durationScore;
+};
+
+/**
+ * id for a new identity: the ISRC when known, else the catalog reference, else title and artist
+ */
+export const identityIdFor = (track: IdentityTrack): string => {
+  const isrc = normalizeIsrc(track.isrc);
+  if (isrc) return `isrc:${isrc}`;
+  if (track.ref) return `ref:${trackRefKey(track.ref)}`;
+  return `song:${normalizeTrackTitle(track.title)}|${normalizeArtistName(track.artist)}`;
+};
+
+/**
+ * best fuzzy match for `track` among `candidates` scoring at least `threshold`
+ */
+export const findFuzzyMatch = <T extends IdentityTrack>(
+  track: IdentityTrack,
+  candidates: T[],
+  threshold: number = FUZZY_MATCH_THRESHOLD
+): { match: T; score: number } | null => {
+  let best: { match: T; score: number } | null = null;
+  candidates.forEach(candidate => {
+    const score = trackMatchScore(track, candidate);
+    if (score >= threshold && (!best || score > best.score)) best = { match: candidate, score };
+  });
+  return best;
+};
+
+/**
+ * finds the recording `track` is in a known set of identities, adding its catalog
+ * reference (and ISRC, if newly learned) to the one it matches. two ISRCs that
+ * differ are never merged, however alike the titles are
+ */
+export const resolveTrackIdentity = (track: IdentityTrack, known: TrackIdentity[]): IdentityResolution => {
+  const isrc = normalizeIsrc(track.isrc);
+
+  const withRef = (identity: TrackIdentity): TrackIdentity => {
+    const refs = track.ref && !identity.refs.some(ref => isSameTrackRef(ref, track.ref))
+      ? [...identity.refs, track.ref]
+      : identity.refs;
+    return {
+      ...identity,
+      isrc: identity.isrc || isrc || undefined,
+      durationMs: identity.durationMs || track.durationMs,
+      refs
+    };
+  };
+
+  if (isrc) {
+    const byIsrc = known.find(identity => normalizeIsrc(identity.isrc) === isrc);
+    if (byIsrc) return { identity: withRef(byIsrc), matchedBy: 'isrc', score: 1 };
+  }
+
+  if (track.ref) {
+    const byRef = known.find(identity => identity.refs.some(ref => isSameTrackRef(ref, track.ref)));
+    if (byRef && (!isrc || !byRef.isrc || normalizeIsrc(byRef.isrc) === isrc)) {
+      return { identity: withRef(byRef), matchedBy: 'ref', score: 1 };
+    }
+  }
+
+  const compatible = known.filter(identity => !isrc || !identity.isrc || normalizeIsrc(identity.isrc) === isrc);
+  const fuzzy = findFuzzyMatch(track, compatible);
+  if (fuzzy) return { identity: withRef(fuzzy.match), matchedBy: 'fuzzy', score: fuzzy.score };
+
+  return {
+    identity: {
+      id: identityIdFor(track),
+      isrc: isrc || undefined,
+      title: track.title,
+      artist: track.artist,
+      durationMs: track.durationMs,
+      refs: track.ref ? [track.ref] : []
+    },
+    matchedBy: 'new',
+    score: 1
+  };
+};
+
+/**
+ * the entry in another catalog that is the same recording as `track`, by ISRC first
+ */
+export const matchInCatalog = <T extends IdentityTrack>(track: IdentityTrack, catalog: T[]): { match: T; matchedBy: 'isrc' | 'fuzzy'; score: number } | null => {
+  const isrc = normalizeIsrc(track.isrc);
+  if (isrc) {
+    const byIsrc = catalog.find(candidate => normalizeIsrc(candidate.isrc) === isrc);
+    if (byIsrc) return { match: byIsrc, matchedBy: 'isrc', score: 1 };
+  }
+
+  const compatible = catalog.filter(candidate => !isrc || !normalizeIsrc(candidate.isrc));
+  const fuzzy = findFuzzyMatch(track, compatible);
+  return fuzzy ? { match: fuzzy.match, matchedBy: 'fuzzy', score: fuzzy.score } : null;
+};
+
+/**
+ * key that is equal for two posts of the same recording: the stored identity when the post
+ * has one, otherwise whatever the post itself says about its song
+ */
+export const songIdentityKey = (postData: any): string | null => {
+  const song = postData?.song || {};
+  if (song.identityId) return song.identityId;
+
+  const title = song.title || postData?.songTitle;
+  const artist = song.artist || postData?.songArtist;
+  const isrc = normalizeIsrc(song.isrc);
+  if (isrc) return `isrc:${isrc}`;
+
+  const ref = song.track || (song.spotifyId || postData?.spotifyId ? { provider: 'spotify', id: song.spotifyId || postData.spotifyId } : null);
+  if (ref) return `ref:${trackRefKey(ref)}`;
+
+  return title && artist ? identityIdFor({ title, artist }) : null;
+};
@@ -0,0 +1,123 @@
+// canonical per-track metadata and audio features, shared by every post of the same song
+import { trackRefOf } from './musicProvider';
+import { stripUndefined } from './firestoreFields';
+
+export type TrackProvenance = 'placeholder' | 'analyzed' | 'imported';
+
+export interface TrackAudioFeatures {
+  valence: number;
+  energy: number;
+  danceability: number;
+  acousticness: number;
+  tempo: number;
+  [feature: string]: any; // key, mode, loudness and friends when known
+}
+
+export interface TrackRecord {
+  spotifyId: string;
+  title: string;
+  artist: string;
+  album?: string;
+  coverArtUrl?: string;
+  previewUrl?: string;
+  genres: string[];
+  parentGenres?: string[];      // broad genres from the genre taxonomy, dominant first
+  isrc?: string;
+  identityId?: string;          // the recording in `trackIdentities`
+  audioFeatures?: TrackAudioFeatures;
+  provenance: TrackProvenance;  // where audioFeatures came from
+  analysisVersion?: number;     // set when provenance is 'analyzed'
+  updatedAt: string;            // ISO timestamp
+}
+
+// higher wins: measured beats guessed, and imported reference data beats our own measurement
+const PROVENANCE_RANK: { [provenance in TrackProvenance]: number } = {
+  placeholder: 0,
+  analyzed: 1,
+  imported: 2
+};
+
+/**
+ * true when features from `incoming` may replace the `current` ones. the first guess or
+ * measurement of a track sticks (so every post of it agrees) until something better arrives:
+ * higher provenance, a newer analysis version, or a fresh import
+ */
+export const canReplaceFeatures = (
+  current: Pick<TrackRecord, 'provenance' | 'analysisVersion'> | null | undefined,
+  incoming: Pick<TrackRecord, 'provenance' | 'analysisVersion'>
+): boolean => {
+  if (!current) return true;
+
+  const currentRank = PROVENANCE_RANK[current.provenance];
+  const incomingRank = PROVENANCE_RANK[incoming.provenance];
+  if (incomingRank !== currentRank) return incomingRank > currentRank;
+
+  if (incoming.provenance === 'imported') return true;
+  if (incoming.provenance === 'analyzed') return (incoming.analysisVersion || 0) > (current.analysisVersion || 0);
+  return false;
+};
+
+/**
+ * combines a stored record with new information about the track. metadata fills gaps,
+ * genres accumulate, and features are only replaced by equal or better provenance
+ */
+export const mergeTrackRecord = (existing: TrackRecord | null, incoming: Partial<TrackRecord> & { spotifyId: string }): TrackRecord => {
+  const incomingProvenance = incoming.provenance || 'placeholder';
+  const replaceFeatures = !!incoming.audioFeatures && (
+    !existing?.audioFeatures ||
+    canReplaceFeatures(existing, { provenance: incomingProvenance, analysisVersion: incoming.analysisVersion })
+  );
+
+  const merged: TrackRecord = {
+    spotifyId: incoming.spotifyId,
+    title: existing?.title || incoming.title || '',
+    artist: existing?.artist || incoming.artist || '',
+    album: existing?.album || incoming.album,
+    coverArtUrl: existing?.coverArtUrl || incoming.coverArtUrl,
+    isrc: existing?.isrc || incoming.isrc,
+    identityId: existing?.identityId || incoming.identityId,
+    // preview urls expire, so prefer the newest one
+    previewUrl: incoming.previewUrl || existing?.previewUrl,
+    genres: Array.from(new Set([...(existing?.genres || []), ...(incoming.genres || [])])),
+    parentGenres: existing?.parentGenres || incoming.parentGenres
+      ? Array.from(new Set([...(existing?.parentGenres || []), ...(incoming.parentGenres || [])]))
+      : undefined,
+    audioFeatures: replaceFeatures ? incoming.audioFeatures : existing?.audioFeatures,
+    provenance: replaceFeatures ? incomingProvenance : existing?.provenance || incomingProvenance,
+    analysisVersion: replaceFeatures ? incoming.analysisVersion : existing?.analysisVersion,
+    updatedAt: new Date().toISOString()
+  };
+
+  return stripUndefined(merged);
+};
+
+/**
+ * overlays the canonical track onto a raw post document so scoring sees the
+ * best known features and genres instead of the snapshot taken at post time
+ */
+export const applyTrackRecord = (postData: any, track: TrackRecord | null | undefined): any => {
+  if (!track) return postData;
+
+  const song = postData.song || {};
+  const audioFeatures = track.audioFeatures || song.audioFeatures || postData.audioFeatures;
+
+  return {
+    ...postData,
+    audioFeatures,
+    song: {
+      ...song,
+      audioFeatures,
+      genres: track.genres.length > 0 ? track.genres : song.genres || [],
+      parentGenres: track.parentGenres || song.parentGenres
+    }
+  };
+};
+
+/**
+ * spotify id a post's song is stored under, if any. songs from other catalogs
+ * aren't in the track store yet
+ */
+export const trackIdOf = (postData: any): string | null => {
+  const ref = trackRefOf(postData);
+  return ref?.provider === 'spotify' ? ref.id : null;
+};
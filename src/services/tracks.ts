@@ -0,0 +1,47 @@
+// firestore-backed canonical track store (`tracks/{spotifyId}`)
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from './firebase';
+import { DocumentLoader, createDocumentLoader } from './documentLoader';
+import { TrackRecord, trackIdOf } from './trackRecords';
+
+/**
+ * read one canonical track, or null if it hasn't been stored yet
+ */
+export const getTrackRecord = async (spotifyId: string): Promise<TrackRecord | null> => {
+  try {
+    const trackDoc = await getDoc(doc(db, 'tracks', spotifyId));
+    return trackDoc.exists() ? (trackDoc.data() as TrackRecord) : null;
+  } catch (error) {
+    console.error('Error getting track record:', error);
+    return null;
+  }
+};
+
+/**
+ * batched loader for `tracks` documents, keyed by spotify id
+ */
+export const createTrackLoader = (): DocumentLoader<TrackRecord> => createDocumentLoader<TrackRecord>('tracks');
+
+/**
+ * loads the canonical tracks behind a set of posts into a map keyed by spotify id
+ */
+export const loadTracksForPosts = async (postDatas: any[], loader: DocumentLoader<TrackRecord> = createTrackLoader()): Promise<Map<string, TrackRecord>> => {
+  const trackIds = Array.from(new Set(
+    postDatas
+      .map(trackIdOf)
+      .filter((trackId): trackId is string => !!trackId)
+  ));
+
+  const tracks = new Map<string, TrackRecord>();
+  try {
+    const records = await loader.loadMany(trackIds);
+    records.forEach((record, index) => {
+      if (record) tracks.set(trackIds[index], record);
+    });
+  } catch (error) {
+    // posts still carry their own feature snapshot, so ranking can go on without the store
+    console.warn(' Could not load track records - using post snapshots:', error);
+  }
+
+  return tracks;
+};
@@ -0,0 +1,73 @@
+// server-side (firebase admin) access to the canonical track store
+import { Firestore } from 'firebase-admin/firestore';
+import { TrackRecord, mergeTrackRecord, trackIdOf } from './trackRecords';
+import { IdentityResolution, IdentityTrack, TrackIdentity, normalizeIsrc, normalizeTrackTitle, resolveTrackIdentity } from './trackIdentity';
+import { trackRefKey } from './musicProvider';
+import { stripUndefined } from './firestoreFields';
+
+/**
+ * loads the canonical tracks behind a set of posts into a map keyed by spotify id
+ */
+export const loadTrackRecords = async (db: Firestore, postDatas: any[]): Promise<Map<string, TrackRecord>> => {
+  const trackIds = Array.from(new Set(
+    postDatas.map(trackIdOf).filter((trackId): trackId is string => !!trackId)
+  ));
+
+  const tracks = new Map<string, TrackRecord>();
+  if (trackIds.length === 0) return tracks;
+
+  const trackDocs = await db.getAll(...trackIds.map(trackId => db.collection('tracks').doc(trackId)));
+  trackDocs.forEach(trackDoc => {
+    if (trackDoc.exists) tracks.set(trackDoc.id, trackDoc.data() as TrackRecord);
+  });
+
+  return tracks;
+};
+
+/**
+ * merge what we know about a track into its canonical record and return the result
+ */
+export const saveTrackRecord = async (db: Firestore, incoming: Partial<TrackRecord> & { spotifyId: string }): Promise<TrackRecord> => {
+  const trackRef = db.collection('tracks').doc(incoming.spotifyId);
+
+  return db.runTransaction(async (transaction) => {
+    const trackDoc = await transaction.get(trackRef);
+    const merged = mergeTrackRecord(trackDoc.exists ? (trackDoc.data() as TrackRecord) : null, incoming);
+    transaction.set(trackRef, merged);
+    return merged;
+  });
+};
+
+/**
+ * finds (or creates) the recording a track is in `trackIdentities` and records the
+ * track's catalog reference on it. candidates are the identities sharing its ISRC,
+ * its catalog reference or its normalized title
+ */
+export const saveTrackIdentity = async (db: Firestore, track: IdentityTrack): Promise<IdentityResolution> => {
+  const identities = db.collection('trackIdentities');
+  const isrc = normalizeIsrc(track.isrc);
+  const titleKey = normalizeTrackTitle(track.title);
+
+  const snapshots = await Promise.all([
+    isrc ? identities.where('isrc', '==', isrc).get() : null,
+    track.ref ? identities.where('refKeys', 'array-contains', trackRefKey(track.ref)).get() : null,
+    titleKey ? identities.where('titleKey', '==', titleKey).get() : null
+  ]);
+
+  const known = new Map<string, TrackIdentity>();
+  snapshots.forEach(snapshot => {
+    snapshot?.forEach(identityDoc => known.set(identityDoc.id, { ...(identityDoc.data() as TrackIdentity), id: identityDoc.id }));
+  });
+
+  const resolution = resolveTrackIdentity(track, Array.from(known.values()));
+  const { identity } = resolution;
+
+  await identities.doc(identity.id).set(stripUndefined({
+    ...identity,
+    titleKey: normalizeTrackTitle(identity.title),
+    refKeys: identity.refs.map(trackRefKey)
+  }), { merge: true });
+
+  console.log(` Track identity for "${track.title}": ${identity.id} (${resolution.matchedBy})`);
+  return resolution;
+};